@@ -1,14 +1,23 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import HomePage from '@/pages/HomePage'
 import CallbackPage from '@/pages/CallbackPage'
+import ChatPage from '@/pages/ChatPage'
+import ExplorerPage from '@/pages/ExplorerPage'
+import ModelsPage from '@/pages/ModelsPage'
+import StructuredPage from '@/pages/StructuredPage'
+import { ROUTER_BASENAME } from '@/lib/config'
 
 function App() {
   return (
-    <Router>
+    <Router basename={ROUTER_BASENAME}>
       <div className="min-h-screen bg-background">
         <Routes>
           <Route path="/" element={<HomePage />} />
           <Route path="/callback" element={<CallbackPage />} />
+          <Route path="/chat/:chatId?" element={<ChatPage />} />
+          <Route path="/explorer" element={<ExplorerPage />} />
+          <Route path="/models" element={<ModelsPage />} />
+          <Route path="/structured" element={<StructuredPage />} />
         </Routes>
       </div>
     </Router>
@@ -1,9 +1,79 @@
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { User, LogIn, LogOut, Loader2, AlertCircle } from "lucide-react";
-import type { AuthenticationState } from "@/types/auth";
+import type { AuthenticationState, TokenClaims } from "@/types/auth";
+
+function formatRemaining(ms: number): string {
+  if (ms <= 0) return 'expired';
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+function ExpiryCountdown({ expiresAt }: { expiresAt: number }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = expiresAt - now;
+  return (
+    <span className={remaining < 60 * 1000 ? "text-destructive" : undefined} title={new Date(expiresAt).toLocaleString()}>
+      {formatRemaining(remaining)}
+    </span>
+  );
+}
+
+function ClaimList({ label, values }: { label: string; values: string[] }) {
+  return (
+    <div className="space-y-1">
+      <strong>{label}:</strong>
+      {values.length === 0 ? (
+        <span className="ml-2 text-sm text-muted-foreground">none</span>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {values.map(value => (
+            <Badge key={value} variant="outline" className="font-mono font-normal">
+              {value}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TokenClaimsDetails({ claims }: { claims: TokenClaims }) {
+  return (
+    <div className="space-y-2 border-t pt-4 text-sm">
+      {claims.expiresAt !== null && (
+        <div className="flex items-center gap-2">
+          <strong>Token expires in:</strong> <ExpiryCountdown expiresAt={claims.expiresAt} />
+        </div>
+      )}
+      {claims.subject && (
+        <div className="flex items-center gap-2">
+          <strong>Subject:</strong> <code className="truncate text-xs">{claims.subject}</code>
+        </div>
+      )}
+      {claims.resourceScope && (
+        <div className="flex items-center gap-2">
+          <strong>Resource scope:</strong> <code className="text-xs">{claims.resourceScope}</code>
+        </div>
+      )}
+      <ClaimList label="Roles" values={claims.roles} />
+      <ClaimList label="Scopes" values={claims.scopes} />
+    </div>
+  );
+}
 
 interface AuthenticationStatusSectionProps {
   authState: AuthenticationState;
@@ -64,6 +134,8 @@ export function AuthenticationStatusSection({ authState }: AuthenticationStatusS
           </div>
         )}
 
+        {authState.claims && <TokenClaimsDetails claims={authState.claims} />}
+
         {authState.error && (
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
@@ -73,7 +145,7 @@ export function AuthenticationStatusSection({ authState }: AuthenticationStatusS
 
         <div className="flex gap-2">
           {authState.status === 'unauthenticated' || authState.status === 'error' ? (
-            <Button onClick={authState.login} className="flex items-center gap-2">
+            <Button onClick={() => authState.login()} className="flex items-center gap-2">
               <LogIn className="h-4 w-4" />
               Log In
             </Button>
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { RequireAccess } from '@/components/auth/RequireAccess';
+import type { AuthenticationState } from '@/types/auth';
+
+const authState: AuthenticationState = {
+  status: 'authenticated',
+  userInfo: { email: 'user@example.com', role: 'resource_user', tokenType: 'Bearer', loggedIn: true },
+  claims: null,
+  error: null,
+  login: async () => {},
+  logout: () => {},
+};
+
+describe('RequireAccess', () => {
+  it('renders children when access is granted', () => {
+    render(
+      <RequireAccess authState={authState} role="resource_user">
+        <button>Chat</button>
+      </RequireAccess>
+    );
+
+    expect(screen.getByRole('button', { name: 'Chat' })).toBeEnabled();
+  });
+
+  it('renders the fallback instead of hidden features', () => {
+    render(
+      <RequireAccess authState={authState} role="resource_admin" fallback={<p>Admins only</p>}>
+        <button>Manage models</button>
+      </RequireAccess>
+    );
+
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+    expect(screen.getByText('Admins only')).toBeInTheDocument();
+  });
+
+  it('disables features and explains why', () => {
+    render(
+      <RequireAccess authState={authState} role="resource_admin" scopes={['scope_user_admin']} mode="disable">
+        <button>Manage models</button>
+      </RequireAccess>
+    );
+
+    expect(screen.getByRole('button', { name: 'Manage models' })).toBeDisabled();
+    expect(screen.getByRole('group')).toHaveAttribute(
+      'title',
+      'Requires the resource_admin role\nRequires the scope_user_admin scope'
+    );
+  });
+});
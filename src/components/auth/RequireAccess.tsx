@@ -0,0 +1,37 @@
+import type { ReactNode } from "react";
+import { useAccess } from "@/hooks/useAccess";
+import type { AccessRequirement, AuthenticationState } from "@/types/auth";
+
+interface RequireAccessProps extends AccessRequirement {
+  authState: AuthenticationState;
+  // "hide" renders the fallback instead, "disable" keeps the children visible but inert
+  mode?: 'hide' | 'disable';
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+export function RequireAccess({
+  authState,
+  role,
+  scopes,
+  mode = 'hide',
+  fallback = null,
+  children,
+}: RequireAccessProps) {
+  const access = useAccess(authState, { role, scopes });
+
+  if (access.allowed) {
+    return <>{children}</>;
+  }
+
+  if (mode === 'hide') {
+    return <>{fallback}</>;
+  }
+
+  // A disabled fieldset disables every nested button and form control
+  return (
+    <fieldset disabled className="contents" title={access.missing.join('\n')} aria-disabled="true">
+      {children}
+    </fieldset>
+  );
+}
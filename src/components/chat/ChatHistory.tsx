@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MessageSquare, Pencil, Trash2, Check, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { groupChatsByPeriod } from "@/lib/chat-history";
+import type { Chat } from "@/types/chat";
+
+interface ChatHistoryProps {
+  chats: Chat[];
+  currentChatId: string | null;
+  onSelectChat: (id: string) => void;
+  onDeleteChat: (id: string) => void;
+  onRenameChat: (id: string, title: string) => void;
+}
+
+export function ChatHistory({
+  chats,
+  currentChatId,
+  onSelectChat,
+  onDeleteChat,
+  onRenameChat,
+}: ChatHistoryProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  const startRename = (chat: Chat) => {
+    setEditingId(chat.id);
+    setEditTitle(chat.title);
+  };
+
+  const cancelRename = () => {
+    setEditingId(null);
+    setEditTitle('');
+  };
+
+  const submitRename = () => {
+    const title = editTitle.trim();
+    if (editingId && title) {
+      onRenameChat(editingId, title);
+    }
+    cancelRename();
+  };
+
+  const handleRenameKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') submitRename();
+    if (event.key === 'Escape') cancelRename();
+  };
+
+  if (chats.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 p-4 text-center text-sm text-muted-foreground">
+        <MessageSquare className="h-6 w-6" />
+        No conversations yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {groupChatsByPeriod(chats).map(group => (
+        <div key={group.period} className="space-y-1">
+          <h4 className="px-2 text-xs font-semibold uppercase text-muted-foreground">
+            {group.period}
+          </h4>
+          {group.chats.map(chat => (
+            <div
+              key={chat.id}
+              className={cn(
+                "group flex items-center gap-1 rounded-md px-2 py-1 text-sm hover:bg-accent",
+                chat.id === currentChatId && "bg-accent font-medium"
+              )}
+            >
+              {editingId === chat.id ? (
+                <>
+                  <Input
+                    value={editTitle}
+                    onChange={event => setEditTitle(event.target.value)}
+                    onKeyDown={handleRenameKeyDown}
+                    className="h-7 flex-1 px-2"
+                    aria-label="Chat title"
+                    autoFocus
+                  />
+                  <Button onClick={submitRename} variant="ghost" size="icon" className="h-7 w-7" aria-label="Save title">
+                    <Check className="h-3 w-3" />
+                  </Button>
+                  <Button onClick={cancelRename} variant="ghost" size="icon" className="h-7 w-7" aria-label="Cancel rename">
+                    <X className="h-3 w-3" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onSelectChat(chat.id)}
+                    className="flex-1 truncate text-left"
+                    title={chat.title}
+                  >
+                    {chat.title}
+                  </button>
+                  <Button
+                    onClick={() => startRename(chat)}
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                    aria-label="Rename chat"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    onClick={() => onDeleteChat(chat.id)}
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                    aria-label="Delete chat"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
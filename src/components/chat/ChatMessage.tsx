@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MarkdownContent } from "@/components/chat/MarkdownContent";
+import { CitationList } from "@/components/chat/CitationList";
+import { ToolCallList } from "@/components/chat/ToolCallList";
+import { Bot, User, Copy, Check, Pencil, RefreshCw, ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { BranchPosition, Message, MessageMetadata } from "@/types/chat";
+
+function formatMetadata(metadata: MessageMetadata): string[] {
+  const parts: string[] = [];
+  const { usage, timings } = metadata;
+  if (usage) {
+    parts.push(`${usage.completion_tokens} tokens`);
+  }
+  if (timings?.tokensPerSecond) {
+    parts.push(`${timings.tokensPerSecond.toFixed(1)} tok/s`);
+  }
+  if (timings?.timeToFirstTokenMs !== null && timings?.timeToFirstTokenMs !== undefined) {
+    parts.push(`TTFT ${Math.round(timings.timeToFirstTokenMs)} ms`);
+  }
+  if (timings) {
+    parts.push(`${(timings.durationMs / 1000).toFixed(1)} s`);
+  }
+  if (metadata.finishReason && metadata.finishReason !== 'stop') {
+    parts.push(`finished: ${metadata.finishReason}`);
+  }
+  return parts;
+}
+
+interface BranchNavigatorProps {
+  position: BranchPosition;
+  onSwitch: (offset: number) => void;
+  disabled?: boolean;
+}
+
+function BranchNavigator({ position, onSwitch, disabled = false }: BranchNavigatorProps) {
+  return (
+    <div className="flex items-center text-xs text-muted-foreground">
+      <Button
+        onClick={() => onSwitch(-1)}
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={disabled || position.index === 0}
+        aria-label="Previous version"
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </Button>
+      <span>{position.index + 1}/{position.count}</span>
+      <Button
+        onClick={() => onSwitch(1)}
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={disabled || position.index === position.count - 1}
+        aria-label="Next version"
+      >
+        <ChevronRight className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+interface ChatMessageProps {
+  message: Message;
+  isStreaming?: boolean;
+  branch?: BranchPosition;
+  // Disables editing, regenerating and branch switching, e.g. while another reply streams
+  actionsDisabled?: boolean;
+  onSwitchBranch?: (offset: number) => void;
+  onEdit?: (content: string) => void;
+  onRegenerate?: () => void;
+}
+
+export function ChatMessage({
+  message,
+  isStreaming = false,
+  branch,
+  actionsDisabled = false,
+  onSwitchBranch,
+  onEdit,
+  onRegenerate,
+}: ChatMessageProps) {
+  const [copied, setCopied] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const isUser = message.role === 'user';
+  const metadataParts = message.metadata ? formatMetadata(message.metadata) : [];
+  const hasBranches = !!branch && branch.count > 1 && !!onSwitchBranch;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(message.content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy message:', error);
+    }
+  };
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setEditing(true);
+  };
+
+  const submitEdit = () => {
+    const content = draft.trim();
+    if (!content) return;
+    setEditing(false);
+    onEdit?.(content);
+  };
+
+  const handleEditKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      submitEdit();
+    } else if (event.key === 'Escape') {
+      setEditing(false);
+    }
+  };
+
+  return (
+    <div className={cn("flex gap-3", isUser && "flex-row-reverse")}>
+      <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full border bg-muted">
+        {isUser ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+      </div>
+      <div className={cn("flex max-w-[80%] flex-col gap-1", isUser && "items-end", editing && "w-full")}>
+        {!isUser && message.metadata?.toolCalls && message.metadata.toolCalls.length > 0 && (
+          <ToolCallList toolCalls={message.metadata.toolCalls} />
+        )}
+        {editing ? (
+          <div className="flex w-full flex-col gap-2">
+            <Textarea
+              value={draft}
+              onChange={event => setDraft(event.target.value)}
+              onKeyDown={handleEditKeyDown}
+              className="min-h-[80px]"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button onClick={() => setEditing(false)} variant="outline" size="sm">
+                Cancel
+              </Button>
+              <Button onClick={submitEdit} size="sm" disabled={!draft.trim()}>
+                Save & send
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div
+            className={cn(
+              "rounded-lg px-4 py-2 text-sm break-words",
+              isUser ? "bg-primary text-primary-foreground whitespace-pre-wrap" : "min-w-0 bg-muted"
+            )}
+          >
+            {isUser ? message.content : (
+              <MarkdownContent content={message.content} isStreaming={isStreaming} />
+            )}
+            {isStreaming && (
+              <span className="ml-1 inline-block h-4 w-2 animate-pulse bg-foreground/60 align-middle" />
+            )}
+          </div>
+        )}
+        {!isUser && !editing && message.metadata?.citations && message.metadata.citations.length > 0 && (
+          <CitationList citations={message.metadata.citations} />
+        )}
+        {!editing && !isStreaming && (
+          <div className={cn("flex items-center gap-1", isUser && "flex-row-reverse")}>
+            {hasBranches && (
+              <BranchNavigator position={branch} onSwitch={onSwitchBranch} disabled={actionsDisabled} />
+            )}
+            {isUser && onEdit && (
+              <Button
+                onClick={startEditing}
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground"
+                disabled={actionsDisabled}
+                aria-label="Edit message"
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+            )}
+            {!isUser && message.content && (
+              <Button
+                onClick={handleCopy}
+                variant="ghost"
+                size="sm"
+                className="h-7 w-fit px-2 text-xs text-muted-foreground"
+              >
+                {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+                <span className="ml-1">{copied ? 'Copied' : 'Copy'}</span>
+              </Button>
+            )}
+            {!isUser && onRegenerate && (
+              <Button
+                onClick={onRegenerate}
+                variant="ghost"
+                size="sm"
+                className="h-7 w-fit px-2 text-xs text-muted-foreground"
+                disabled={actionsDisabled}
+              >
+                <RefreshCw className="h-3 w-3" />
+                <span className="ml-1">Regenerate</span>
+              </Button>
+            )}
+            {!isUser && metadataParts.length > 0 && (
+              <span className="ml-1 text-xs text-muted-foreground">
+                {metadataParts.join(' · ')}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Download, Upload } from "lucide-react";
+import { detectImportFormat, downloadChats, parseChatImport } from "@/lib/chat-export";
+import { ChatImportError } from "@/types/chat";
+import type { Chat, ChatExportFormat, ChatImportResult } from "@/types/chat";
+
+const FORMAT_LABELS: Record<ChatExportFormat, string> = {
+  json: 'JSON (lossless)',
+  markdown: 'Markdown',
+  jsonl: 'OpenAI JSONL',
+};
+
+interface ChatTransferProps {
+  chats: Chat[];
+  currentChat: Chat | null;
+  onImport: (chats: Chat[]) => Promise<ChatImportResult>;
+  disabled?: boolean;
+}
+
+export function ChatTransfer({ chats, currentChat, onImport, disabled = false }: ChatTransferProps) {
+  const [format, setFormat] = useState<ChatExportFormat>('json');
+  const [status, setStatus] = useState<{ kind: 'success' | 'error'; text: string } | null>(null);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    setStatus(null);
+    try {
+      const text = await file.text();
+      const parsed = parseChatImport(text, detectImportFormat(text, file.name));
+      const result = await onImport(parsed);
+      setStatus({
+        kind: 'success',
+        text: `Imported ${result.imported.length} chat${result.imported.length === 1 ? '' : 's'}`
+          + (result.skipped > 0 ? `, skipped ${result.skipped} duplicate${result.skipped === 1 ? '' : 's'}` : ''),
+      });
+    } catch (error) {
+      console.error('Failed to import chats:', error);
+      setStatus({
+        kind: 'error',
+        text: error instanceof ChatImportError
+          ? error.issues.slice(0, 3).join('; ')
+          : 'Failed to import chats',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={format}
+        onChange={event => setFormat(event.target.value as ChatExportFormat)}
+        aria-label="Export format"
+        className="flex h-8 w-full rounded-md border border-input bg-background px-2 text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+      >
+        {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          onClick={() => currentChat && downloadChats([currentChat], format, currentChat)}
+          variant="outline"
+          size="sm"
+          disabled={!currentChat}
+        >
+          <Download className="mr-1 h-3 w-3" />
+          This chat
+        </Button>
+        <Button
+          onClick={() => downloadChats(chats, format)}
+          variant="outline"
+          size="sm"
+          disabled={chats.length === 0}
+        >
+          <Download className="mr-1 h-3 w-3" />
+          All chats
+        </Button>
+      </div>
+      <Button
+        onClick={() => fileInputRef.current?.click()}
+        variant="outline"
+        size="sm"
+        className="w-full"
+        disabled={disabled || importing}
+      >
+        <Upload className="mr-1 h-3 w-3" />
+        {importing ? 'Importing...' : 'Import chats'}
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,.jsonl,.md,.markdown,application/json,text/markdown"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      {status && (
+        <p className={status.kind === 'error' ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+          {status.text}
+        </p>
+      )}
+    </div>
+  );
+}
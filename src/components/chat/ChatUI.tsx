@@ -0,0 +1,121 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Send, Square, AlertCircle, MessageSquare } from "lucide-react";
+import { ChatMessage } from "@/components/chat/ChatMessage";
+import { getBranchPosition } from "@/lib/message-tree";
+import type { ChatState } from "@/types/chat";
+
+interface ChatUIProps {
+  chatState: ChatState;
+  disabled?: boolean;
+  // Lets the page keep the unsent draft, e.g. across a login redirect
+  initialInput?: string;
+  onInputChange?: (input: string) => void;
+}
+
+export function ChatUI({ chatState, disabled = false, initialInput = '', onInputChange }: ChatUIProps) {
+  const [input, setInput] = useState(initialInput);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const isStreaming = chatState.status === 'streaming';
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [chatState.messages]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${Math.min(textarea.scrollHeight, 200)}px`;
+  }, [input]);
+
+  const updateInput = (value: string) => {
+    setInput(value);
+    onInputChange?.(value);
+  };
+
+  const handleSubmit = async () => {
+    const content = input.trim();
+    if (!content || isStreaming || disabled) return;
+    updateInput('');
+    await chatState.sendMessage(content);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div ref={scrollRef} className="flex-1 space-y-4 overflow-y-auto p-4">
+        {chatState.messages.length === 0 ? (
+          <div className="flex h-full flex-col items-center justify-center gap-2 text-center text-muted-foreground">
+            <MessageSquare className="h-10 w-10" />
+            <p className="text-lg font-medium">Start a conversation</p>
+            <p className="text-sm">Messages are sent to your local Bodhi server through the extension.</p>
+          </div>
+        ) : (
+          chatState.branch.map((node, index) => (
+            <ChatMessage
+              key={node.id}
+              message={node.message}
+              isStreaming={isStreaming && index === chatState.branch.length - 1}
+              branch={getBranchPosition(chatState.tree, node.id)}
+              actionsDisabled={isStreaming || disabled}
+              onSwitchBranch={offset => chatState.switchBranch(node.id, offset)}
+              onEdit={content => chatState.editMessage(node.id, content)}
+              onRegenerate={() => chatState.regenerate(node.id)}
+            />
+          ))
+        )}
+      </div>
+
+      {chatState.error && (
+        <div className="px-4">
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{chatState.error}</AlertDescription>
+          </Alert>
+        </div>
+      )}
+
+      <div className="flex items-end gap-2 border-t p-4">
+        <Textarea
+          ref={textareaRef}
+          value={input}
+          onChange={event => updateInput(event.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Type your message... (Shift+Enter for a new line)"
+          className="min-h-[40px] resize-none"
+          rows={1}
+          disabled={disabled}
+        />
+        {isStreaming ? (
+          <Button
+            onClick={chatState.stopGeneration}
+            variant="outline"
+            size="icon"
+            aria-label="Stop generating"
+          >
+            <Square className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button
+            onClick={handleSubmit}
+            disabled={disabled || !input.trim()}
+            size="icon"
+            aria-label="Send message"
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
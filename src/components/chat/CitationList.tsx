@@ -0,0 +1,33 @@
+import { FileText } from "lucide-react";
+import { formatCitationSource } from "@/lib/rag";
+import type { Citation } from "@/types/documents";
+
+interface CitationListProps {
+  citations: Citation[];
+}
+
+// The numbered sources an answer was given; the model refers to them as [n]
+export function CitationList({ citations }: CitationListProps) {
+  return (
+    <div className="w-full space-y-1 rounded-md border bg-background/60 p-2 text-xs">
+      <p className="font-semibold text-muted-foreground">Sources</p>
+      <ol className="space-y-1">
+        {citations.map(citation => (
+          <li key={citation.index}>
+            <details>
+              <summary className="flex cursor-pointer items-center gap-1">
+                <span className="font-mono text-muted-foreground">[{citation.index}]</span>
+                <FileText className="h-3 w-3 shrink-0" />
+                <span className="truncate">{formatCitationSource(citation)}</span>
+                <span className="ml-auto shrink-0 text-muted-foreground" title="Similarity to your question">
+                  {Math.round(citation.score * 100)}%
+                </span>
+              </summary>
+              <blockquote className="mt-1 border-l-2 pl-2 text-muted-foreground">{citation.excerpt}</blockquote>
+            </details>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
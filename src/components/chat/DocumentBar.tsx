@@ -0,0 +1,125 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, FileText, Loader2, Paperclip, X } from "lucide-react";
+import { ACCEPTED_DOCUMENT_TYPES } from "@/lib/document-extract";
+import type { DocumentsState } from "@/hooks/useDocuments";
+import type { Model } from "@/types/api";
+
+interface DocumentBarProps {
+  documentsState: DocumentsState;
+  models: Model[];
+  onAttach: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+export function DocumentBar({ documentsState, models, onAttach, disabled }: DocumentBarProps) {
+  const { documents, uploads, embeddingModel, setEmbeddingModel, removeDocument, dismissUpload } = documentsState;
+  const inputRef = useRef<HTMLInputElement>(null);
+  const isUnknownModel = embeddingModel !== '' && !models.some(m => m.id === embeddingModel);
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Reset so picking the same file again still fires a change
+    event.target.value = '';
+    if (files.length > 0) onAttach(files);
+  };
+
+  const handleRemove = (id: string) => {
+    removeDocument(id).catch(error => console.error('Failed to remove document:', error));
+  };
+
+  return (
+    <div className="space-y-2 border-b px-4 py-2">
+      <div className="flex items-center gap-2">
+        <Button
+          onClick={() => inputRef.current?.click()}
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          disabled={disabled || !embeddingModel}
+          title={embeddingModel ? 'Attach documents to ask questions about' : 'Choose an embedding model first'}
+        >
+          <Paperclip className="h-4 w-4" />
+          Attach
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_DOCUMENT_TYPES}
+          onChange={handleFiles}
+          className="hidden"
+          aria-label="Attach documents"
+        />
+        <label htmlFor="embedding-model-select" className="text-xs text-muted-foreground">
+          Embeddings
+        </label>
+        <select
+          id="embedding-model-select"
+          value={embeddingModel}
+          onChange={event => setEmbeddingModel(event.target.value)}
+          disabled={disabled}
+          className="flex h-8 min-w-0 flex-1 rounded-md border border-input bg-background px-2 text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <option value="" disabled>
+            Select an embedding model
+          </option>
+          {isUnknownModel && <option value={embeddingModel}>{embeddingModel}</option>}
+          {models.map(m => (
+            <option key={m.id} value={m.id}>
+              {m.id}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {(documents.length > 0 || uploads.length > 0) && (
+        <ul className="flex flex-wrap gap-2 text-xs">
+          {documents.map(document => (
+            <li
+              key={document.id}
+              className="flex items-center gap-1 rounded-full border bg-muted px-2 py-1"
+              title={`${document.chunkCount} chunks, embedded with ${document.model}`}
+            >
+              <FileText className="h-3 w-3" />
+              <span className="max-w-48 truncate">{document.name}</span>
+              <button
+                type="button"
+                onClick={() => handleRemove(document.id)}
+                disabled={disabled}
+                className="rounded-full hover:text-destructive"
+                aria-label={`Remove ${document.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+          {uploads.map(upload => (
+            <li
+              key={upload.id}
+              className={`flex items-center gap-1 rounded-full border px-2 py-1 ${upload.error ? 'border-destructive text-destructive' : 'text-muted-foreground'}`}
+            >
+              {upload.error ? <AlertCircle className="h-3 w-3" /> : <Loader2 className="h-3 w-3 animate-spin" />}
+              <span className="max-w-48 truncate">{upload.name}</span>
+              {upload.error ? (
+                <>
+                  <span className="max-w-64 truncate" title={upload.error}>{upload.error}</span>
+                  <button
+                    type="button"
+                    onClick={() => dismissUpload(upload.id)}
+                    className="rounded-full"
+                    aria-label={`Dismiss ${upload.name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </>
+              ) : (
+                upload.progress && <span>{upload.progress.embedded}/{upload.progress.total}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
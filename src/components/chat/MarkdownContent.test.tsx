@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { render } from '@testing-library/react';
+import { MarkdownContent } from '@/components/chat/MarkdownContent';
+
+describe('MarkdownContent', () => {
+  it('renders inline and display math with KaTeX', () => {
+    const { container } = render(<MarkdownContent content={'Inline $x^2$ and $$z$$ here.\n\n$$\ny = mx + b\n$$'} />);
+
+    expect(container.querySelectorAll('.katex')).toHaveLength(3);
+    expect(container.querySelectorAll('.katex-display')).toHaveLength(1);
+    expect(container.querySelector('.katex-display')).toHaveTextContent('y=mx+b');
+  });
+
+  it('keeps the language class on fenced code and highlights it', () => {
+    const { container, getByText } = render(<MarkdownContent content={'```js\nconst answer = 42;\n```'} />);
+
+    const code = container.querySelector('pre code');
+    expect(code).toHaveClass('language-js');
+    expect(code?.querySelector('.hljs-keyword')).toHaveTextContent('const');
+    expect(getByText('js')).toBeInTheDocument();
+  });
+
+  it('keeps only the allowed code classes in raw HTML', () => {
+    const { container } = render(
+      <MarkdownContent
+        content={'<code class="injected language-py">x = 1</code> <span class="injected">y</span> <code class="math-inline">z</code>'}
+      />
+    );
+
+    expect(container.querySelector('.injected')).toBeNull();
+    expect(container.querySelector('code')).toHaveClass('language-py');
+    expect(container.querySelector('.katex')).toHaveTextContent('z');
+  });
+});
@@ -0,0 +1,98 @@
+import { useRef, useState, type ComponentPropsWithoutRef } from "react";
+import ReactMarkdown, { type Components, type ExtraProps } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeRaw from "rehype-raw";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import { Button } from "@/components/ui/button";
+import { Check, Copy } from "lucide-react";
+import { completePartialMarkdown } from "@/lib/partial-markdown";
+import { cn } from "@/lib/utils";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+
+// Raw HTML is sanitised before KaTeX and highlight.js run, so code elements
+// also need to keep the classes remark-math marks formulas with. The sanitizer
+// only reads the first className rule, so this replaces the default one.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [["className", /^language-./, "math-inline", "math-display"]],
+  },
+};
+
+function getLanguage(node: ExtraProps["node"]): string | null {
+  const code = node?.children[0];
+  if (code?.type !== "element") return null;
+  const classNames = Array.isArray(code.properties.className) ? code.properties.className : [];
+  const language = classNames.map(String).find(name => name.startsWith("language-"));
+  return language ? language.slice("language-".length) : null;
+}
+
+function CodeBlock({ node, children, className, ...props }: ComponentPropsWithoutRef<"pre"> & ExtraProps) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+  const language = getLanguage(node);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code block:', error);
+    }
+  };
+
+  return (
+    <div className="not-prose my-3 overflow-hidden rounded-md border bg-[#0d1117] text-[#c9d1d9]">
+      <div className="flex items-center justify-between border-b border-white/10 px-3 py-1 text-xs text-white/60">
+        <span>{language ?? 'text'}</span>
+        <Button
+          onClick={handleCopy}
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs text-white/60 hover:bg-white/10 hover:text-white"
+        >
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          <span className="ml-1">{copied ? 'Copied' : 'Copy'}</span>
+        </Button>
+      </div>
+      <pre ref={preRef} className={cn("overflow-x-auto p-3 text-xs", className)} {...props}>
+        {children}
+      </pre>
+    </div>
+  );
+}
+
+const components: Components = {
+  pre: CodeBlock,
+  a: ({ href, title, children }) => (
+    <a href={href} title={title} target="_blank" rel="noopener noreferrer">
+      {children}
+    </a>
+  ),
+};
+
+interface MarkdownContentProps {
+  content: string;
+  isStreaming?: boolean;
+  className?: string;
+}
+
+export function MarkdownContent({ content, isStreaming = false, className }: MarkdownContentProps) {
+  return (
+    <div className={cn("prose prose-sm dark:prose-invert max-w-none break-words", className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeRaw, [rehypeSanitize, sanitizeSchema], rehypeKatex, rehypeHighlight]}
+        components={components}
+      >
+        {isStreaming ? completePartialMarkdown(content) : content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Plus } from "lucide-react";
+
+interface NewChatButtonProps {
+  onNewChat: () => void;
+  disabled?: boolean;
+}
+
+export function NewChatButton({ onNewChat, disabled = false }: NewChatButtonProps) {
+  useEffect(() => {
+    // Ctrl/Cmd + Shift + O starts a new chat, matching the original Bodhi chat app
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.shiftKey && event.key.toLowerCase() === 'o') {
+        event.preventDefault();
+        if (!disabled) onNewChat();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onNewChat, disabled]);
+
+  return (
+    <Button
+      onClick={onNewChat}
+      disabled={disabled}
+      className="w-full flex items-center gap-2"
+      title="New chat (Ctrl+Shift+O)"
+    >
+      <Plus className="h-4 w-4" />
+      New Chat
+    </Button>
+  );
+}
@@ -0,0 +1,63 @@
+import { AlertCircle, Loader2, Wrench } from "lucide-react";
+import type { ToolCallTrace } from "@/types/tools";
+
+interface ToolCallListProps {
+  toolCalls: ToolCallTrace[];
+}
+
+function formatArguments(args: string): string {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2);
+  } catch {
+    return args;
+  }
+}
+
+// Collapsible trace of the tools the model called on the way to its reply
+export function ToolCallList({ toolCalls }: ToolCallListProps) {
+  return (
+    <div className="w-full space-y-1 rounded-md border bg-background/60 p-2 text-xs">
+      <p className="font-semibold text-muted-foreground">Tool calls</p>
+      <ol className="space-y-1">
+        {toolCalls.map((call, index) => {
+          const running = call.durationMs === undefined;
+          return (
+            <li key={`${call.id}-${index}`}>
+              <details>
+                <summary className="flex cursor-pointer items-center gap-1">
+                  {running ? (
+                    <Loader2 className="h-3 w-3 shrink-0 animate-spin" />
+                  ) : call.error !== undefined ? (
+                    <AlertCircle className="h-3 w-3 shrink-0 text-destructive" />
+                  ) : (
+                    <Wrench className="h-3 w-3 shrink-0" />
+                  )}
+                  <span className="font-mono">{call.name}</span>
+                  {!running && (
+                    <span className="ml-auto shrink-0 text-muted-foreground">{Math.round(call.durationMs!)} ms</span>
+                  )}
+                </summary>
+                <div className="mt-1 space-y-1 border-l-2 pl-2">
+                  <p className="text-muted-foreground">Arguments</p>
+                  <pre className="overflow-x-auto whitespace-pre-wrap break-all">{formatArguments(call.arguments)}</pre>
+                  {call.error !== undefined && (
+                    <>
+                      <p className="text-destructive">Error</p>
+                      <pre className="overflow-x-auto whitespace-pre-wrap break-all text-destructive">{call.error}</pre>
+                    </>
+                  )}
+                  {call.result !== undefined && (
+                    <>
+                      <p className="text-muted-foreground">Result</p>
+                      <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all">{call.result}</pre>
+                    </>
+                  )}
+                </div>
+              </details>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ModelsState } from "@/hooks/useModels";
+
+interface AliasSelectorProps {
+  model: string;
+  modelsState: ModelsState;
+  onModelChange: (model: string) => void;
+  disabled?: boolean;
+}
+
+export function AliasSelector({ model, modelsState, onModelChange, disabled = false }: AliasSelectorProps) {
+  const { models, loading, error, refresh } = modelsState;
+  // Keep a previously saved model selectable even if the server no longer lists it
+  const isUnknownModel = model !== '' && !models.some(m => m.id === model);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="model-select">Model</Label>
+        <Button
+          onClick={refresh}
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          disabled={loading}
+          aria-label="Refresh models"
+        >
+          <RefreshCw className={cn("h-3 w-3", loading && "animate-spin")} />
+        </Button>
+      </div>
+      <select
+        id="model-select"
+        value={model}
+        onChange={event => onModelChange(event.target.value)}
+        disabled={disabled || loading}
+        className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        <option value="" disabled>
+          {loading ? 'Loading models...' : 'Select a model'}
+        </option>
+        {isUnknownModel && <option value={model}>{model} (unavailable)</option>}
+        {models.map(m => (
+          <option key={m.id} value={m.id}>
+            {m.id}
+          </option>
+        ))}
+      </select>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      {!loading && !error && models.length === 0 && (
+        <p className="text-xs text-muted-foreground">No models available on the local server.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RotateCcw } from "lucide-react";
+import { AliasSelector } from "@/components/chat/settings/AliasSelector";
+import { ToolSelector } from "@/components/chat/settings/ToolSelector";
+import type { ChatSettingsState } from "@/hooks/useChatSettings";
+import type { ModelsState } from "@/hooks/useModels";
+import type { ChatSettings } from "@/types/chat";
+import type { ToolDefinition } from "@/types/tools";
+
+interface SettingsSidebarProps {
+  settingsState: ChatSettingsState;
+  modelsState: ModelsState;
+  // Tools that can be offered to the model; the section is hidden when empty
+  tools?: ToolDefinition[];
+  disabled?: boolean;
+}
+
+type NumericSetting = 'temperature' | 'top_p' | 'max_tokens' | 'seed';
+
+interface NumericField {
+  key: NumericSetting;
+  label: string;
+  min?: number;
+  max?: number;
+  step: number;
+  placeholder: string;
+}
+
+const NUMERIC_FIELDS: NumericField[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1, placeholder: 'Server default' },
+  { key: 'top_p', label: 'Top P', min: 0, max: 1, step: 0.05, placeholder: 'Server default' },
+  { key: 'max_tokens', label: 'Max Tokens', min: 1, step: 1, placeholder: 'Server default' },
+  { key: 'seed', label: 'Seed', step: 1, placeholder: 'Random' },
+];
+
+function parseNumber(value: string, integer: boolean): number | undefined {
+  if (value.trim() === '') return undefined;
+  const parsed = integer ? parseInt(value, 10) : parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+export function SettingsSidebar({ settingsState, modelsState, tools = [], disabled = false }: SettingsSidebarProps) {
+  const { model, settings, setModel, updateSettings, resetSettings } = settingsState;
+
+  const handleNumberChange = (field: NumericField, value: string) => {
+    const changes: Partial<ChatSettings> = {
+      [field.key]: parseNumber(value, field.step === 1),
+    };
+    updateSettings(changes);
+  };
+
+  // Blank lines are kept while editing and dropped when the request is built
+  const handleStopChange = (value: string) => {
+    updateSettings({ stop: value ? value.split('\n') : undefined });
+  };
+
+  return (
+    <div className="space-y-6">
+      <AliasSelector
+        model={model}
+        modelsState={modelsState}
+        onModelChange={setModel}
+        disabled={disabled}
+      />
+
+      <div className="space-y-2">
+        <Label htmlFor="system-prompt">System Prompt</Label>
+        <Textarea
+          id="system-prompt"
+          value={settings.systemPrompt ?? ''}
+          onChange={event => updateSettings({ systemPrompt: event.target.value || undefined })}
+          placeholder="You are a helpful assistant."
+          disabled={disabled}
+        />
+      </div>
+
+      {NUMERIC_FIELDS.map(field => (
+        <div key={field.key} className="space-y-2">
+          <Label htmlFor={`setting-${field.key}`}>{field.label}</Label>
+          <Input
+            id={`setting-${field.key}`}
+            type="number"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={settings[field.key] ?? ''}
+            onChange={event => handleNumberChange(field, event.target.value)}
+            placeholder={field.placeholder}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <Label htmlFor="stop-sequences">Stop Sequences</Label>
+        <Textarea
+          id="stop-sequences"
+          value={settings.stop?.join('\n') ?? ''}
+          onChange={event => handleStopChange(event.target.value)}
+          placeholder="One sequence per line"
+          className="min-h-[60px]"
+          disabled={disabled}
+        />
+      </div>
+
+      {tools.length > 0 && (
+        <ToolSelector
+          tools={tools}
+          enabled={settings.tools ?? []}
+          onChange={enabled => updateSettings({ tools: enabled.length > 0 ? enabled : undefined })}
+          disabled={disabled}
+        />
+      )}
+
+      <Button
+        onClick={resetSettings}
+        variant="outline"
+        size="sm"
+        className="w-full flex items-center gap-2"
+        disabled={disabled}
+      >
+        <RotateCcw className="h-4 w-4" />
+        Reset Parameters
+      </Button>
+    </div>
+  );
+}
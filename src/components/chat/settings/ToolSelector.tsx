@@ -0,0 +1,42 @@
+import { Label } from "@/components/ui/label";
+import type { ToolDefinition } from "@/types/tools";
+
+interface ToolSelectorProps {
+  tools: ToolDefinition[];
+  enabled: string[];
+  onChange: (enabled: string[]) => void;
+  disabled?: boolean;
+}
+
+export function ToolSelector({ tools, enabled, onChange, disabled = false }: ToolSelectorProps) {
+  const toggle = (name: string, checked: boolean) => {
+    const next = checked ? [...enabled, name] : enabled.filter(tool => tool !== name);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Tools</Label>
+      <div className="space-y-2 text-sm">
+        {tools.map(tool => (
+          <label key={tool.name} className="flex items-start gap-2" title={tool.description}>
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={enabled.includes(tool.name)}
+              onChange={event => toggle(tool.name, event.target.checked)}
+              disabled={disabled}
+            />
+            <span>
+              {tool.label}
+              <span className="block font-mono text-xs text-muted-foreground">{tool.name}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Offered to the model on every request. The model needs tool-calling support.
+      </p>
+    </div>
+  );
+}
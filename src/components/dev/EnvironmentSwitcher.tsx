@@ -0,0 +1,49 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Wrench } from "lucide-react";
+import { getAppConfig, selectEnvironment } from "@/lib/config";
+import { oauthManager } from "@/lib/oauth";
+
+const DEPLOYED = '';
+
+// Dev-only: tokens from one identity server are useless on another, so
+// switching logs out and reloads with the new environment
+export function EnvironmentSwitcher() {
+  const { auth, environments, activeEnvironment } = getAppConfig();
+
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    selectEnvironment(event.target.value || null);
+    oauthManager.logout();
+    window.location.reload();
+  };
+
+  return (
+    <Card className="border-dashed">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Wrench className="h-4 w-4" />
+          Auth Environment (dev only)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Label htmlFor="auth-environment">Identity server</Label>
+        <select
+          id="auth-environment"
+          value={activeEnvironment ?? DEPLOYED}
+          onChange={handleChange}
+          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        >
+          <option value={DEPLOYED}>Configured default</option>
+          {Object.keys(environments).map(name => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-muted-foreground break-all">
+          {auth.authUrl} · realm <code>{auth.realm}</code> · client <code>{auth.clientId}</code>
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+import { Button } from "@/components/ui/button";
+import { History, Trash2 } from "lucide-react";
+import type { ExplorerHistoryEntry, ExplorerRequest } from "@/types/explorer";
+
+interface ExplorerHistoryProps {
+  history: ExplorerHistoryEntry[];
+  onSelect: (request: ExplorerRequest) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+export function ExplorerHistory({ history, onSelect, onRemove, onClear }: ExplorerHistoryProps) {
+  if (history.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 p-4 text-center text-sm text-muted-foreground">
+        <History className="h-6 w-6" />
+        <p>Sent requests appear here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-1">
+        {history.map(entry => (
+          <li key={entry.id} className="group flex items-center gap-1 rounded-md text-sm hover:bg-accent">
+            <button
+              onClick={() => onSelect(entry.request)}
+              className="flex min-w-0 flex-1 items-center gap-2 px-2 py-1 text-left"
+              title={new Date(entry.sentAt).toLocaleString()}
+            >
+              <span className="w-12 shrink-0 font-mono text-xs font-semibold">{entry.request.method}</span>
+              <span className="truncate font-mono text-xs">{entry.request.endpoint}</span>
+              {entry.request.stream && <span className="text-xs text-muted-foreground">stream</span>}
+              <span className="ml-auto shrink-0 font-mono text-xs text-muted-foreground">
+                {entry.status ?? '—'}
+              </span>
+            </button>
+            <Button
+              onClick={() => onRemove(entry.id)}
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 opacity-0 group-hover:opacity-100"
+              aria-label="Remove from history"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <Button onClick={onClear} variant="outline" size="sm" className="w-full">
+        Clear history
+      </Button>
+    </div>
+  );
+}
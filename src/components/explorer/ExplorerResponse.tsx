@@ -0,0 +1,91 @@
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { formatResponseBody } from "@/lib/explorer";
+import type { ExplorerResult } from "@/types/explorer";
+
+interface ExplorerResponseProps {
+  result: ExplorerResult | null;
+  sending: boolean;
+}
+
+function StatusBadge({ status }: { status?: number }) {
+  if (status === undefined) return null;
+  return (
+    <Badge variant={status >= 400 ? "destructive" : "secondary"} className="font-mono">
+      {status}
+    </Badge>
+  );
+}
+
+export function ExplorerResponse({ result, sending }: ExplorerResponseProps) {
+  if (!result) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {sending ? 'Waiting for response...' : 'Send a request to see the response here.'}
+      </p>
+    );
+  }
+
+  if (result.kind === 'error') {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{result.message}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (result.kind === 'stream') {
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <StatusBadge status={result.chunks[0]?.status} />
+          {result.done ? (
+            <span>{result.chunks.length} chunks in {result.durationMs} ms</span>
+          ) : (
+            <span className="flex items-center gap-1">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              {result.chunks.length} chunks so far
+            </span>
+          )}
+        </div>
+        <ol className="max-h-[32rem] space-y-1 overflow-y-auto rounded-md border bg-muted/40 p-2 font-mono text-xs">
+          {result.chunks.map((chunk, index) => (
+            <li key={index} className="flex gap-2">
+              <span className="shrink-0 text-muted-foreground">+{chunk.elapsedMs}ms</span>
+              <pre className="whitespace-pre-wrap break-all">{formatResponseBody(chunk.body)}</pre>
+            </li>
+          ))}
+        </ol>
+      </div>
+    );
+  }
+
+  const headers = Object.entries(result.headers).sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <StatusBadge status={result.status} />
+        <span>{result.durationMs} ms</span>
+      </div>
+      {headers.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer font-medium">Headers ({headers.length})</summary>
+          <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 font-mono text-xs">
+            {headers.map(([name, value]) => (
+              <div key={name} className="contents">
+                <dt className="text-muted-foreground">{name}</dt>
+                <dd className="break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </details>
+      )}
+      <pre className="max-h-[32rem] overflow-auto rounded-md border bg-muted/40 p-3 font-mono text-xs">
+        {formatResponseBody(result.body)}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { aliasToForm, buildAliasRequest, modelFileKey } from "@/lib/model-management";
+import { ModelFormError } from "@/types/models";
+import type { AliasForm } from "@/types/models";
+import type { LocalModelFile, ModelAlias, ModelAliasRequest } from "@/types/api";
+
+interface AliasEditorProps {
+  // Null creates a new alias
+  alias: ModelAlias | null;
+  files: LocalModelFile[];
+  onSave: (request: ModelAliasRequest, isNew: boolean) => Promise<void>;
+  onCancel: () => void;
+}
+
+const NUMBER_FIELDS: { key: keyof AliasForm; label: string; placeholder: string }[] = [
+  { key: 'temperature', label: 'Temperature', placeholder: 'Server default' },
+  { key: 'topP', label: 'Top P', placeholder: 'Server default' },
+  { key: 'maxTokens', label: 'Max Tokens', placeholder: 'Server default' },
+  { key: 'seed', label: 'Seed', placeholder: 'Random' },
+];
+
+export function AliasEditor({ alias, files, onSave, onCancel }: AliasEditorProps) {
+  const [form, setForm] = useState<AliasForm>(() => aliasToForm(alias ?? undefined));
+  const [saving, setSaving] = useState(false);
+  const [issues, setIssues] = useState<string[]>([]);
+  const isNew = alias === null;
+
+  const update = (changes: Partial<AliasForm>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIssues([]);
+
+    try {
+      setSaving(true);
+      await onSave(buildAliasRequest(form, files), isNew);
+      onCancel();
+    } catch (error) {
+      if (error instanceof ModelFormError) {
+        setIssues(error.issues);
+      } else {
+        console.error('Failed to save alias:', error);
+        setIssues([error instanceof Error ? error.message : String(error)]);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="alias-name">Alias</Label>
+        <Input
+          id="alias-name"
+          value={form.alias}
+          onChange={event => update({ alias: event.target.value })}
+          placeholder="llama3:instruct"
+          disabled={!isNew}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="alias-model-file">Model file</Label>
+        <select
+          id="alias-model-file"
+          value={form.modelFile}
+          onChange={event => update({ modelFile: event.target.value })}
+          className="flex h-10 w-full rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        >
+          <option value="">Choose a downloaded file</option>
+          {files.map(file => (
+            <option key={modelFileKey(file)} value={modelFileKey(file)}>
+              {file.repo}/{file.filename}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {NUMBER_FIELDS.map(field => (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={`alias-${field.key}`}>{field.label}</Label>
+            <Input
+              id={`alias-${field.key}`}
+              type="number"
+              step="any"
+              value={form[field.key]}
+              onChange={event => update({ [field.key]: event.target.value })}
+              placeholder={field.placeholder}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="alias-stop">Stop Sequences</Label>
+        <Textarea
+          id="alias-stop"
+          value={form.stop}
+          onChange={event => update({ stop: event.target.value })}
+          placeholder="One per line"
+          rows={2}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="alias-context">Server arguments</Label>
+        <Textarea
+          id="alias-context"
+          value={form.contextParams}
+          onChange={event => update({ contextParams: event.target.value })}
+          placeholder={'--ctx-size 4096\n--n-gpu-layers 99'}
+          rows={3}
+          className="font-mono text-xs"
+        />
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="list-disc space-y-1 pl-5 text-xs text-destructive">
+          {issues.map(issue => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={saving} className="flex items-center gap-2">
+          {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+          {isNew ? 'Create alias' : 'Save changes'}
+        </Button>
+        <Button type="button" onClick={onCancel} variant="outline">
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
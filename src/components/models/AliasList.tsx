@@ -0,0 +1,56 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Pencil, Tags } from "lucide-react";
+import type { ModelAlias } from "@/types/api";
+
+interface AliasListProps {
+  aliases: ModelAlias[];
+  onEdit: (alias: ModelAlias) => void;
+}
+
+function summariseParams(alias: ModelAlias): string {
+  const { temperature, top_p, max_tokens } = alias.request_params;
+  return [
+    temperature !== undefined && `temperature ${temperature}`,
+    top_p !== undefined && `top_p ${top_p}`,
+    max_tokens !== undefined && `max_tokens ${max_tokens}`,
+  ].filter(Boolean).join(' · ');
+}
+
+export function AliasList({ aliases, onEdit }: AliasListProps) {
+  if (aliases.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 p-4 text-center text-sm text-muted-foreground">
+        <Tags className="h-6 w-6" />
+        <p>No aliases yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y">
+      {aliases.map(alias => (
+        <li key={alias.alias} className="flex items-center gap-3 py-2">
+          <div className="min-w-0 flex-1 space-y-0.5">
+            <div className="flex items-center gap-2">
+              <span className="truncate font-medium">{alias.alias}</span>
+              {alias.source !== 'user' && <Badge variant="outline">{alias.source}</Badge>}
+            </div>
+            <p className="truncate font-mono text-xs text-muted-foreground" title={`${alias.repo}/${alias.filename}`}>
+              {alias.repo}/{alias.filename}
+            </p>
+            {summariseParams(alias) && (
+              <p className="text-xs text-muted-foreground">{summariseParams(alias)}</p>
+            )}
+          </div>
+          {/* Aliases that ship with a model file are managed by the server */}
+          {alias.source === 'user' && (
+            <Button onClick={() => onEdit(alias)} variant="ghost" size="icon" aria-label={`Edit ${alias.alias}`}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,39 @@
+import { HardDrive } from "lucide-react";
+import { formatBytes } from "@/lib/model-management";
+import type { LocalModelFile } from "@/types/api";
+
+interface ModelFileListProps {
+  files: LocalModelFile[];
+}
+
+export function ModelFileList({ files }: ModelFileListProps) {
+  if (files.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 p-4 text-center text-sm text-muted-foreground">
+        <HardDrive className="h-6 w-6" />
+        <p>No models downloaded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-left text-xs uppercase text-muted-foreground">
+          <th className="py-2 pr-4 font-semibold">Repo</th>
+          <th className="py-2 pr-4 font-semibold">File</th>
+          <th className="py-2 text-right font-semibold">Size</th>
+        </tr>
+      </thead>
+      <tbody>
+        {files.map(file => (
+          <tr key={`${file.repo}/${file.filename}/${file.snapshot}`} className="border-b last:border-0">
+            <td className="break-all py-2 pr-4 font-mono text-xs">{file.repo}</td>
+            <td className="break-all py-2 pr-4 font-mono text-xs">{file.filename}</td>
+            <td className="whitespace-nowrap py-2 text-right text-muted-foreground">{formatBytes(file.size)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
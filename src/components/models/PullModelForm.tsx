@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle, AlertCircle, Download, Loader2 } from "lucide-react";
+import { formatBytes, getDownloadProgress, parsePullRequest } from "@/lib/model-management";
+import { ModelFormError } from "@/types/models";
+import type { ModelDownload, PullModelRequest } from "@/types/api";
+
+interface PullModelFormProps {
+  downloads: ModelDownload[];
+  onPull: (request: PullModelRequest) => Promise<void>;
+}
+
+function DownloadRow({ download }: { download: ModelDownload }) {
+  const progress = getDownloadProgress(download);
+
+  return (
+    <li className="space-y-1 text-sm">
+      <div className="flex items-center gap-2">
+        {download.status === 'completed' ? (
+          <CheckCircle className="h-4 w-4 shrink-0 text-green-600" />
+        ) : download.status === 'error' ? (
+          <AlertCircle className="h-4 w-4 shrink-0 text-destructive" />
+        ) : (
+          <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+        )}
+        <span className="truncate font-mono text-xs" title={`${download.repo}/${download.filename}`}>
+          {download.repo}/{download.filename}
+        </span>
+        <span className="ml-auto whitespace-nowrap text-xs text-muted-foreground">
+          {download.status === 'pending'
+            ? `${formatBytes(download.downloaded_bytes ?? 0)} / ${formatBytes(download.total_bytes)}`
+            : download.status}
+        </span>
+      </div>
+      {download.status === 'pending' && (
+        <div
+          className="h-1.5 overflow-hidden rounded-full bg-muted"
+          role="progressbar"
+          aria-label={`Downloading ${download.filename}`}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={progress === null ? undefined : Math.round(progress * 100)}
+        >
+          <div
+            className={progress === null ? "h-full w-1/3 animate-pulse bg-primary" : "h-full bg-primary transition-all"}
+            style={progress === null ? undefined : { width: `${progress * 100}%` }}
+          />
+        </div>
+      )}
+      {download.status === 'error' && download.error && (
+        <p className="text-xs text-destructive">{download.error}</p>
+      )}
+    </li>
+  );
+}
+
+export function PullModelForm({ downloads, onPull }: PullModelFormProps) {
+  const [repo, setRepo] = useState('');
+  const [filename, setFilename] = useState('');
+  const [pulling, setPulling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+
+    try {
+      const request = parsePullRequest(repo, filename);
+      setPulling(true);
+      await onPull(request);
+      setRepo('');
+      setFilename('');
+    } catch (error) {
+      if (!(error instanceof ModelFormError)) {
+        console.error('Failed to start model pull:', error);
+      }
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setPulling(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="pull-repo">Hugging Face repo</Label>
+          <Input
+            id="pull-repo"
+            value={repo}
+            onChange={event => setRepo(event.target.value)}
+            placeholder="bartowski/Llama-3.2-1B-Instruct-GGUF or a file URL"
+            className="font-mono text-xs"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="pull-filename">Filename</Label>
+          <Input
+            id="pull-filename"
+            value={filename}
+            onChange={event => setFilename(event.target.value)}
+            placeholder="Llama-3.2-1B-Instruct-Q4_K_M.gguf"
+            className="font-mono text-xs"
+          />
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <Button type="submit" disabled={pulling || !repo.trim()} className="flex items-center gap-2">
+          {pulling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          Pull model
+        </Button>
+      </form>
+
+      {downloads.length > 0 && (
+        <ul className="space-y-3 border-t pt-4">
+          {downloads.map(download => (
+            <DownloadRow key={download.id} download={download} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
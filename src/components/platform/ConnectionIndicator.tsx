@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { DEGRADED_LATENCY_MS } from "@/lib/health-monitor";
+import type { ConnectionStatus, HealthSample, HealthSnapshot } from "@/types/health";
+
+interface ConnectionIndicatorProps {
+  health: HealthSnapshot;
+}
+
+const STATUS_STYLES: Record<ConnectionStatus, { dot: string; label: string }> = {
+  unknown: { dot: 'bg-muted-foreground', label: 'Checking' },
+  connected: { dot: 'bg-green-500', label: 'Connected' },
+  degraded: { dot: 'bg-yellow-500', label: 'Degraded' },
+  disconnected: { dot: 'bg-red-500', label: 'Disconnected' },
+};
+
+function sampleColor(sample: HealthSample): string {
+  if (!sample.ok) return sample.serverStatus ? 'bg-yellow-500' : 'bg-red-500';
+  return sample.latencyMs !== null && sample.latencyMs > DEGRADED_LATENCY_MS ? 'bg-yellow-500' : 'bg-green-500';
+}
+
+export function ConnectionIndicator({ health }: ConnectionIndicatorProps) {
+  const [open, setOpen] = useState(false);
+  const style = STATUS_STYLES[health.status];
+  const maxLatency = Math.max(...health.history.map(sample => sample.latencyMs ?? 0), 1);
+
+  return (
+    <div className="relative">
+      <Button
+        onClick={() => setOpen(prev => !prev)}
+        variant="ghost"
+        size="sm"
+        className="flex items-center gap-2 text-xs"
+        aria-expanded={open}
+        aria-label="Connection health"
+      >
+        <span className={cn("h-2 w-2 rounded-full", style.dot)} />
+        {style.label}
+        {health.latencyMs !== null && (
+          <span className="text-muted-foreground">{health.latencyMs}ms</span>
+        )}
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 z-10 mt-1 w-72 space-y-3 rounded-md border bg-popover p-3 text-popover-foreground shadow-md">
+          <div className="text-sm font-medium">Connection History</div>
+          {health.history.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No checks yet.</p>
+          ) : (
+            <>
+              <div className="flex h-10 items-end gap-px" aria-hidden="true">
+                {health.history.map(sample => (
+                  <div
+                    key={sample.timestamp}
+                    className={cn("flex-1 rounded-sm", sampleColor(sample))}
+                    style={{ height: `${sample.latencyMs === null ? 100 : Math.max((sample.latencyMs / maxLatency) * 100, 10)}%` }}
+                    title={`${new Date(sample.timestamp).toLocaleTimeString()}: ${sample.error ?? `${sample.latencyMs}ms`}`}
+                  />
+                ))}
+              </div>
+              <ul className="max-h-40 space-y-1 overflow-y-auto text-xs">
+                {[...health.history].reverse().map(sample => (
+                  <li key={sample.timestamp} className="flex justify-between gap-2">
+                    <span className="text-muted-foreground">
+                      {new Date(sample.timestamp).toLocaleTimeString()}
+                    </span>
+                    <span className={cn("truncate", !sample.ok && "text-destructive")}>
+                      {sample.error ?? `${sample.latencyMs}ms · ${sample.serverStatus}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,15 +2,33 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, CheckCircle, AlertCircle, RefreshCw } from "lucide-react";
+import {
+  Loader2,
+  CheckCircle,
+  AlertCircle,
+  RefreshCw,
+  Settings,
+  ShieldAlert,
+  ServerCrash,
+  WifiOff,
+  Clock,
+} from "lucide-react";
+import { ConnectionIndicator } from "@/components/platform/ConnectionIndicator";
 import type { PlatformDetectionState } from "@/hooks/usePlatformDetection";
+import type { HealthSnapshot } from "@/types/health";
+
+// Server states that resolve on their own once the user acts on the local server
+const WAITING_STATUSES = ['setup', 'resource-admin', 'server-error', 'unreachable'];
 
 interface PlatformStatusSectionProps {
   platformState: PlatformDetectionState;
+  health?: HealthSnapshot;
   onRetry: () => void;
 }
 
-export function PlatformStatusSection({ platformState, onRetry }: PlatformStatusSectionProps) {
+export function PlatformStatusSection({ platformState, health, onRetry }: PlatformStatusSectionProps) {
+  const serverUrl = platformState.serverState?.url ?? 'your local Bodhi server';
+
   const getStatusDisplay = () => {
     switch (platformState.status) {
       case 'detecting':
@@ -27,6 +45,41 @@ export function PlatformStatusSection({ platformState, onRetry }: PlatformStatus
           variant: 'default' as const,
           description: `Extension found with ID: ${platformState.extensionId}`,
         };
+      case 'setup':
+        return {
+          icon: <Settings className="h-4 w-4" />,
+          label: 'Setup Required',
+          variant: 'secondary' as const,
+          description: `The Bodhi server has not been set up yet. Open ${serverUrl} to complete setup.`,
+        };
+      case 'resource-admin':
+        return {
+          icon: <ShieldAlert className="h-4 w-4" />,
+          label: 'Admin Setup Required',
+          variant: 'secondary' as const,
+          description: `The Bodhi server is waiting for a resource admin. Open ${serverUrl} and log in as the admin to finish setup.`,
+        };
+      case 'server-error':
+        return {
+          icon: <ServerCrash className="h-4 w-4" />,
+          label: 'Server Error',
+          variant: 'destructive' as const,
+          description: platformState.error || 'The Bodhi server reported an error.',
+        };
+      case 'unreachable':
+        return {
+          icon: <WifiOff className="h-4 w-4" />,
+          label: 'Server Unreachable',
+          variant: 'destructive' as const,
+          description: `The extension cannot reach ${serverUrl}. Make sure the Bodhi server is running.`,
+        };
+      case 'timeout':
+        return {
+          icon: <Clock className="h-4 w-4" />,
+          label: 'Timeout',
+          variant: 'destructive' as const,
+          description: platformState.error || 'The extension did not respond in time.',
+        };
       case 'error':
         return {
           icon: <AlertCircle className="h-4 w-4" />,
@@ -55,14 +108,32 @@ export function PlatformStatusSection({ platformState, onRetry }: PlatformStatus
             {statusDisplay.icon}
             {statusDisplay.label}
           </Badge>
+          {health && platformState.status === 'detected' && (
+            <div className="ml-auto">
+              <ConnectionIndicator health={health} />
+            </div>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
         <p className="text-sm text-muted-foreground">
           {statusDisplay.description}
         </p>
-        
-        {platformState.status === 'error' && (
+
+        {platformState.serverState?.version && (
+          <p className="text-sm text-muted-foreground">
+            Server version: {platformState.serverState.version}
+          </p>
+        )}
+
+        {WAITING_STATUSES.includes(platformState.status) && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Waiting for the server to become ready...
+          </div>
+        )}
+
+        {(platformState.status === 'error' || platformState.status === 'timeout') && (
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
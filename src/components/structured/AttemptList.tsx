@@ -0,0 +1,45 @@
+import { AlertCircle, CheckCircle } from "lucide-react";
+import type { StructuredAttempt } from "@/types/structured";
+
+interface AttemptListProps {
+  attempts: StructuredAttempt[];
+}
+
+// Each reply with the validation errors that triggered the next re-prompt
+export function AttemptList({ attempts }: AttemptListProps) {
+  return (
+    <ol className="space-y-2 text-sm">
+      {attempts.map((attempt, index) => {
+        const valid = attempt.errors.length === 0;
+        return (
+          <li key={index} className="rounded-md border p-2">
+            <details open={!valid}>
+              <summary className="flex cursor-pointer items-center gap-2">
+                {valid ? (
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                ) : (
+                  <AlertCircle className="h-4 w-4 text-destructive" />
+                )}
+                <span className="font-medium">Attempt {index + 1}</span>
+                <span className="text-muted-foreground">
+                  {valid ? 'valid' : `${attempt.errors.length} issue${attempt.errors.length === 1 ? '' : 's'}`}
+                </span>
+                {attempt.usage && (
+                  <span className="ml-auto text-xs text-muted-foreground">{attempt.usage.total_tokens} tokens</span>
+                )}
+              </summary>
+              {!valid && (
+                <ul className="mt-2 list-disc space-y-0.5 pl-5 text-xs text-destructive">
+                  {attempt.errors.map((error, errorIndex) => <li key={errorIndex}>{error}</li>)}
+                </ul>
+              )}
+              <pre className="mt-2 max-h-48 overflow-auto whitespace-pre-wrap break-all rounded bg-muted/40 p-2 font-mono text-xs">
+                {attempt.content || '(empty reply)'}
+              </pre>
+            </details>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
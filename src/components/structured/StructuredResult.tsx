@@ -0,0 +1,80 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatStructuredValue, getStructuredView, getTableColumns } from "@/lib/structured-output";
+
+interface StructuredResultProps {
+  data: unknown;
+}
+
+function ResultTable({ rows }: { rows: Record<string, unknown>[] }) {
+  const columns = getTableColumns(rows);
+  return (
+    <div className="overflow-x-auto rounded-md border">
+      <table className="w-full text-sm">
+        <thead className="bg-muted/60">
+          <tr>
+            {columns.map(column => (
+              <th key={column} className="px-3 py-2 text-left font-medium">{column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {rows.map((row, index) => (
+            <tr key={index}>
+              {columns.map(column => (
+                <td key={column} className="px-3 py-2 align-top font-mono text-xs">
+                  {formatStructuredValue(row[column])}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Read-only form: one field per property, nested records as fieldsets and record lists as tables
+function ResultForm({ record, path }: { record: Record<string, unknown>; path: string }) {
+  return (
+    <div className="space-y-3">
+      {Object.entries(record).map(([key, value]) => {
+        const id = `${path}-${key}`;
+        const view = getStructuredView(value);
+        if (view === 'form') {
+          return (
+            <fieldset key={key} className="space-y-3 rounded-md border p-3">
+              <legend className="px-1 text-sm font-medium">{key}</legend>
+              <ResultForm record={value as Record<string, unknown>} path={id} />
+            </fieldset>
+          );
+        }
+        if (view === 'table') {
+          return (
+            <div key={key} className="space-y-1">
+              <p className="text-sm font-medium">{key}</p>
+              <ResultTable rows={value as Record<string, unknown>[]} />
+            </div>
+          );
+        }
+        return (
+          <div key={key} className="space-y-1">
+            <Label htmlFor={id}>{key}</Label>
+            <Input id={id} value={formatStructuredValue(value)} readOnly className="font-mono" />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function StructuredResult({ data }: StructuredResultProps) {
+  const view = getStructuredView(data);
+  if (view === 'table') return <ResultTable rows={data as Record<string, unknown>[]} />;
+  if (view === 'form') return <ResultForm record={data as Record<string, unknown>} path="result" />;
+  return (
+    <pre className="whitespace-pre-wrap break-all rounded-md border bg-muted/40 p-3 font-mono text-sm">
+      {JSON.stringify(data, null, 2)}
+    </pre>
+  );
+}
@@ -0,0 +1,15 @@
+import { useMemo } from 'react';
+import { checkAccess } from '@/lib/access';
+import type { AccessCheck, AccessRequirement, AuthenticationState } from '@/types/auth';
+
+export function useAccess(authState: AuthenticationState, requirement: AccessRequirement): AccessCheck {
+  const { claims, userInfo } = authState;
+  const { role } = requirement;
+  // Keyed by content so callers can pass inline arrays without re-running the check
+  const scopesKey = requirement.scopes?.join(' ') ?? '';
+
+  return useMemo(
+    () => checkAccess(claims, userInfo, { role, scopes: scopesKey ? scopesKey.split(' ') : [] }),
+    [claims, userInfo, role, scopesKey]
+  );
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useApiExplorer } from '@/hooks/useApiExplorer';
+import { DEFAULT_EXPLORER_REQUEST } from '@/lib/explorer';
+import { oauthManager } from '@/lib/oauth';
+import type { ExtensionClient, StreamChunk } from '@/types/extension';
+
+function createClient(chunks: StreamChunk[] = []): ExtensionClient {
+  return {
+    getExtensionId: () => 'test',
+    sendApiRequest: vi.fn().mockResolvedValue({ status: 200, headers: { 'content-type': 'application/json' }, body: { ok: true } }),
+    sendStreamRequest: vi.fn().mockImplementation(async () => (async function* () {
+      yield* chunks;
+    })()),
+    ping: vi.fn(),
+    serverState: vi.fn(),
+  };
+}
+
+describe('useApiExplorer', () => {
+  it('sends the parsed request without a token and records it in history', async () => {
+    const client = createClient();
+    const { result } = renderHook(() => useApiExplorer(client));
+
+    await act(() => result.current.send({
+      ...DEFAULT_EXPLORER_REQUEST,
+      method: 'POST',
+      body: '{"a":1}',
+      headers: '{"X-Debug":"1"}',
+      attachToken: false,
+    }));
+
+    expect(client.sendApiRequest).toHaveBeenCalledWith(
+      'POST', '/v1/models', { a: 1 }, { 'X-Debug': '1' }, expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+    expect(result.current.result).toMatchObject({ kind: 'response', status: 200, body: { ok: true } });
+    expect(result.current.history).toHaveLength(1);
+    expect(result.current.history[0].status).toBe(200);
+    expect(JSON.parse(localStorage.getItem('bodhi_explorer_history')!)).toHaveLength(1);
+  });
+
+  it('logs every chunk of a streamed response', async () => {
+    const client = createClient([
+      { status: 200, body: { delta: 'a' } },
+      { status: 200, body: { delta: 'b' } },
+    ]);
+    const { result } = renderHook(() => useApiExplorer(client));
+
+    await act(() => result.current.send({ ...DEFAULT_EXPLORER_REQUEST, stream: true, attachToken: false }));
+
+    expect(result.current.result).toMatchObject({
+      kind: 'stream',
+      done: true,
+      chunks: [{ body: { delta: 'a' } }, { body: { delta: 'b' } }],
+    });
+  });
+
+  it('reports invalid input without sending', async () => {
+    const client = createClient();
+    const { result } = renderHook(() => useApiExplorer(client));
+
+    await act(() => result.current.send({ ...DEFAULT_EXPLORER_REQUEST, headers: 'nope', attachToken: false }));
+
+    expect(client.sendApiRequest).not.toHaveBeenCalled();
+    expect(result.current.result).toMatchObject({ kind: 'error' });
+    expect(result.current.history).toHaveLength(0);
+  });
+
+  it('attaches the stored token when asked', async () => {
+    sessionStorage.setItem('bodhi_access_token', 'stored-token');
+    const client = createClient();
+    const { result } = renderHook(() => useApiExplorer(client));
+
+    await act(() => result.current.send(DEFAULT_EXPLORER_REQUEST));
+
+    expect(vi.mocked(client.sendApiRequest).mock.calls[0][3]).toEqual({ Authorization: 'Bearer stored-token' });
+  });
+
+  it('shows a rejected token as the response status without refreshing or logging out', async () => {
+    vi.spyOn(oauthManager, 'getValidAccessToken').mockResolvedValue('stale-token');
+    const refresh = vi.spyOn(oauthManager, 'refreshAccessToken');
+    const logout = vi.spyOn(oauthManager, 'logout');
+    const client = createClient();
+    vi.mocked(client.sendApiRequest).mockResolvedValue({ status: 401, headers: {}, body: { error: 'invalid token' } });
+    const { result } = renderHook(() => useApiExplorer(client));
+
+    await act(() => result.current.send(DEFAULT_EXPLORER_REQUEST));
+
+    expect(client.sendApiRequest).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(client.sendApiRequest).mock.calls[0][3]).toEqual({ Authorization: 'Bearer stale-token' });
+    expect(result.current.result).toMatchObject({ kind: 'response', status: 401 });
+    expect(refresh).not.toHaveBeenCalled();
+    expect(logout).not.toHaveBeenCalled();
+  });
+
+  it('asks to log in when there is no token to attach', async () => {
+    vi.spyOn(oauthManager, 'getValidAccessToken').mockResolvedValue(null);
+    const client = createClient();
+    const { result } = renderHook(() => useApiExplorer(client));
+
+    await act(() => result.current.send(DEFAULT_EXPLORER_REQUEST));
+
+    expect(client.sendApiRequest).not.toHaveBeenCalled();
+    expect(result.current.result).toEqual({ kind: 'error', message: 'Log in to attach an access token.' });
+  });
+});
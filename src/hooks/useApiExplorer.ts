@@ -0,0 +1,144 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { oauthManager } from '@/lib/oauth';
+import {
+  addHistoryEntry,
+  loadExplorerHistory,
+  parseExplorerRequest,
+  saveExplorerHistory,
+} from '@/lib/explorer';
+import { AuthRequiredError } from '@/types/auth';
+import { RequestAbortedError } from '@/types/extension';
+import type { ExtensionClient } from '@/types/extension';
+import type { ExplorerHistoryEntry, ExplorerRequest, ExplorerResult } from '@/types/explorer';
+
+export interface ApiExplorerState {
+  result: ExplorerResult | null;
+  sending: boolean;
+  history: ExplorerHistoryEntry[];
+  send: (request: ExplorerRequest) => Promise<void>;
+  cancel: () => void;
+  removeHistoryEntry: (id: string) => void;
+  clearHistory: () => void;
+}
+
+export function useApiExplorer(client: ExtensionClient | null): ApiExplorerState {
+  const [result, setResult] = useState<ExplorerResult | null>(null);
+  const [sending, setSending] = useState(false);
+  const [history, setHistory] = useState<ExplorerHistoryEntry[]>(loadExplorerHistory);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const updateHistory = useCallback((updater: (prev: ExplorerHistoryEntry[]) => ExplorerHistoryEntry[]) => {
+    setHistory(prev => {
+      const next = updater(prev);
+      saveExplorerHistory(next);
+      return next;
+    });
+  }, []);
+
+  const send = useCallback(async (request: ExplorerRequest) => {
+    if (!client) return;
+
+    let parsed;
+    try {
+      parsed = parseExplorerRequest(request);
+    } catch (error) {
+      setResult({ kind: 'error', message: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // A superseded request must not overwrite the result of the one that replaced it
+    const showResult = (update: (prev: ExplorerResult | null) => ExplorerResult | null) => {
+      if (abortControllerRef.current === abortController) setResult(update);
+    };
+
+    const entryId = crypto.randomUUID();
+    const startedAt = Date.now();
+    const recordStatus = (status?: number) => {
+      updateHistory(prev => addHistoryEntry(prev, { id: entryId, request, sentAt: startedAt, status }));
+    };
+
+    const options = { signal: abortController.signal };
+    setSending(true);
+
+    try {
+      // The token is sent as is, so a rejected one shows up as the response status
+      let headers = parsed.headers;
+      if (request.attachToken) {
+        const token = await oauthManager.getValidAccessToken();
+        if (!token) throw new AuthRequiredError('Log in to attach an access token.');
+        headers = { ...headers, Authorization: `Bearer ${token}` };
+      }
+
+      if (request.stream) {
+        showResult(() => ({ kind: 'stream', chunks: [], done: false, durationMs: null }));
+        const stream = await client.sendStreamRequest(
+          request.method, request.endpoint, parsed.body, headers, options
+        );
+        let status: number | undefined;
+        for await (const chunk of stream) {
+          status ??= chunk.status;
+          const logged = { elapsedMs: Date.now() - startedAt, status: chunk.status, body: chunk.body };
+          showResult(prev => prev?.kind === 'stream' ? { ...prev, chunks: [...prev.chunks, logged] } : prev);
+        }
+        showResult(prev => prev?.kind === 'stream' ? { ...prev, done: true, durationMs: Date.now() - startedAt } : prev);
+        recordStatus(status);
+      } else {
+        const response = await client.sendApiRequest(
+          request.method, request.endpoint, parsed.body, headers, options
+        );
+        showResult(() => ({
+          kind: 'response',
+          status: response.status,
+          headers: response.headers,
+          body: response.body,
+          durationMs: Date.now() - startedAt,
+        }));
+        recordStatus(response.status);
+      }
+    } catch (error) {
+      if (error instanceof RequestAbortedError) {
+        // Chunks received before cancelling stay visible
+        showResult(prev => prev?.kind === 'stream'
+          ? { ...prev, done: true, durationMs: Date.now() - startedAt }
+          : { kind: 'error', message: error.message });
+      } else {
+        console.error('Explorer request failed:', error);
+        showResult(() => ({ kind: 'error', message: error instanceof Error ? error.message : String(error) }));
+      }
+      recordStatus();
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setSending(false);
+      }
+    }
+  }, [client, updateHistory]);
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const removeHistoryEntry = useCallback((id: string) => {
+    updateHistory(prev => prev.filter(entry => entry.id !== id));
+  }, [updateHistory]);
+
+  const clearHistory = useCallback(() => {
+    updateHistory(() => []);
+  }, [updateHistory]);
+
+  return {
+    result,
+    sending,
+    history,
+    send,
+    cancel,
+    removeHistoryEntry,
+    clearHistory,
+  };
+}
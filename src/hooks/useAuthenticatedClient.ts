@@ -0,0 +1,8 @@
+import { useMemo } from 'react';
+import { AuthenticatedClient } from '@/lib/authenticated-client';
+import { oauthManager } from '@/lib/oauth';
+import type { ExtensionClient } from '@/types/extension';
+
+export function useAuthenticatedClient(client: ExtensionClient | null): AuthenticatedClient | null {
+  return useMemo(() => (client ? new AuthenticatedClient(client, oauthManager) : null), [client]);
+}
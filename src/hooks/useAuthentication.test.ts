@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useAuthentication } from '@/hooks/useAuthentication';
+import { ExtensionClientImpl } from '@/lib/extension-client';
+import { installMockBodhiext } from '@/lib/mock-bodhiext';
+import type { PlatformDetectionState } from '@/hooks/usePlatformDetection';
+
+function detectedPlatform(): PlatformDetectionState {
+  installMockBodhiext();
+  return {
+    status: 'detected',
+    client: new ExtensionClientImpl('mock-bodhiext'),
+    extensionId: 'mock-bodhiext',
+    serverState: { status: 'ready' },
+    error: null,
+    retry: vi.fn(),
+  };
+}
+
+describe('useAuthentication', () => {
+  it('restores a session from tokens stored by an earlier page load', async () => {
+    const userInfo = { email: 'a@example.com', role: 'resource_user', tokenType: 'Bearer', loggedIn: true };
+    const expiresAt = Date.now() + 10 * 60 * 1000;
+    sessionStorage.setItem('bodhi_access_token', 'access-1');
+    sessionStorage.setItem('bodhi_token_expires_at', String(expiresAt));
+    sessionStorage.setItem('bodhi_user_info', JSON.stringify(userInfo));
+    const platformState = detectedPlatform();
+
+    const { result } = renderHook(() => useAuthentication(platformState));
+
+    await waitFor(() => expect(result.current.status).toBe('authenticated'));
+    expect(result.current.userInfo).toEqual(userInfo);
+    expect(result.current.error).toBeNull();
+  });
+});
@@ -1,12 +1,70 @@
 import { useState, useEffect } from 'react';
-import { oauthManager } from '@/lib/oauth';
-import type { AuthenticationState, UserInfo, AuthState } from '@/types/auth';
+import { oauthManager, TOKEN_REFRESH_MARGIN_MS } from '@/lib/oauth';
+import type { AuthenticationState, UserInfo, AuthState, TokenClaims, LoginReturn } from '@/types/auth';
 import type { PlatformDetectionState } from '@/hooks/usePlatformDetection';
+import { getCurrentAppPath } from '@/lib/return-to';
 
 export function useAuthentication(platformState: PlatformDetectionState): AuthenticationState {
   const [authStatus, setAuthStatus] = useState<AuthState>('unauthenticated');
   const [userInfo, setUserInfo] = useState<UserInfo | null>(null);
   const [authError, setAuthError] = useState<string | null>(null);
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<number | null>(
+    () => oauthManager.getTokenExpiresAt()
+  );
+  const [claims, setClaims] = useState<TokenClaims | null>(null);
+
+  // Re-read whenever the token changes, which a refresh signals through its new expiry
+  useEffect(() => {
+    setClaims(authStatus === 'authenticated' ? oauthManager.getTokenClaims() : null);
+  }, [authStatus, tokenExpiresAt]);
+
+  useEffect(() => {
+    // Events also arrive from the app's other tabs, which keeps them all in step
+    return oauthManager.onAuthEvent(event => {
+      switch (event.type) {
+        case 'logged-in': {
+          setTokenExpiresAt(oauthManager.getTokenExpiresAt());
+          // The tab that completed login fetches the user and shares it via user-info-updated
+          const storedUserInfo = oauthManager.getUserInfo();
+          if (storedUserInfo) {
+            setUserInfo(storedUserInfo);
+            setAuthStatus('authenticated');
+            setAuthError(null);
+          }
+          break;
+        }
+        case 'tokens-refreshed':
+          setTokenExpiresAt(oauthManager.getTokenExpiresAt());
+          break;
+        case 'user-info-updated':
+          setUserInfo(event.userInfo);
+          setAuthStatus('authenticated');
+          setAuthError(null);
+          setTokenExpiresAt(oauthManager.getTokenExpiresAt());
+          break;
+        case 'logged-out':
+          setUserInfo(null);
+          setAuthStatus('unauthenticated');
+          setAuthError(event.reason ?? null);
+          setTokenExpiresAt(null);
+          break;
+      }
+    });
+  }, []);
+
+  // Proactively refresh shortly before the access token expires
+  useEffect(() => {
+    if (authStatus !== 'authenticated' || tokenExpiresAt === null) return;
+
+    const delay = Math.max(tokenExpiresAt - Date.now() - TOKEN_REFRESH_MARGIN_MS, 0);
+    const timer = setTimeout(() => {
+      oauthManager.refreshAccessToken().catch(error => {
+        console.error('Proactive token refresh failed:', error);
+      });
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [authStatus, tokenExpiresAt]);
 
   useEffect(() => {
     if (platformState.status === 'detected' && platformState.client) {
@@ -15,7 +73,13 @@ export function useAuthentication(platformState: PlatformDetectionState): Authen
   }, [platformState.status, platformState.client]);
 
   const checkExistingAuth = async () => {
+    // Stored tokens are loaded asynchronously; the synchronous checks below read that copy
+    await oauthManager.ready();
     if (oauthManager.isAuthenticated()) {
+      // Renews an expired access token up front; a failed refresh logs out with a reason
+      if (!(await oauthManager.getValidAccessToken())) return;
+      setTokenExpiresAt(oauthManager.getTokenExpiresAt());
+
       const storedUserInfo = oauthManager.getUserInfo();
       if (storedUserInfo) {
         setUserInfo(storedUserInfo);
@@ -37,13 +101,14 @@ export function useAuthentication(platformState: PlatformDetectionState): Authen
       setAuthError(null);
     } catch (error) {
       console.error('Failed to fetch user info:', error);
+      oauthManager.logout();
       setAuthError(error instanceof Error ? error.message : String(error));
       setAuthStatus('error');
-      oauthManager.logout();
     }
   };
 
-  const login = async () => {
+  // Comes back to the current page unless told otherwise
+  const login = async (loginReturn: Partial<LoginReturn> = {}) => {
     if (!platformState.client) {
       setAuthError('Extension not available. Please ensure the Bodhi browser extension is installed.');
       return;
@@ -54,7 +119,10 @@ export function useAuthentication(platformState: PlatformDetectionState): Authen
       setAuthError(null);
 
       await oauthManager.requestResourceAccess(platformState.client);
-      const authUrl = await oauthManager.buildAuthUrl();
+      const authUrl = await oauthManager.buildAuthUrl({
+        path: loginReturn.path ?? getCurrentAppPath(),
+        draft: loginReturn.draft || undefined,
+      });
       window.location.href = authUrl;
     } catch (error) {
       console.error('Login failed:', error);
@@ -73,6 +141,7 @@ export function useAuthentication(platformState: PlatformDetectionState): Authen
   return {
     status: authStatus,
     userInfo,
+    claims,
     error: authError,
     login,
     logout,
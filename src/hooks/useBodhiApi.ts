@@ -0,0 +1,7 @@
+import { useMemo } from 'react';
+import { BodhiApiClient } from '@/lib/bodhi-api';
+import type { ExtensionClient } from '@/types/extension';
+
+export function useBodhiApi(client: ExtensionClient | null): BodhiApiClient | null {
+  return useMemo(() => (client ? new BodhiApiClient(client) : null), [client]);
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useChat } from '@/hooks/useChat';
+import { BodhiApiClient } from '@/lib/bodhi-api';
+import { ExtensionClientImpl } from '@/lib/extension-client';
+import { installMockBodhiext } from '@/lib/mock-bodhiext';
+import { createMessageTree, getActiveMessages, getBranchPosition } from '@/lib/message-tree';
+import { calculatorTool, ToolRegistry } from '@/lib/tools';
+
+function createApi(latencyMs = 0): BodhiApiClient {
+  installMockBodhiext({ latencyMs });
+  return new BodhiApiClient(new ExtensionClientImpl('mock-bodhiext'));
+}
+
+describe('useChat', () => {
+  it('streams the assistant reply and reports the settled conversation', async () => {
+    const onConversationChange = vi.fn();
+    const { result } = renderHook(() => useChat(createApi(), 'mock-model', { onConversationChange }));
+
+    await act(() => result.current.sendMessage('hello'));
+
+    expect(result.current.status).toBe('idle');
+    expect(result.current.messages).toHaveLength(2);
+    expect(result.current.messages[1].content).toContain('You said: "hello"');
+    expect(getActiveMessages(onConversationChange.mock.lastCall![0])).toEqual(result.current.messages);
+  });
+
+  it('keeps the partial reply when generation is stopped', async () => {
+    const onConversationChange = vi.fn();
+    const { result } = renderHook(() => useChat(createApi(20), 'mock-model', { onConversationChange }));
+
+    let sending!: Promise<void>;
+    act(() => {
+      sending = result.current.sendMessage('tell me a long story');
+    });
+    await waitFor(() => expect(result.current.messages[1]?.content).toMatch(/\S/));
+
+    act(() => result.current.stopGeneration());
+    await act(() => sending);
+
+    const partial = result.current.messages[1].content;
+    expect(result.current.status).toBe('idle');
+    expect(result.current.error).toBeNull();
+    expect(partial.length).toBeGreaterThan(0);
+    expect(partial).not.toContain('tell me a long story"');
+    expect(getActiveMessages(onConversationChange.mock.lastCall![0])).toEqual(result.current.messages);
+  });
+
+  it('discards an in-flight reply when another conversation is loaded', async () => {
+    const { result } = renderHook(() => useChat(createApi(20), 'mock-model'));
+
+    let sending!: Promise<void>;
+    act(() => {
+      sending = result.current.sendMessage('hello');
+    });
+    act(() => result.current.loadConversation(createMessageTree([{ role: 'user', content: 'other chat' }])));
+    await act(() => sending);
+
+    expect(result.current.messages).toEqual([{ role: 'user', content: 'other chat' }]);
+    expect(result.current.status).toBe('idle');
+  });
+
+  it('regenerates a reply as a new sibling version', async () => {
+    const { result } = renderHook(() => useChat(createApi(), 'mock-model'));
+
+    await act(() => result.current.sendMessage('hello'));
+    const original = result.current.branch[1];
+    await act(() => result.current.regenerate(original.id));
+
+    const regenerated = result.current.branch[1];
+    expect(regenerated.id).not.toBe(original.id);
+    expect(result.current.messages).toHaveLength(2);
+    expect(getBranchPosition(result.current.tree, regenerated.id)).toEqual({ index: 1, count: 2 });
+
+    act(() => result.current.switchBranch(regenerated.id, -1));
+    expect(result.current.branch[1].id).toBe(original.id);
+  });
+
+  it('edits a user message into a new branch and sends only that branch', async () => {
+    const { result } = renderHook(() => useChat(createApi(), 'mock-model'));
+
+    await act(() => result.current.sendMessage('first'));
+    await act(() => result.current.sendMessage('second'));
+    const edited = result.current.branch[2];
+    await act(() => result.current.editMessage(edited.id, 'second, edited'));
+
+    expect(result.current.messages.map(message => message.content.split('\n')[0])).toEqual([
+      'first',
+      expect.stringContaining('"first"'),
+      'second, edited',
+      expect.stringContaining('"second, edited"'),
+    ]);
+    expect(getBranchPosition(result.current.tree, result.current.branch[2].id)).toEqual({ index: 1, count: 2 });
+  });
+
+  it('sends retrieved document context and stores its citations on the reply', async () => {
+    const api = createApi();
+    const streamChat = vi.spyOn(api, 'streamChatCompletion');
+    const citation = { index: 1, documentId: 'doc-1', documentName: 'notes.md', chunkIndex: 0, excerpt: 'Notes', score: 0.9 };
+    const retrieveContext = vi.fn().mockResolvedValue({ prompt: 'Use these notes.', citations: [citation] });
+    const { result } = renderHook(() => useChat(api, 'mock-model', { retrieveContext }));
+
+    await act(() => result.current.sendMessage('what do my notes say?'));
+
+    expect(retrieveContext).toHaveBeenCalledWith('what do my notes say?', expect.objectContaining({ signal: expect.any(AbortSignal) }));
+    expect(streamChat.mock.calls[0][0].messages).toEqual([
+      { role: 'system', content: 'Use these notes.' },
+      { role: 'user', content: 'what do my notes say?' },
+    ]);
+    expect(result.current.messages[1].metadata?.citations).toEqual([citation]);
+  });
+
+  it('runs the tools the model calls and sends the results back until it answers', async () => {
+    const api = createApi();
+    const streamChat = vi.spyOn(api, 'streamChatCompletion');
+    const tools = new ToolRegistry([calculatorTool]);
+    const { result } = renderHook(() => useChat(api, 'mock-model', { settings: { tools: ['calculator'] }, tools }));
+
+    await act(() => result.current.sendMessage('what is 6 * 7?'));
+
+    expect(streamChat).toHaveBeenCalledTimes(2);
+    expect(streamChat.mock.calls[1][0].messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_mock_1', type: 'function', function: { name: 'calculator', arguments: '{"expression":"6 * 7"}' } }],
+      },
+      { role: 'tool', tool_call_id: 'call_mock_1', content: '{"result":42}' },
+    ]);
+    expect(result.current.messages).toHaveLength(2);
+    expect(result.current.messages[1].content).toBe('The tool returned: {"result":42}');
+    expect(result.current.messages[1].metadata?.toolCalls).toEqual([
+      expect.objectContaining({ name: 'calculator', result: '{"result":42}' }),
+    ]);
+  });
+
+  it('does not offer tools that are not enabled', async () => {
+    const api = createApi();
+    const streamChat = vi.spyOn(api, 'streamChatCompletion');
+    const { result } = renderHook(() => useChat(api, 'mock-model', { tools: new ToolRegistry([calculatorTool]) }));
+
+    await act(() => result.current.sendMessage('what is 6 * 7?'));
+
+    expect(streamChat).toHaveBeenCalledTimes(1);
+    expect(streamChat.mock.calls[0][0].tools).toBeUndefined();
+    expect(result.current.messages[1].content).toContain('You said');
+  });
+});
@@ -0,0 +1,253 @@
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { buildChatCompletionRequest, DEFAULT_CHAT_SETTINGS } from '@/lib/chat-request';
+import { assembleChatStream } from '@/lib/stream-assembler';
+import {
+  appendMessage,
+  createMessageTree,
+  getActiveBranch,
+  getLeafId,
+  getPathMessages,
+  removeMessage,
+  switchBranch as switchTreeBranch,
+  updateMessage,
+} from '@/lib/message-tree';
+import type { BodhiApiClient } from '@/lib/bodhi-api';
+import { formatToolMessage } from '@/lib/tools';
+import type { ToolRegistry } from '@/lib/tools';
+import type { ChatSettings, ChatState, ChatStatus, Message, MessageTree } from '@/types/chat';
+import type { RetrievedContext } from '@/types/documents';
+import type { RequestOptions } from '@/types/extension';
+import type { AssembledMessage } from '@/types/stream';
+import type { ToolCallTrace } from '@/types/tools';
+import { RequestAbortedError } from '@/types/extension';
+
+// Gives up on a generation that stalls this long between chunks
+const STREAM_IDLE_TIMEOUT_MS = 120000;
+// Model turns that may request tools before a reply is given up on
+export const MAX_TOOL_ROUNDS = 8;
+
+// Abort reasons: a stopped generation keeps its partial reply, a discarded one is dropped
+const STOPPED = 'stopped';
+const DISCARDED = 'discarded';
+
+interface UseChatOptions {
+  settings?: ChatSettings;
+  // Called when a user message is added, when the assistant turn settles and on branch switches
+  onConversationChange?: (tree: MessageTree) => void;
+  // Looks up document excerpts for the latest user message before each reply
+  retrieveContext?: (query: string, options: RequestOptions) => Promise<RetrievedContext | null>;
+  // Runs the tools named in settings.tools when the model calls them
+  tools?: ToolRegistry;
+}
+
+export function useChat(
+  api: BodhiApiClient | null,
+  model: string,
+  options: UseChatOptions = {}
+): ChatState {
+  const { settings = DEFAULT_CHAT_SETTINGS, onConversationChange, retrieveContext, tools } = options;
+  const [tree, setTree] = useState<MessageTree>(() => createMessageTree());
+  const [status, setStatus] = useState<ChatStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Streaming callbacks outlive the render that started them, so they read the latest tree here
+  const treeRef = useRef(tree);
+
+  const commitTree = useCallback((next: MessageTree) => {
+    treeRef.current = next;
+    setTree(next);
+  }, []);
+
+  const abortGeneration = useCallback((reason: typeof STOPPED | typeof DISCARDED) => {
+    abortControllerRef.current?.abort(reason);
+    abortControllerRef.current = null;
+  }, []);
+
+  useEffect(() => () => abortGeneration(DISCARDED), [abortGeneration]);
+
+  // Streams a new assistant reply under parentId, which becomes a sibling of any earlier replies
+  const generate = useCallback(async (parentId: string) => {
+    if (!api) {
+      setError('Extension not available. Please ensure the Bodhi browser extension is installed.');
+      setStatus('error');
+      return;
+    }
+
+    const history = getPathMessages(treeRef.current, parentId);
+    const placeholder = appendMessage(treeRef.current, parentId, { role: 'assistant', content: '' });
+    const assistantId = placeholder.id;
+    commitTree(placeholder.tree);
+    setStatus('streaming');
+    setError(null);
+
+    abortGeneration(DISCARDED);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    let assistantContent = '';
+    const toolTrace: ToolCallTrace[] = [];
+    // Keeps the calls made so far visible while later rounds stream in
+    const commitAssistant = (message: Message) => {
+      const withTrace = toolTrace.length > 0
+        ? { ...message, metadata: { ...message.metadata, toolCalls: [...toolTrace] } }
+        : message;
+      commitTree(updateMessage(treeRef.current, assistantId, withTrace));
+    };
+
+    try {
+      const query = history[history.length - 1];
+      const context = retrieveContext && query?.role === 'user'
+        ? await retrieveContext(query.content, { signal: controller.signal })
+        : null;
+
+      const toolDefinitions = tools?.definitions(settings.tools ?? []) ?? [];
+      const request = buildChatCompletionRequest(model, settings, history, context?.prompt, toolDefinitions);
+
+      // Tool calls and their results only live in this request; the conversation
+      // keeps the final answer, with the calls recorded in its metadata
+      for (let round = 1; ; round++) {
+        const startedAt = performance.now();
+        const stream = await api.streamChatCompletion(
+          request,
+          { signal: controller.signal, timeout: STREAM_IDLE_TIMEOUT_MS }
+        );
+
+        let reply: AssembledMessage | null = null;
+        for await (const event of assembleChatStream(stream, { startedAt })) {
+          if (event.type === 'content') {
+            assistantContent = event.content;
+            commitAssistant({ role: 'assistant', content: assistantContent });
+          } else if (event.type === 'done') {
+            reply = event.message;
+          }
+        }
+        if (!reply) break;
+
+        if (!tools || toolDefinitions.length === 0 || reply.toolCalls.length === 0) {
+          commitAssistant({
+            role: 'assistant',
+            content: reply.content,
+            metadata: {
+              model: reply.model ?? model,
+              finishReason: reply.finishReason,
+              usage: reply.usage,
+              timings: reply.timings,
+              ...(context && { citations: context.citations }),
+            },
+          });
+          break;
+        }
+        if (round === MAX_TOOL_ROUNDS) {
+          throw new Error(`The model was still calling tools after ${MAX_TOOL_ROUNDS} rounds`);
+        }
+
+        request.messages.push({ role: 'assistant', content: reply.content || null, tool_calls: reply.toolCalls });
+        for (const toolCall of reply.toolCalls) {
+          const index = toolTrace.push({ id: toolCall.id, name: toolCall.function.name, arguments: toolCall.function.arguments }) - 1;
+          commitAssistant({ role: 'assistant', content: assistantContent });
+
+          const trace = await tools.execute(toolCall, { signal: controller.signal });
+          // Tools that ignore the signal still finish; their result is not sent on
+          if (controller.signal.aborted) throw new RequestAbortedError();
+          toolTrace[index] = trace;
+          commitAssistant({ role: 'assistant', content: assistantContent });
+          request.messages.push({
+            role: 'tool',
+            tool_call_id: toolCall.id,
+            content: formatToolMessage(trace),
+          });
+        }
+      }
+
+      setStatus('idle');
+      onConversationChange?.(treeRef.current);
+    } catch (error) {
+      const stopped = error instanceof RequestAbortedError;
+      if (stopped && controller.signal.reason === DISCARDED) return;
+
+      // Drop the empty assistant placeholder but keep whatever already streamed in or was called
+      if (!assistantContent && toolTrace.length === 0) {
+        commitTree(removeMessage(treeRef.current, assistantId));
+      }
+      if (stopped) {
+        setStatus('idle');
+      } else {
+        console.error('Chat request failed:', error);
+        setError(error instanceof Error ? error.message : String(error));
+        setStatus('error');
+      }
+      onConversationChange?.(treeRef.current);
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  }, [api, model, settings, onConversationChange, retrieveContext, tools, abortGeneration, commitTree]);
+
+  const sendUserMessage = useCallback(async (parentId: string | null, content: string) => {
+    const result = appendMessage(treeRef.current, parentId, { role: 'user', content });
+    commitTree(result.tree);
+    onConversationChange?.(result.tree);
+    await generate(result.id);
+  }, [generate, onConversationChange, commitTree]);
+
+  const sendMessage = useCallback(
+    (content: string) => sendUserMessage(getLeafId(treeRef.current), content),
+    [sendUserMessage]
+  );
+
+  // Edit and resend: the edited text becomes a new version next to the original
+  const editMessage = useCallback(async (id: string, content: string) => {
+    const node = treeRef.current.nodes[id];
+    if (!node || node.message.role !== 'user') return;
+    await sendUserMessage(node.parentId, content);
+  }, [sendUserMessage]);
+
+  const regenerate = useCallback(async (id: string) => {
+    const node = treeRef.current.nodes[id];
+    if (!node || node.message.role !== 'assistant' || !node.parentId) return;
+    await generate(node.parentId);
+  }, [generate]);
+
+  const switchBranch = useCallback((id: string, offset: number) => {
+    if (abortControllerRef.current) return;
+    const next = switchTreeBranch(treeRef.current, id, offset);
+    if (next === treeRef.current) return;
+    commitTree(next);
+    onConversationChange?.(next);
+  }, [onConversationChange, commitTree]);
+
+  const stopGeneration = useCallback(() => abortGeneration(STOPPED), [abortGeneration]);
+
+  const clearMessages = useCallback(() => {
+    abortGeneration(DISCARDED);
+    commitTree(createMessageTree());
+    setStatus('idle');
+    setError(null);
+  }, [abortGeneration, commitTree]);
+
+  const loadConversation = useCallback((tree: MessageTree) => {
+    abortGeneration(DISCARDED);
+    commitTree(tree);
+    setStatus('idle');
+    setError(null);
+  }, [abortGeneration, commitTree]);
+
+  const branch = useMemo(() => getActiveBranch(tree), [tree]);
+  const messages = useMemo(() => branch.map(node => node.message), [branch]);
+
+  return {
+    tree,
+    branch,
+    messages,
+    status,
+    error,
+    sendMessage,
+    editMessage,
+    regenerate,
+    switchBranch,
+    stopGeneration,
+    clearMessages,
+    loadConversation,
+  };
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { chatDB } from '@/lib/chat-db';
+import { dedupeImportedChats } from '@/lib/chat-export';
+import type { Chat, ChatImportResult } from '@/types/chat';
+
+export interface ChatDBState {
+  chats: Chat[];
+  loading: boolean;
+  error: string | null;
+  getChat: (id: string) => Promise<Chat | null>;
+  saveChat: (chat: Chat) => Promise<void>;
+  deleteChat: (id: string) => Promise<void>;
+  renameChat: (id: string, title: string) => Promise<void>;
+  importChats: (chats: Chat[]) => Promise<ChatImportResult>;
+}
+
+export function useChatDB(): ChatDBState {
+  const [chats, setChats] = useState<Chat[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setChats(await chatDB.listChats());
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load chat history:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getChat = useCallback((id: string) => chatDB.getChat(id), []);
+
+  const saveChat = useCallback(async (chat: Chat) => {
+    await chatDB.saveChat(chat);
+    await refresh();
+  }, [refresh]);
+
+  const deleteChat = useCallback(async (id: string) => {
+    await chatDB.deleteChat(id);
+    await refresh();
+  }, [refresh]);
+
+  const renameChat = useCallback(async (id: string, title: string) => {
+    const chat = await chatDB.getChat(id);
+    if (!chat) return;
+    await chatDB.saveChat({ ...chat, title });
+    await refresh();
+  }, [refresh]);
+
+  const importChats = useCallback(async (incoming: Chat[]) => {
+    const result = dedupeImportedChats(await chatDB.listChats(), incoming);
+    if (result.imported.length > 0) {
+      await chatDB.saveChats(result.imported);
+      await refresh();
+    }
+    return result;
+  }, [refresh]);
+
+  return {
+    chats,
+    loading,
+    error,
+    getChat,
+    saveChat,
+    deleteChat,
+    renameChat,
+    importChats,
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useChatSettings } from '@/hooks/useChatSettings';
+
+function storedDefaults(): unknown {
+  return JSON.parse(localStorage.getItem('bodhi_chat_settings') ?? 'null');
+}
+
+describe('useChatSettings', () => {
+  it('shows a saved chat\'s settings without changing the defaults for new chats', () => {
+    localStorage.setItem('bodhi_chat_settings', JSON.stringify({ model: 'llama3', settings: { temperature: 0.7 } }));
+    const { result } = renderHook(() => useChatSettings());
+
+    act(() => result.current.applyChatSettings('qwen', { temperature: 0.1, seed: 4 }));
+    expect(result.current.model).toBe('qwen');
+    expect(result.current.settings).toEqual({ temperature: 0.1, seed: 4 });
+    expect(storedDefaults()).toEqual({ model: 'llama3', settings: { temperature: 0.7 } });
+
+    act(() => result.current.restoreDefaults());
+    expect(result.current.model).toBe('llama3');
+    expect(result.current.settings).toEqual({ temperature: 0.7 });
+  });
+
+  it('remembers only the user\'s own changes as defaults while a saved chat is open', () => {
+    localStorage.setItem('bodhi_chat_settings', JSON.stringify({ model: 'llama3', settings: { temperature: 0.7 } }));
+    const { result } = renderHook(() => useChatSettings());
+
+    act(() => result.current.applyChatSettings('qwen', { temperature: 0.1, seed: 4 }));
+    act(() => result.current.updateSettings({ max_tokens: 256 }));
+
+    expect(result.current.settings).toEqual({ temperature: 0.1, seed: 4, max_tokens: 256 });
+    expect(storedDefaults()).toEqual({ model: 'llama3', settings: { temperature: 0.7, max_tokens: 256 } });
+  });
+});
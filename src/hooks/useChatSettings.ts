@@ -0,0 +1,80 @@
+import { useState, useCallback } from 'react';
+import { DEFAULT_CHAT_SETTINGS } from '@/lib/chat-request';
+import type { ChatSettings } from '@/types/chat';
+
+const SETTINGS_STORAGE_KEY = 'bodhi_chat_settings';
+
+interface StoredSettings {
+  model: string;
+  settings: ChatSettings;
+}
+
+export interface ChatSettingsState {
+  model: string;
+  settings: ChatSettings;
+  setModel: (model: string) => void;
+  updateSettings: (changes: Partial<ChatSettings>) => void;
+  applyChatSettings: (model: string, settings: ChatSettings) => void;
+  restoreDefaults: () => void;
+  resetSettings: () => void;
+}
+
+function loadStoredSettings(): StoredSettings {
+  const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored);
+      return {
+        model: typeof parsed.model === 'string' ? parsed.model : '',
+        settings: parsed.settings && typeof parsed.settings === 'object' ? parsed.settings : {},
+      };
+    } catch {
+      // Fall through to defaults on corrupt storage
+    }
+  }
+  return { model: '', settings: DEFAULT_CHAT_SETTINGS };
+}
+
+export function useChatSettings(): ChatSettingsState {
+  const [state, setState] = useState<StoredSettings>(loadStoredSettings);
+
+  // Changes made by the user apply to the current chat and also become the
+  // default for the next new chat, on top of the stored defaults rather than
+  // whatever saved chat is open
+  const update = useCallback((updater: (prev: StoredSettings) => StoredSettings) => {
+    setState(updater);
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(updater(loadStoredSettings())));
+  }, []);
+
+  const setModel = useCallback((model: string) => {
+    update(prev => ({ ...prev, model }));
+  }, [update]);
+
+  const updateSettings = useCallback((changes: Partial<ChatSettings>) => {
+    update(prev => ({ ...prev, settings: { ...prev.settings, ...changes } }));
+  }, [update]);
+
+  // Shows a saved chat's settings without making them the default. Imported
+  // chats may carry no model, in which case the current one is kept.
+  const applyChatSettings = useCallback((model: string, settings: ChatSettings) => {
+    setState(prev => ({ model: model || prev.model, settings }));
+  }, []);
+
+  const restoreDefaults = useCallback(() => {
+    setState(loadStoredSettings());
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    update(prev => ({ ...prev, settings: DEFAULT_CHAT_SETTINGS }));
+  }, [update]);
+
+  return {
+    model: state.model,
+    settings: state.settings,
+    setModel,
+    updateSettings,
+    applyChatSettings,
+    restoreDefaults,
+    resetSettings,
+  };
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { buildRetrievedContext, indexDocument, searchDocuments } from '@/lib/rag';
+import { documentIndex } from '@/lib/vector-index';
+import type { BodhiApiClient } from '@/lib/bodhi-api';
+import type { IndexProgress } from '@/lib/rag';
+import type { ChatDocument, RetrievedContext } from '@/types/documents';
+import type { RequestOptions } from '@/types/extension';
+
+const EMBEDDING_MODEL_KEY = 'bodhi_embedding_model';
+
+// A file being read and embedded, or one that failed to index
+export interface DocumentUpload {
+  id: string;
+  name: string;
+  progress: IndexProgress | null;
+  error: string | null;
+}
+
+export interface DocumentsState {
+  documents: ChatDocument[];
+  uploads: DocumentUpload[];
+  embeddingModel: string;
+  setEmbeddingModel: (model: string) => void;
+  addFiles: (files: File[], chatId: string) => Promise<void>;
+  removeDocument: (id: string) => Promise<void>;
+  dismissUpload: (id: string) => void;
+  retrieveContext: (query: string, options: RequestOptions) => Promise<RetrievedContext | null>;
+}
+
+export function useDocuments(api: BodhiApiClient | null, chatId: string | null): DocumentsState {
+  const [documents, setDocuments] = useState<ChatDocument[]>([]);
+  const [uploads, setUploads] = useState<DocumentUpload[]>([]);
+  const [embeddingModel, setEmbeddingModelState] = useState(
+    () => localStorage.getItem(EMBEDDING_MODEL_KEY) ?? ''
+  );
+  // Indexing outlives chat switches, so finished uploads check which chat is shown now
+  const chatIdRef = useRef(chatId);
+  chatIdRef.current = chatId;
+
+  useEffect(() => {
+    setDocuments([]);
+    if (!chatId) return;
+
+    let active = true;
+    documentIndex.listDocuments(chatId)
+      .then(loaded => {
+        if (active) setDocuments(loaded);
+      })
+      .catch(error => console.error('Failed to load documents:', error));
+    return () => { active = false; };
+  }, [chatId]);
+
+  const setEmbeddingModel = useCallback((model: string) => {
+    localStorage.setItem(EMBEDDING_MODEL_KEY, model);
+    setEmbeddingModelState(model);
+  }, []);
+
+  const updateUpload = useCallback((id: string, changes: Partial<DocumentUpload>) => {
+    setUploads(prev => prev.map(upload => (upload.id === id ? { ...upload, ...changes } : upload)));
+  }, []);
+
+  const addFiles = useCallback(async (files: File[], targetChatId: string) => {
+    if (!api) return;
+
+    const queued = files.map(file => ({ file, upload: { id: crypto.randomUUID(), name: file.name, progress: null, error: null } }));
+    setUploads(prev => [...prev, ...queued.map(({ upload }) => upload)]);
+
+    // One at a time, so a large batch does not flood the local server with embedding calls
+    for (const { file, upload } of queued) {
+      if (!embeddingModel) {
+        updateUpload(upload.id, { error: 'Choose an embedding model first' });
+        continue;
+      }
+      try {
+        const document = await indexDocument(api, file, targetChatId, embeddingModel, progress => {
+          updateUpload(upload.id, { progress });
+        });
+        setUploads(prev => prev.filter(item => item.id !== upload.id));
+        if (chatIdRef.current === targetChatId) {
+          setDocuments(prev => [...prev, document]);
+        }
+      } catch (error) {
+        console.error('Failed to index document:', error);
+        updateUpload(upload.id, { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }, [api, embeddingModel, updateUpload]);
+
+  const removeDocument = useCallback(async (id: string) => {
+    await documentIndex.deleteDocument(id);
+    setDocuments(prev => prev.filter(document => document.id !== id));
+  }, []);
+
+  const dismissUpload = useCallback((id: string) => {
+    setUploads(prev => prev.filter(upload => upload.id !== id));
+  }, []);
+
+  const retrieveContext = useCallback(async (query: string, options: RequestOptions) => {
+    const currentChatId = chatIdRef.current;
+    if (!api || !currentChatId) return null;
+    return buildRetrievedContext(await searchDocuments(api, currentChatId, query, undefined, options));
+  }, [api]);
+
+  return {
+    documents,
+    uploads,
+    embeddingModel,
+    setEmbeddingModel,
+    addFiles,
+    removeDocument,
+    dismissUpload,
+    retrieveContext,
+  };
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect, useRef } from 'react';
+import { ExtensionHealthMonitor } from '@/lib/health-monitor';
+import type { PlatformDetectionState } from '@/hooks/usePlatformDetection';
+import type { HealthSnapshot } from '@/types/health';
+
+const INITIAL_SNAPSHOT: HealthSnapshot = {
+  status: 'unknown',
+  latencyMs: null,
+  lastChecked: null,
+  history: [],
+};
+
+export function useExtensionHealth(platformState: PlatformDetectionState): HealthSnapshot {
+  const { status, client, retry } = platformState;
+  const [snapshot, setSnapshot] = useState<HealthSnapshot>(INITIAL_SNAPSHOT);
+  // History carries over when the monitor is rebuilt for a reconnected client
+  const historyRef = useRef(snapshot.history);
+
+  useEffect(() => {
+    if (status !== 'detected' || !client) return;
+
+    const monitor = new ExtensionHealthMonitor(client, { history: historyRef.current });
+    const unsubscribe = monitor.subscribe(next => {
+      historyRef.current = next.history;
+      setSnapshot(next);
+    });
+    const unsubscribeChange = monitor.onExtensionChange(reason => {
+      console.warn(`Bodhi extension connection changed (${reason}), reconnecting`);
+      retry();
+    });
+
+    monitor.start();
+    return () => {
+      monitor.stop();
+      unsubscribe();
+      unsubscribeChange();
+    };
+  }, [status, client, retry]);
+
+  return snapshot;
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useModelManagement, DOWNLOAD_POLL_INTERVAL_MS } from '@/hooks/useModelManagement';
+import { BodhiApiClient } from '@/lib/bodhi-api';
+import { ExtensionClientImpl } from '@/lib/extension-client';
+import { installMockBodhiext } from '@/lib/mock-bodhiext';
+
+function createApi(): BodhiApiClient {
+  installMockBodhiext({ models: ['llama3'] });
+  return new BodhiApiClient(new ExtensionClientImpl('mock-bodhiext'));
+}
+
+describe('useModelManagement', () => {
+  it('loads files and aliases', async () => {
+    const api = createApi();
+    const { result } = renderHook(() => useModelManagement(api));
+
+    await waitFor(() => expect(result.current.aliases).toHaveLength(1));
+    expect(result.current.files).toHaveLength(1);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('polls a pull until it completes and then lists the new file', async () => {
+    vi.useFakeTimers();
+    const api = createApi();
+    const { result } = renderHook(() => useModelManagement(api));
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(0);
+    });
+
+    await act(() => result.current.pullModel({ repo: 'owner/new-GGUF', filename: 'new.gguf' }));
+    expect(result.current.downloads[0].status).toBe('pending');
+
+    // The mock finishes a download after four polls
+    for (let poll = 0; poll < 4; poll++) {
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(DOWNLOAD_POLL_INTERVAL_MS);
+      });
+    }
+
+    expect(result.current.downloads[0].status).toBe('completed');
+    expect(result.current.files.map(file => file.filename)).toContain('new.gguf');
+  });
+
+  it('adds a saved alias to the list', async () => {
+    const api = createApi();
+    const { result } = renderHook(() => useModelManagement(api));
+    await waitFor(() => expect(result.current.files).toHaveLength(1));
+    const [file] = result.current.files;
+
+    await act(() => result.current.saveAlias({
+      alias: 'a-first',
+      repo: file.repo,
+      filename: file.filename,
+      request_params: {},
+      context_params: [],
+    }, true));
+
+    expect(result.current.aliases.map(alias => alias.alias)).toEqual(['a-first', 'llama3']);
+  });
+});
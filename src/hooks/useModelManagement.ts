@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { BodhiApiClient } from '@/lib/bodhi-api';
+import type { LocalModelFile, ModelAlias, ModelAliasRequest, ModelDownload, PullModelRequest } from '@/types/api';
+
+export const DOWNLOAD_POLL_INTERVAL_MS = 2000;
+
+export interface ModelManagementState {
+  files: LocalModelFile[];
+  aliases: ModelAlias[];
+  downloads: ModelDownload[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  pullModel: (request: PullModelRequest) => Promise<void>;
+  saveAlias: (request: ModelAliasRequest, isNew: boolean) => Promise<void>;
+}
+
+export function useModelManagement(api: BodhiApiClient | null): ModelManagementState {
+  const [files, setFiles] = useState<LocalModelFile[]>([]);
+  const [aliases, setAliases] = useState<ModelAlias[]>([]);
+  const [downloads, setDownloads] = useState<ModelDownload[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!api) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const [fileList, aliasList, downloadList] = await Promise.all([
+        api.listModelFiles(),
+        api.listModelAliases(),
+        api.listModelDownloads(),
+      ]);
+      setFiles(fileList.data);
+      setAliases([...aliasList.data].sort((a, b) => a.alias.localeCompare(b.alias)));
+      setDownloads(downloadList.data);
+    } catch (error) {
+      console.error('Failed to load models:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const hasPendingDownloads = downloads.some(download => download.status === 'pending');
+
+  // Poll only while something is downloading; a finished pull adds a model file
+  useEffect(() => {
+    if (!api || !hasPendingDownloads) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const { data } = await api.listModelDownloads();
+        setDownloads(data);
+        if (!data.some(download => download.status === 'pending')) {
+          const { data: fileList } = await api.listModelFiles();
+          setFiles(fileList);
+        }
+      } catch (error) {
+        console.error('Failed to poll model downloads:', error);
+      }
+    }, DOWNLOAD_POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [api, hasPendingDownloads]);
+
+  // Errors are rethrown so the form that started the action can show them
+  const pullModel = useCallback(async (request: PullModelRequest) => {
+    if (!api) return;
+    const download = await api.pullModel(request);
+    setDownloads(prev => [download, ...prev.filter(existing => existing.id !== download.id)]);
+  }, [api]);
+
+  const saveAlias = useCallback(async (request: ModelAliasRequest, isNew: boolean) => {
+    if (!api) return;
+    const saved = isNew ? await api.createModelAlias(request) : await api.updateModelAlias(request);
+    setAliases(prev => [...prev.filter(alias => alias.alias !== saved.alias), saved]
+      .sort((a, b) => a.alias.localeCompare(b.alias)));
+  }, [api]);
+
+  return {
+    files,
+    aliases,
+    downloads,
+    loading,
+    error,
+    refresh,
+    pullModel,
+    saveAlias,
+  };
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { BodhiApiClient } from '@/lib/bodhi-api';
+import type { Model } from '@/types/api';
+
+export interface ModelsState {
+  models: Model[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+export function useModels(api: BodhiApiClient | null): ModelsState {
+  const [models, setModels] = useState<Model[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!api) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const { data } = await api.listModels();
+      setModels([...data].sort((a, b) => a.id.localeCompare(b.id)));
+    } catch (error) {
+      console.error('Failed to load models:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    models,
+    loading,
+    error,
+    refresh,
+  };
+}
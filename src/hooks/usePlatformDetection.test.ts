@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { usePlatformDetection, SERVER_POLL_INTERVAL } from '@/hooks/usePlatformDetection';
+import { installMockBodhiext, createMockBodhiext } from '@/lib/mock-bodhiext';
+import type { ServerStateInfo } from '@/types/extension';
+
+describe('usePlatformDetection', () => {
+  it('reports detected once the server is ready', async () => {
+    installMockBodhiext({ extensionId: 'ext-ready' });
+
+    const { result } = renderHook(() => usePlatformDetection());
+
+    expect(result.current.status).toBe('detecting');
+    await waitFor(() => expect(result.current.status).toBe('detected'));
+    expect(result.current.extensionId).toBe('ext-ready');
+    expect(result.current.serverState?.status).toBe('ready');
+  });
+
+  it.each<[ServerStateInfo['status'], string]>([
+    ['setup', 'setup'],
+    ['resource-admin', 'resource-admin'],
+    ['error', 'server-error'],
+    ['unreachable', 'unreachable'],
+  ])('maps server status %s to %s', async (serverStatus, expected) => {
+    installMockBodhiext({ serverStatus });
+
+    const { result } = renderHook(() => usePlatformDetection());
+
+    await waitFor(() => expect(result.current.status).toBe(expected));
+    expect(result.current.client).not.toBeNull();
+  });
+
+  it('treats a failing serverState call as unreachable', async () => {
+    window.bodhiext = {
+      ...createMockBodhiext(),
+      serverState: () => Promise.reject(new Error('connection refused')),
+    };
+
+    const { result } = renderHook(() => usePlatformDetection());
+
+    await waitFor(() => expect(result.current.status).toBe('unreachable'));
+    expect(result.current.error).toBe('connection refused');
+  });
+
+  it('polls until the server becomes ready', async () => {
+    vi.useFakeTimers();
+    installMockBodhiext({ serverStatus: 'setup' });
+
+    const { result } = renderHook(() => usePlatformDetection());
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(0);
+    });
+    expect(result.current.status).toBe('setup');
+
+    installMockBodhiext({ serverStatus: 'ready' });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(SERVER_POLL_INTERVAL);
+    });
+
+    expect(result.current.status).toBe('detected');
+  });
+
+  it('reports timeout when the extension does not return its ID', async () => {
+    vi.useFakeTimers();
+    window.bodhiext = {
+      ...createMockBodhiext(),
+      getExtensionId: () => new Promise<string>(() => {}),
+    };
+
+    const { result } = renderHook(() => usePlatformDetection());
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(5000);
+    });
+
+    expect(result.current.status).toBe('timeout');
+  });
+
+  it('rebuilds the client on retry without losing the previous one meanwhile', async () => {
+    installMockBodhiext({ extensionId: 'ext-old' });
+    const { result } = renderHook(() => usePlatformDetection());
+    await waitFor(() => expect(result.current.extensionId).toBe('ext-old'));
+    const previousClient = result.current.client;
+
+    installMockBodhiext({ extensionId: 'ext-new' });
+    act(() => result.current.retry());
+
+    expect(result.current.client).toBe(previousClient);
+    await waitFor(() => expect(result.current.extensionId).toBe('ext-new'));
+    expect(result.current.client).not.toBe(previousClient);
+  });
+});
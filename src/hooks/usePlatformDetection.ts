@@ -1,26 +1,83 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { loadExtensionClient } from '@/lib/extension-client';
-import type { ExtensionClient } from '@/types/extension';
+import type { ExtensionClient, ServerStateInfo } from '@/types/extension';
+import { ExtensionTimeoutError } from '@/types/extension';
 
-export type PlatformDetectionStatus = 'detecting' | 'detected' | 'setup' | 'timeout' | 'error';
+export type PlatformDetectionStatus =
+  | 'detecting'
+  | 'detected'
+  | 'setup'
+  | 'resource-admin'
+  | 'server-error'
+  | 'unreachable'
+  | 'timeout'
+  | 'error';
 
 export interface PlatformDetectionState {
   status: PlatformDetectionStatus;
   client: ExtensionClient | null;
   extensionId: string | null;
+  serverState: ServerStateInfo | null;
   error: string | null;
+  // Re-runs detection in place, rebuilding the client without reloading the page
+  retry: () => void;
+}
+
+type DetectionResult = Omit<PlatformDetectionState, 'retry'>;
+
+// How often to re-check a server that is not ready yet
+export const SERVER_POLL_INTERVAL = 3000;
+
+function toPlatformStatus(serverStatus: ServerStateInfo['status']): PlatformDetectionStatus {
+  switch (serverStatus) {
+    case 'ready':
+      return 'detected';
+    case 'error':
+      return 'server-error';
+    default:
+      return serverStatus;
+  }
 }
 
 export function usePlatformDetection(): PlatformDetectionState {
-  const [state, setState] = useState<PlatformDetectionState>({
+  const [attempt, setAttempt] = useState(0);
+  const [state, setState] = useState<DetectionResult>({
     status: 'detecting',
     client: null,
     extensionId: null,
+    serverState: null,
     error: null,
   });
 
   useEffect(() => {
     let mounted = true;
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const checkServerState = async (client: ExtensionClient) => {
+      let serverState: ServerStateInfo;
+      try {
+        serverState = await client.serverState();
+      } catch (error) {
+        serverState = {
+          status: 'unreachable',
+          error: { message: error instanceof Error ? error.message : String(error) },
+        };
+      }
+
+      if (!mounted) return;
+
+      setState({
+        status: toPlatformStatus(serverState.status),
+        client,
+        extensionId: client.getExtensionId(),
+        serverState,
+        error: serverState.error?.message ?? null,
+      });
+
+      if (serverState.status !== 'ready') {
+        pollTimer = setTimeout(() => checkServerState(client), SERVER_POLL_INTERVAL);
+      }
+    };
 
     const detectExtension = async () => {
       try {
@@ -30,20 +87,16 @@ export function usePlatformDetection(): PlatformDetectionState {
         
         if (!mounted) return;
 
-        setState({
-          status: 'detected',
-          client,
-          extensionId: client.getExtensionId(),
-          error: null,
-        });
+        await checkServerState(client);
       } catch (error) {
         if (!mounted) return;
         
         const errorMessage = error instanceof Error ? error.message : String(error);
         setState({
-          status: 'error',
+          status: error instanceof ExtensionTimeoutError ? 'timeout' : 'error',
           client: null,
           extensionId: null,
+          serverState: null,
           error: errorMessage,
         });
       }
@@ -53,8 +106,11 @@ export function usePlatformDetection(): PlatformDetectionState {
 
     return () => {
       mounted = false;
+      clearTimeout(pollTimer);
     };
-  }, []);
+  }, [attempt]);
 
-  return state;
-}
\ No newline at end of file
+  const retry = useCallback(() => setAttempt(prev => prev + 1), []);
+
+  return { ...state, retry };
+}
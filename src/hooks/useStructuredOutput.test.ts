@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useStructuredOutput } from '@/hooks/useStructuredOutput';
+import { BodhiApiClient } from '@/lib/bodhi-api';
+import { ExtensionClientImpl } from '@/lib/extension-client';
+import { installMockBodhiext } from '@/lib/mock-bodhiext';
+
+function createApi(): BodhiApiClient {
+  installMockBodhiext();
+  return new BodhiApiClient(new ExtensionClientImpl('mock-bodhiext'));
+}
+
+const request = {
+  model: 'mock-model',
+  messages: [{ role: 'user' as const, content: 'List items' }],
+  schema: { type: 'array', items: { type: 'object', properties: { item: { type: 'string' } } } },
+};
+
+describe('useStructuredOutput', () => {
+  it('records each attempt and the validated data', async () => {
+    const api = createApi();
+    const { result } = renderHook(() => useStructuredOutput(api));
+
+    await act(() => result.current.run(request));
+
+    expect(result.current.running).toBe(false);
+    expect(result.current.hasData).toBe(true);
+    expect(result.current.data).toEqual([{ item: 'mock' }]);
+    expect(result.current.attempts).toHaveLength(1);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('reports the last validation errors when no reply matches', async () => {
+    const api = createApi();
+    const { result } = renderHook(() => useStructuredOutput(api));
+
+    // json_object mode: the mock replies with an object, which never matches an array schema
+    await act(() => result.current.run({ ...request, mode: 'json_object', maxRetries: 1 }));
+
+    expect(result.current.hasData).toBe(false);
+    expect(result.current.attempts).toHaveLength(2);
+    expect(result.current.error).toMatch(/^No valid response after 2 attempts: \$: /);
+  });
+});
@@ -0,0 +1,76 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { requestStructuredOutput } from '@/lib/structured-output';
+import type { BodhiApiClient } from '@/lib/bodhi-api';
+import type { StructuredAttempt, StructuredOutputRequest } from '@/types/structured';
+import { RequestAbortedError } from '@/types/extension';
+import { StructuredOutputError } from '@/types/structured';
+
+export interface StructuredOutputState {
+  running: boolean;
+  // Replies so far, including failed ones, in order
+  attempts: StructuredAttempt[];
+  data: unknown;
+  // Set once a run produced valid data; data itself may be null
+  hasData: boolean;
+  error: string | null;
+  run: (request: StructuredOutputRequest) => Promise<void>;
+  cancel: () => void;
+}
+
+export function useStructuredOutput(api: BodhiApiClient | null): StructuredOutputState {
+  const [running, setRunning] = useState(false);
+  const [attempts, setAttempts] = useState<StructuredAttempt[]>([]);
+  const [data, setData] = useState<unknown>(null);
+  const [hasData, setHasData] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const run = useCallback(async (request: StructuredOutputRequest) => {
+    if (!api) return;
+
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    // A superseded run must not overwrite the one that replaced it
+    const isCurrent = () => abortControllerRef.current === abortController;
+
+    setRunning(true);
+    setAttempts([]);
+    setData(null);
+    setHasData(false);
+    setError(null);
+
+    try {
+      const result = await requestStructuredOutput(api, request, {
+        signal: abortController.signal,
+        onAttempt: attempt => {
+          if (isCurrent()) setAttempts(prev => [...prev, attempt]);
+        },
+      });
+      if (!isCurrent()) return;
+      setData(result.data);
+      setHasData(true);
+    } catch (error) {
+      if (!isCurrent() || error instanceof RequestAbortedError) return;
+      if (!(error instanceof StructuredOutputError)) {
+        console.error('Structured output request failed:', error);
+      }
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      if (isCurrent()) {
+        abortControllerRef.current = null;
+        setRunning(false);
+      }
+    }
+  }, [api]);
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setRunning(false);
+  }, []);
+
+  return { running, attempts, data, hasData, error, run, cancel };
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { checkAccess, hasRole } from '@/lib/access';
+import type { TokenClaims, UserInfo } from '@/types/auth';
+
+const claims: TokenClaims = {
+  subject: 'user-123',
+  issuer: null,
+  expiresAt: null,
+  issuedAt: null,
+  scopes: ['openid', 'scope_user_user'],
+  roles: ['resource_power_user'],
+  resourceScope: null,
+  email: null,
+};
+
+const userInfo: UserInfo = { email: 'user@example.com', role: 'resource_user', tokenType: 'Bearer', loggedIn: true };
+
+describe('hasRole', () => {
+  it('lets higher Bodhi roles satisfy lower ones', () => {
+    expect(hasRole(['resource_admin'], 'resource_user')).toBe(true);
+    expect(hasRole(['resource_power_user'], 'resource_power_user')).toBe(true);
+    expect(hasRole(['resource_power_user'], 'resource_manager')).toBe(false);
+  });
+
+  it('matches roles outside the hierarchy exactly', () => {
+    expect(hasRole(['beta-tester'], 'beta-tester')).toBe(true);
+    expect(hasRole(['resource_admin'], 'beta-tester')).toBe(false);
+  });
+});
+
+describe('checkAccess', () => {
+  it('denies anonymous users', () => {
+    expect(checkAccess(null, null, {})).toEqual({ allowed: false, missing: ['Log in to use this feature'] });
+  });
+
+  it('allows when the role and every scope are present', () => {
+    expect(checkAccess(claims, userInfo, { role: 'resource_user', scopes: ['scope_user_user'] }))
+      .toEqual({ allowed: true, missing: [] });
+  });
+
+  it('uses the role from user info when the token has none', () => {
+    expect(checkAccess(null, { ...userInfo, role: 'resource_admin' }, { role: 'resource_manager' }).allowed).toBe(true);
+  });
+
+  it('lists every missing role and scope', () => {
+    expect(checkAccess(claims, userInfo, { role: 'resource_admin', scopes: ['openid', 'scope_user_admin'] })).toEqual({
+      allowed: false,
+      missing: ['Requires the resource_admin role', 'Requires the scope_user_admin scope'],
+    });
+  });
+});
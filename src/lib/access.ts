@@ -0,0 +1,50 @@
+import type { AccessCheck, AccessRequirement, TokenClaims, UserInfo } from '@/types/auth';
+
+// Bodhi resource roles, lowest first; each includes the permissions of those before it
+export const ROLE_HIERARCHY = [
+  'resource_user',
+  'resource_power_user',
+  'resource_manager',
+  'resource_admin',
+] as const;
+
+// The server requires this role to pull models and edit aliases
+export const MODEL_MANAGEMENT_ROLE = 'resource_power_user';
+
+function roleRank(role: string): number {
+  return ROLE_HIERARCHY.indexOf(role as (typeof ROLE_HIERARCHY)[number]);
+}
+
+export function hasRole(userRoles: string[], required: string): boolean {
+  const requiredRank = roleRank(required);
+  if (requiredRank === -1) {
+    return userRoles.includes(required);
+  }
+  return userRoles.some(role => roleRank(role) >= requiredRank);
+}
+
+// Roles come from the token claims and the /bodhi/v1/user response, whichever has them
+export function checkAccess(
+  claims: TokenClaims | null,
+  userInfo: UserInfo | null,
+  requirement: AccessRequirement
+): AccessCheck {
+  if (!claims && !userInfo) {
+    return { allowed: false, missing: ['Log in to use this feature'] };
+  }
+
+  const roles = [...(claims?.roles ?? []), ...(userInfo ? [userInfo.role] : [])];
+  const scopes = claims?.scopes ?? [];
+  const missing: string[] = [];
+
+  if (requirement.role && !hasRole(roles, requirement.role)) {
+    missing.push(`Requires the ${requirement.role} role`);
+  }
+  for (const scope of requirement.scopes ?? []) {
+    if (!scopes.includes(scope)) {
+      missing.push(`Requires the ${scope} scope`);
+    }
+  }
+
+  return { allowed: missing.length === 0, missing };
+}
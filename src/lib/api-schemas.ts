@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import type {
+  RequestAccessResponse,
+  UserResponse,
+  ModelList,
+  ChatCompletion,
+  ChatCompletionChunk,
+  EmbeddingResponse,
+  CompletionUsage,
+  ChatCompletionMessage,
+  ToolCall,
+  ToolCallDelta,
+  PaginatedResponse,
+  LocalModelFile,
+  AliasRequestParams,
+  ModelAlias,
+  ModelDownload
+} from '@/types/api';
+import type { ApiErrorBody } from '@/types/extension';
+
+// Schemas only check the fields the app relies on; unknown fields are dropped
+
+const chatRoleSchema = z.enum(['system', 'user', 'assistant', 'tool']);
+
+const usageSchema: z.ZodType<CompletionUsage> = z.object({
+  prompt_tokens: z.number(),
+  completion_tokens: z.number(),
+  total_tokens: z.number(),
+});
+
+const toolCallSchema: z.ZodType<ToolCall> = z.object({
+  id: z.string(),
+  type: z.literal('function'),
+  function: z.object({
+    name: z.string(),
+    arguments: z.string(),
+  }),
+});
+
+const toolCallDeltaSchema: z.ZodType<ToolCallDelta> = z.object({
+  index: z.number(),
+  id: z.string().optional(),
+  type: z.literal('function').optional(),
+  function: z.object({
+    name: z.string().optional(),
+    arguments: z.string().optional(),
+  }).optional(),
+});
+
+const messageSchema: z.ZodType<ChatCompletionMessage> = z.object({
+  role: chatRoleSchema,
+  content: z.string().nullable(),
+  tool_calls: z.array(toolCallSchema).optional(),
+  tool_call_id: z.string().optional(),
+});
+
+export const apiErrorBodySchema: z.ZodType<ApiErrorBody> = z.object({
+  message: z.string(),
+  type: z.string().optional(),
+  code: z.coerce.string().optional(),
+  param: z.string().optional(),
+});
+
+export const requestAccessResponseSchema: z.ZodType<RequestAccessResponse> = z.object({
+  scope: z.string().min(1),
+});
+
+export const userResponseSchema: z.ZodType<UserResponse> = z.object({
+  logged_in: z.boolean(),
+  email: z.string().optional(),
+  role: z.string().optional(),
+});
+
+export const modelListSchema: z.ZodType<ModelList> = z.object({
+  object: z.string(),
+  data: z.array(z.object({
+    id: z.string(),
+    object: z.string(),
+    created: z.number().optional(),
+    owned_by: z.string().optional(),
+  })),
+});
+
+export const chatCompletionSchema: z.ZodType<ChatCompletion> = z.object({
+  id: z.string(),
+  object: z.string(),
+  created: z.number(),
+  model: z.string(),
+  choices: z.array(z.object({
+    index: z.number(),
+    message: messageSchema,
+    finish_reason: z.string().nullable(),
+  })),
+  usage: usageSchema.optional(),
+});
+
+export const chatCompletionChunkSchema: z.ZodType<ChatCompletionChunk> = z.object({
+  id: z.string(),
+  object: z.string(),
+  created: z.number(),
+  model: z.string(),
+  choices: z.array(z.object({
+    index: z.number(),
+    delta: z.object({
+      role: chatRoleSchema.optional(),
+      content: z.string().nullable().optional(),
+      tool_calls: z.array(toolCallDeltaSchema).optional(),
+    }),
+    finish_reason: z.string().nullable(),
+  })),
+  usage: usageSchema.nullable().optional(),
+});
+
+export const embeddingResponseSchema: z.ZodType<EmbeddingResponse> = z.object({
+  object: z.string(),
+  data: z.array(z.object({
+    object: z.string(),
+    index: z.number(),
+    embedding: z.array(z.number()),
+  })),
+  model: z.string(),
+  usage: z.object({
+    prompt_tokens: z.number(),
+    total_tokens: z.number(),
+  }).optional(),
+});
+
+function paginatedSchema<T>(itemSchema: z.ZodType<T>): z.ZodType<PaginatedResponse<T>> {
+  return z.object({
+    data: z.array(itemSchema),
+    total: z.number(),
+    page: z.number(),
+    page_size: z.number(),
+  });
+}
+
+export const localModelFileListSchema = paginatedSchema<LocalModelFile>(z.object({
+  repo: z.string(),
+  filename: z.string(),
+  snapshot: z.string(),
+  size: z.number().nullable().optional(),
+}));
+
+const aliasRequestParamsSchema: z.ZodType<AliasRequestParams> = z.object({
+  temperature: z.number().optional(),
+  top_p: z.number().optional(),
+  max_tokens: z.number().optional(),
+  seed: z.number().optional(),
+  stop: z.array(z.string()).optional(),
+  frequency_penalty: z.number().optional(),
+  presence_penalty: z.number().optional(),
+});
+
+export const modelAliasSchema: z.ZodType<ModelAlias> = z.object({
+  alias: z.string(),
+  repo: z.string(),
+  filename: z.string(),
+  snapshot: z.string(),
+  source: z.string(),
+  request_params: aliasRequestParamsSchema.default({}),
+  context_params: z.array(z.string()).default([]),
+});
+
+export const modelAliasListSchema = paginatedSchema(modelAliasSchema);
+
+export const modelDownloadSchema: z.ZodType<ModelDownload> = z.object({
+  id: z.string(),
+  repo: z.string(),
+  filename: z.string(),
+  status: z.enum(['pending', 'completed', 'error']),
+  error: z.string().nullable().optional(),
+  total_bytes: z.number().nullable().optional(),
+  downloaded_bytes: z.number().nullable().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const modelDownloadListSchema = paginatedSchema(modelDownloadSchema);
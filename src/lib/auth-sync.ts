@@ -0,0 +1,47 @@
+import type { AuthEvent } from '@/types/auth';
+
+const CHANNEL_NAME = 'bodhi-auth';
+const REFRESH_LOCK_NAME = 'bodhi-token-refresh';
+
+// Relays auth events between tabs of the app. Tokens are never sent over the
+// channel: tabs sharing a backend (IndexedDB) reload them from storage, and
+// per-tab backends (session, memory) only follow logouts.
+export class AuthSyncChannel {
+  private channel: BroadcastChannel | null = null;
+  private onRemoteEvent: (event: AuthEvent) => void;
+
+  constructor(onRemoteEvent: (event: AuthEvent) => void) {
+    this.onRemoteEvent = onRemoteEvent;
+  }
+
+  // Opened lazily so importing the module has no side effects
+  private getChannel(): BroadcastChannel | null {
+    if (!this.channel && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (message: MessageEvent<AuthEvent>) => this.onRemoteEvent(message.data);
+    }
+    return this.channel;
+  }
+
+  connect(): void {
+    this.getChannel();
+  }
+
+  post(event: AuthEvent): void {
+    this.getChannel()?.postMessage(event);
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+  }
+}
+
+// Runs the task while holding a lock shared by all tabs, so only one of them
+// spends the refresh token. Browsers without the Web Locks API run it directly.
+export function withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return task();
+  }
+  return navigator.locks.request(REFRESH_LOCK_NAME, task);
+}
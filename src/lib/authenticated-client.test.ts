@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AuthenticatedClient } from '@/lib/authenticated-client';
+import { AuthRequiredError } from '@/types/auth';
+import type { AccessTokenProvider } from '@/types/auth';
+import type { ApiResponse, ExtensionClient, StreamChunk } from '@/types/extension';
+
+function createTokenProvider(): AccessTokenProvider {
+  return {
+    getValidAccessToken: vi.fn().mockResolvedValue('old-token'),
+    refreshAccessToken: vi.fn().mockResolvedValue('new-token'),
+    logout: vi.fn(),
+  };
+}
+
+function createClient(): ExtensionClient {
+  return {
+    getExtensionId: () => 'test',
+    sendApiRequest: vi.fn(),
+    sendStreamRequest: vi.fn(),
+    ping: vi.fn(),
+    serverState: vi.fn(),
+  };
+}
+
+function response(status: number): ApiResponse {
+  return { status, headers: {}, body: { status } };
+}
+
+// A stream that records whether the consumer closed it early
+function stream(chunks: StreamChunk[]) {
+  const closed = vi.fn();
+  const iterable = (async function* () {
+    try {
+      yield* chunks;
+    } finally {
+      closed();
+    }
+  })();
+  return { iterable, closed };
+}
+
+async function collect(chunks: AsyncIterable<StreamChunk>): Promise<StreamChunk[]> {
+  const received: StreamChunk[] = [];
+  for await (const chunk of chunks) received.push(chunk);
+  return received;
+}
+
+const authorization = (token: string) => ({ 'X-Debug': '1', Authorization: `Bearer ${token}` });
+
+describe('AuthenticatedClient', () => {
+  it('sends the current token and retries once with a refreshed one after a 401', async () => {
+    const client = createClient();
+    const tokens = createTokenProvider();
+    vi.mocked(client.sendApiRequest).mockResolvedValueOnce(response(401)).mockResolvedValueOnce(response(200));
+
+    const result = await new AuthenticatedClient(client, tokens).sendApiRequest('GET', '/v1/models', undefined, { 'X-Debug': '1' });
+
+    expect(result.status).toBe(200);
+    expect(vi.mocked(client.sendApiRequest).mock.calls.map(call => call[3])).toEqual([
+      authorization('old-token'),
+      authorization('new-token'),
+    ]);
+    expect(tokens.refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(tokens.logout).not.toHaveBeenCalled();
+  });
+
+  it('logs out when the refreshed token is rejected too', async () => {
+    const client = createClient();
+    const tokens = createTokenProvider();
+    vi.mocked(client.sendApiRequest).mockResolvedValue(response(401));
+
+    const request = new AuthenticatedClient(client, tokens).sendApiRequest('GET', '/v1/models');
+
+    await expect(request).rejects.toThrow(new AuthRequiredError('The server rejected your session. Please log in again.'));
+    expect(client.sendApiRequest).toHaveBeenCalledTimes(2);
+    expect(tokens.logout).toHaveBeenCalledWith('The server rejected your session. Please log in again.');
+  });
+
+  it('reports a failed refresh as requiring a new login', async () => {
+    const client = createClient();
+    const tokens = createTokenProvider();
+    const failure = new Error('Token refresh failed: 400');
+    vi.mocked(tokens.refreshAccessToken).mockRejectedValue(failure);
+    vi.mocked(client.sendApiRequest).mockResolvedValue(response(401));
+
+    const request = new AuthenticatedClient(client, tokens).sendApiRequest('GET', '/v1/models');
+
+    await expect(request).rejects.toSatisfy(error =>
+      error instanceof AuthRequiredError && error.message === failure.message && error.cause === failure
+    );
+    expect(client.sendApiRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('requires a login without sending when there is no token', async () => {
+    const client = createClient();
+    const tokens = createTokenProvider();
+    vi.mocked(tokens.getValidAccessToken).mockResolvedValue(null);
+
+    await expect(new AuthenticatedClient(client, tokens).sendApiRequest('GET', '/v1/models')).rejects.toBeInstanceOf(AuthRequiredError);
+    expect(client.sendApiRequest).not.toHaveBeenCalled();
+  });
+
+  it('replays the first chunk it peeked at', async () => {
+    const client = createClient();
+    const chunks = [{ status: 200, body: 'a' }, { status: 200, body: 'b' }];
+    vi.mocked(client.sendStreamRequest).mockResolvedValue(stream(chunks).iterable);
+
+    const result = await new AuthenticatedClient(client, createTokenProvider()).sendStreamRequest('POST', '/v1/chat/completions');
+
+    expect(await collect(result)).toEqual(chunks);
+    expect(client.sendStreamRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('closes a stream rejected with 401 and retries it with a refreshed token', async () => {
+    const client = createClient();
+    const tokens = createTokenProvider();
+    const rejected = stream([{ status: 401, body: { error: 'expired' } }, { status: 401, body: 'unused' }]);
+    const accepted = stream([{ status: 200, body: 'a' }]);
+    vi.mocked(client.sendStreamRequest).mockResolvedValueOnce(rejected.iterable).mockResolvedValueOnce(accepted.iterable);
+
+    const result = await new AuthenticatedClient(client, tokens).sendStreamRequest('POST', '/v1/chat/completions', {}, { 'X-Debug': '1' });
+
+    expect(rejected.closed).toHaveBeenCalled();
+    expect(await collect(result)).toEqual([{ status: 200, body: 'a' }]);
+    expect(vi.mocked(client.sendStreamRequest).mock.calls[1][3]).toEqual(authorization('new-token'));
+  });
+
+  it('logs out when a retried stream is rejected too', async () => {
+    const client = createClient();
+    const tokens = createTokenProvider();
+    const second = stream([{ status: 401, body: null }]);
+    vi.mocked(client.sendStreamRequest)
+      .mockResolvedValueOnce(stream([{ status: 401, body: null }]).iterable)
+      .mockResolvedValueOnce(second.iterable);
+
+    await expect(new AuthenticatedClient(client, tokens).sendStreamRequest('POST', '/v1/chat/completions'))
+      .rejects.toBeInstanceOf(AuthRequiredError);
+    expect(second.closed).toHaveBeenCalled();
+    expect(tokens.logout).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,146 @@
+import type {
+  ExtensionClient,
+  ApiResponse,
+  StreamChunk,
+  ServerStateInfo,
+  RequestOptions
+} from '@/types/extension';
+import type { AccessTokenProvider } from '@/types/auth';
+import { AuthRequiredError } from '@/types/auth';
+
+const UNAUTHORIZED = 401;
+
+// Re-yields an already consumed first chunk followed by the rest of the stream
+async function* replayStream(
+  first: IteratorResult<StreamChunk>,
+  iterator: AsyncIterator<StreamChunk>
+): AsyncGenerator<StreamChunk> {
+  let completed = first.done ?? false;
+  try {
+    if (completed) return;
+    yield first.value;
+    while (true) {
+      const next = await iterator.next();
+      if (next.done) {
+        completed = true;
+        return;
+      }
+      yield next.value;
+    }
+  } finally {
+    if (!completed) {
+      await iterator.return?.();
+    }
+  }
+}
+
+export class AuthenticatedClient implements ExtensionClient {
+  private client: ExtensionClient;
+  private tokenProvider: AccessTokenProvider;
+
+  constructor(client: ExtensionClient, tokenProvider: AccessTokenProvider) {
+    this.client = client;
+    this.tokenProvider = tokenProvider;
+  }
+
+  getExtensionId(): string {
+    return this.client.getExtensionId();
+  }
+
+  async sendApiRequest(
+    method: string,
+    endpoint: string,
+    body?: unknown,
+    headers?: Record<string, string>,
+    options?: RequestOptions
+  ): Promise<ApiResponse> {
+    const send = (token: string) =>
+      this.client.sendApiRequest(method, endpoint, body, this.withAuthorization(headers, token), options);
+
+    const response = await send(await this.getToken());
+    if (response.status !== UNAUTHORIZED) {
+      return response;
+    }
+
+    const retried = await send(await this.refreshToken());
+    if (retried.status === UNAUTHORIZED) {
+      this.rejectSession();
+    }
+    return retried;
+  }
+
+  async sendStreamRequest(
+    method: string,
+    endpoint: string,
+    body?: unknown,
+    headers?: Record<string, string>,
+    options?: RequestOptions
+  ): Promise<AsyncIterable<StreamChunk>> {
+    // A rejected token surfaces as the status of the first chunk, so peek at it
+    // before handing the stream to the caller
+    const send = async (token: string) => {
+      const stream = await this.client.sendStreamRequest(
+        method,
+        endpoint,
+        body,
+        this.withAuthorization(headers, token),
+        options
+      );
+      const iterator = stream[Symbol.asyncIterator]();
+      const first = await iterator.next();
+      return { first, iterator };
+    };
+
+    let { first, iterator } = await send(await this.getToken());
+    if (!first.done && first.value.status === UNAUTHORIZED) {
+      await iterator.return?.();
+      ({ first, iterator } = await send(await this.refreshToken()));
+      if (!first.done && first.value.status === UNAUTHORIZED) {
+        await iterator.return?.();
+        this.rejectSession();
+      }
+    }
+
+    return replayStream(first, iterator);
+  }
+
+  async ping(): Promise<{ message: string }> {
+    return this.client.ping();
+  }
+
+  async serverState(): Promise<ServerStateInfo> {
+    return this.client.serverState();
+  }
+
+  private withAuthorization(
+    headers: Record<string, string> | undefined,
+    token: string
+  ): Record<string, string> {
+    return { ...headers, Authorization: `Bearer ${token}` };
+  }
+
+  private async getToken(): Promise<string> {
+    const token = await this.tokenProvider.getValidAccessToken();
+    if (!token) {
+      throw new AuthRequiredError();
+    }
+    return token;
+  }
+
+  private async refreshToken(): Promise<string> {
+    try {
+      return await this.tokenProvider.refreshAccessToken();
+    } catch (error) {
+      throw new AuthRequiredError(
+        error instanceof Error ? error.message : undefined,
+        error
+      );
+    }
+  }
+
+  private rejectSession(): never {
+    const reason = 'The server rejected your session. Please log in again.';
+    this.tokenProvider.logout(reason);
+    throw new AuthRequiredError(reason);
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { BodhiApiClient, toApiErrorBody } from '@/lib/bodhi-api';
+import { ExtensionClientImpl } from '@/lib/extension-client';
+import { installMockBodhiext, type MockBodhiextOptions } from '@/lib/mock-bodhiext';
+import { ApiError, ApiValidationError } from '@/types/api';
+
+function createApi(options: MockBodhiextOptions = {}): BodhiApiClient {
+  installMockBodhiext(options);
+  return new BodhiApiClient(new ExtensionClientImpl('mock-bodhiext'));
+}
+
+describe('BodhiApiClient', () => {
+  it('requests resource access', async () => {
+    await expect(createApi().requestAccess('app-client')).resolves.toEqual({ scope: 'scope_resource_mock' });
+  });
+
+  it('fetches the current user', async () => {
+    const user = await createApi().getUser();
+
+    expect(user).toEqual({ logged_in: true, email: 'mock.user@example.com', role: 'resource_user' });
+  });
+
+  it('lists models', async () => {
+    const models = await createApi({ models: ['llama3'] }).listModels();
+
+    expect(models.data.map(model => model.id)).toEqual(['llama3']);
+  });
+
+  it('creates a non-streaming chat completion', async () => {
+    const completion = await createApi().createChatCompletion({
+      model: 'llama3',
+      messages: [{ role: 'user', content: 'hello' }],
+    });
+
+    expect(completion.choices[0].message.content).toContain('hello');
+    expect(completion.usage?.total_tokens).toBeGreaterThan(0);
+  });
+
+  it('streams validated chat completion chunks', async () => {
+    const stream = await createApi().streamChatCompletion({
+      model: 'llama3',
+      messages: [{ role: 'user', content: 'hello' }],
+    });
+
+    let content = '';
+    for await (const chunk of stream) {
+      content += chunk.choices[0]?.delta.content ?? '';
+    }
+    expect(content).toContain('You said: "hello"');
+  });
+
+  it('creates embeddings', async () => {
+    const response = await createApi().createEmbeddings({ model: 'embed', input: ['a', 'b'] });
+
+    expect(response.data).toHaveLength(2);
+    expect(response.data[0].embedding.length).toBeGreaterThan(0);
+  });
+
+  it('manages model aliases', async () => {
+    const api = createApi({ models: ['llama3'] });
+    const [file] = (await api.listModelFiles()).data;
+
+    await api.createModelAlias({
+      alias: 'fast',
+      repo: file.repo,
+      filename: file.filename,
+      request_params: { temperature: 0.2 },
+      context_params: ['--ctx-size 2048'],
+    });
+    const updated = await api.updateModelAlias({
+      alias: 'fast',
+      repo: file.repo,
+      filename: file.filename,
+      request_params: { temperature: 0.5 },
+      context_params: [],
+    });
+
+    expect(updated.request_params).toEqual({ temperature: 0.5 });
+    expect((await api.listModelAliases()).data.map(alias => alias.alias)).toEqual(['llama3', 'fast']);
+  });
+
+  it('starts a model pull and reports its progress', async () => {
+    const api = createApi({ models: [] });
+
+    const download = await api.pullModel({ repo: 'owner/model-GGUF', filename: 'model.Q4_K_M.gguf' });
+    const { data } = await api.listModelDownloads();
+
+    expect(download).toMatchObject({ status: 'pending', downloaded_bytes: 0 });
+    expect(data[0].id).toBe(download.id);
+    expect(data[0].downloaded_bytes).toBeGreaterThan(0);
+  });
+
+  it('turns non-2xx responses into ApiError', async () => {
+    const api = createApi({
+      responses: {
+        'GET /v1/models': {
+          status: 403,
+          headers: {},
+          body: { error: { message: 'Forbidden', type: 'forbidden_error', code: 'insufficient_scope' } },
+        },
+      },
+    });
+
+    const error = await api.listModels().catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 403, message: 'Forbidden', type: 'forbidden_error', code: 'insufficient_scope' });
+  });
+
+  it('turns streamed error chunks into ApiError', async () => {
+    const stream = await createApi({ errorStatus: 500 }).streamChatCompletion({ model: 'm', messages: [] });
+
+    await expect(async () => {
+      for await (const chunk of stream) void chunk;
+    }).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it('rejects responses that do not match the schema', async () => {
+    const api = createApi({
+      responses: {
+        'POST /bodhi/v1/auth/request-access': { status: 200, headers: {}, body: { scope: 42 } },
+      },
+    });
+
+    const error = await api.requestAccess('app-client').catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiValidationError);
+    expect(error.issues[0]).toContain('scope');
+  });
+});
+
+describe('toApiErrorBody', () => {
+  it('accepts OpenAI, flat and plain-text error shapes', () => {
+    expect(toApiErrorBody(400, { error: { message: 'bad', param: 'model' } })).toEqual({ message: 'bad', param: 'model' });
+    expect(toApiErrorBody(400, { message: 'flat' })).toEqual({ message: 'flat' });
+    expect(toApiErrorBody(502, 'Bad Gateway')).toEqual({ message: 'Bad Gateway' });
+    expect(toApiErrorBody(500, null)).toEqual({ message: 'Request failed with status 500' });
+  });
+});
@@ -0,0 +1,182 @@
+import type { z } from 'zod';
+import type { ExtensionClient, ApiErrorBody, StreamChunk, RequestOptions } from '@/types/extension';
+import type {
+  RequestAccessResponse,
+  UserResponse,
+  ModelList,
+  ChatCompletionRequest,
+  ChatCompletion,
+  ChatCompletionChunk,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  PaginatedResponse,
+  LocalModelFile,
+  ModelAlias,
+  ModelAliasRequest,
+  ModelDownload,
+  PullModelRequest
+} from '@/types/api';
+import { ApiError, ApiValidationError } from '@/types/api';
+import {
+  apiErrorBodySchema,
+  requestAccessResponseSchema,
+  userResponseSchema,
+  modelListSchema,
+  chatCompletionSchema,
+  chatCompletionChunkSchema,
+  embeddingResponseSchema,
+  localModelFileListSchema,
+  modelAliasSchema,
+  modelAliasListSchema,
+  modelDownloadSchema,
+  modelDownloadListSchema
+} from '@/lib/api-schemas';
+
+// Large enough that a local server's lists fit on one page
+const LIST_PAGE_SIZE = 100;
+
+function isSuccess(status: number | undefined): boolean {
+  return status === undefined || (status >= 200 && status < 300);
+}
+
+// Normalises the error shapes the server and extension return into ApiErrorBody
+export function toApiErrorBody(status: number, body: unknown): ApiErrorBody {
+  const candidate = (body as { error?: unknown })?.error ?? body;
+  const parsed = apiErrorBodySchema.safeParse(candidate);
+  if (parsed.success) {
+    return parsed.data;
+  }
+  if (typeof candidate === 'string' && candidate) {
+    return { message: candidate };
+  }
+  return { message: `Request failed with status ${status}` };
+}
+
+function validate<T>(schema: z.ZodType<T>, body: unknown, endpoint: string): T {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ApiValidationError(
+      endpoint,
+      result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
+
+export function parseChatCompletionStream(
+  stream: AsyncIterable<StreamChunk>
+): AsyncGenerator<ChatCompletionChunk> {
+  return validateStream(stream, chatCompletionChunkSchema, '/v1/chat/completions');
+}
+
+async function* validateStream<T>(
+  stream: AsyncIterable<StreamChunk>,
+  schema: z.ZodType<T>,
+  endpoint: string
+): AsyncGenerator<T> {
+  for await (const chunk of stream) {
+    if (!isSuccess(chunk.status)) {
+      throw new ApiError(chunk.status!, toApiErrorBody(chunk.status!, chunk.body));
+    }
+    // Some servers forward the SSE terminator as a chunk of its own
+    if (chunk.body === undefined || chunk.body === '[DONE]') {
+      continue;
+    }
+    yield validate(schema, chunk.body, endpoint);
+  }
+}
+
+export class BodhiApiClient {
+  private client: ExtensionClient;
+
+  constructor(client: ExtensionClient) {
+    this.client = client;
+  }
+
+  async requestAccess(appClientId: string, options?: RequestOptions): Promise<RequestAccessResponse> {
+    return this.request('POST', '/bodhi/v1/auth/request-access', requestAccessResponseSchema, {
+      app_client_id: appClientId,
+    }, options);
+  }
+
+  async getUser(options?: RequestOptions): Promise<UserResponse> {
+    return this.request('GET', '/bodhi/v1/user', userResponseSchema, undefined, options);
+  }
+
+  async listModels(options?: RequestOptions): Promise<ModelList> {
+    return this.request('GET', '/v1/models', modelListSchema, undefined, options);
+  }
+
+  async createChatCompletion(
+    request: ChatCompletionRequest,
+    options?: RequestOptions
+  ): Promise<ChatCompletion> {
+    return this.request('POST', '/v1/chat/completions', chatCompletionSchema, {
+      ...request,
+      stream: false,
+    }, options);
+  }
+
+  async streamChatCompletion(
+    request: ChatCompletionRequest,
+    options?: RequestOptions
+  ): Promise<AsyncIterable<ChatCompletionChunk>> {
+    const endpoint = '/v1/chat/completions';
+    const stream = await this.client.sendStreamRequest(
+      'POST',
+      endpoint,
+      { ...request, stream: true },
+      undefined,
+      options
+    );
+    return parseChatCompletionStream(stream);
+  }
+
+  async createEmbeddings(request: EmbeddingRequest, options?: RequestOptions): Promise<EmbeddingResponse> {
+    return this.request('POST', '/v1/embeddings', embeddingResponseSchema, request, options);
+  }
+
+  async listModelFiles(options?: RequestOptions): Promise<PaginatedResponse<LocalModelFile>> {
+    return this.request('GET', `/bodhi/v1/modelfiles?page=1&page_size=${LIST_PAGE_SIZE}`, localModelFileListSchema, undefined, options);
+  }
+
+  async listModelAliases(options?: RequestOptions): Promise<PaginatedResponse<ModelAlias>> {
+    return this.request('GET', `/bodhi/v1/models?page=1&page_size=${LIST_PAGE_SIZE}`, modelAliasListSchema, undefined, options);
+  }
+
+  async createModelAlias(request: ModelAliasRequest, options?: RequestOptions): Promise<ModelAlias> {
+    return this.request('POST', '/bodhi/v1/models', modelAliasSchema, request, options);
+  }
+
+  async updateModelAlias(request: ModelAliasRequest, options?: RequestOptions): Promise<ModelAlias> {
+    return this.request(
+      'PUT',
+      `/bodhi/v1/models/${encodeURIComponent(request.alias)}`,
+      modelAliasSchema,
+      request,
+      options
+    );
+  }
+
+  async pullModel(request: PullModelRequest, options?: RequestOptions): Promise<ModelDownload> {
+    return this.request('POST', '/bodhi/v1/modelfiles/pull', modelDownloadSchema, request, options);
+  }
+
+  async listModelDownloads(options?: RequestOptions): Promise<PaginatedResponse<ModelDownload>> {
+    return this.request('GET', `/bodhi/v1/modelfiles/pull?page=1&page_size=${LIST_PAGE_SIZE}`, modelDownloadListSchema, undefined, options);
+  }
+
+  private async request<T>(
+    method: string,
+    endpoint: string,
+    schema: z.ZodType<T>,
+    body?: unknown,
+    options?: RequestOptions
+  ): Promise<T> {
+    const response = await this.client.sendApiRequest(method, endpoint, body, undefined, options);
+    if (!isSuccess(response.status)) {
+      throw new ApiError(response.status, toApiErrorBody(response.status, response.body));
+    }
+    return validate(schema, response.body, endpoint);
+  }
+}
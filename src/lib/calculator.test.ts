@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateExpression } from '@/lib/calculator';
+import { ToolError } from '@/types/tools';
+
+describe('evaluateExpression', () => {
+  it('follows operator precedence and parentheses', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+    expect(evaluateExpression('10 - 4 - 3')).toBe(3);
+    expect(evaluateExpression('17 % 5 / 2')).toBe(1);
+  });
+
+  it('treats ^ and ** as right-associative powers that bind tighter than unary minus', () => {
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluateExpression('2 ** 10')).toBe(1024);
+    expect(evaluateExpression('-2 ^ 2')).toBe(-4);
+    expect(evaluateExpression('2 ^ -1')).toBe(0.5);
+  });
+
+  it('supports constants, functions and scientific notation', () => {
+    expect(evaluateExpression('sqrt(16) + max(1, 7, 3)')).toBe(11);
+    expect(evaluateExpression('round(PI * 100)')).toBe(314);
+    expect(evaluateExpression('1.5e3 + .5')).toBe(1500.5);
+  });
+
+  it('rejects anything that is not arithmetic', () => {
+    expect(() => evaluateExpression('alert(1)')).toThrow(ToolError);
+    expect(() => evaluateExpression('2 +')).toThrow('Unexpected end of expression');
+    expect(() => evaluateExpression('(1 + 2')).toThrow('Expected ")"');
+    expect(() => evaluateExpression('1 2')).toThrow('Unexpected "2"');
+    expect(() => evaluateExpression('1; 2')).toThrow('Unexpected character ";"');
+    expect(() => evaluateExpression('  ')).toThrow('Empty expression');
+  });
+});
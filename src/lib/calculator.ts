@@ -0,0 +1,141 @@
+import { ToolError } from '@/types/tools';
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  exp: Math.exp,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'operator'; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),]))/iy;
+  let position = 0;
+  while (position < expression.length) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(expression);
+    if (!match) {
+      if (!expression.slice(position).trim()) break;
+      throw new ToolError(`Unexpected character "${expression.slice(position).trim()[0]}"`);
+    }
+    position = pattern.lastIndex;
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: Number(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    else tokens.push({ type: 'operator', value: match[3] === '**' ? '^' : match[3] });
+  }
+  return tokens;
+}
+
+// Evaluates arithmetic without eval: + - * / % ^, parentheses, the constants pi
+// and e, and Math functions such as sqrt(2) or max(1, 2)
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (value: string) => peek()?.type === 'operator' && peek()?.value === value;
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new ToolError(`Expected "${value}"`);
+    index++;
+  };
+
+  // Lowest precedence first; ^ is right-associative and binds tighter than unary minus
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (isOperator('+') || isOperator('-')) {
+      const operator = tokens[index++].value;
+      const right = parseProduct();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (isOperator('*') || isOperator('/') || isOperator('%')) {
+      const operator = tokens[index++].value;
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (isOperator('-')) {
+      index++;
+      return -parseUnary();
+    }
+    if (isOperator('+')) {
+      index++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (isOperator('^')) {
+      index++;
+      return base ** parseUnary();
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = tokens[index++];
+    if (!token) throw new ToolError('Unexpected end of expression');
+    if (token.type === 'number') return token.value;
+    if (token.type === 'operator') {
+      if (token.value !== '(') throw new ToolError(`Unexpected "${token.value}"`);
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+
+    const fn = FUNCTIONS[token.value];
+    if (fn) {
+      expect('(');
+      const args = [parseSum()];
+      while (isOperator(',')) {
+        index++;
+        args.push(parseSum());
+      }
+      expect(')');
+      return fn(...args);
+    }
+    if (token.value in CONSTANTS) return CONSTANTS[token.value];
+    throw new ToolError(`Unknown name "${token.value}"`);
+  };
+
+  if (tokens.length === 0) throw new ToolError('Empty expression');
+  const result = parseSum();
+  if (index < tokens.length) {
+    throw new ToolError(`Unexpected "${String(tokens[index].value)}"`);
+  }
+  return result;
+}
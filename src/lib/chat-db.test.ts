@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { migrateLegacyChat } from '@/lib/chat-db';
+import { getActiveMessages } from '@/lib/message-tree';
+
+describe('migrateLegacyChat', () => {
+  const base = { id: 'chat-1', title: 'Hi', model: 'llama3', settings: {}, createdAt: 1, updatedAt: 2 };
+
+  it('converts a flat message list into a message tree', () => {
+    const messages = [
+      { role: 'user' as const, content: 'hi' },
+      { role: 'assistant' as const, content: 'hello' },
+    ];
+
+    const chat = migrateLegacyChat({ ...base, messages });
+
+    expect(chat).not.toHaveProperty('messages');
+    expect(getActiveMessages(chat.tree)).toEqual(messages);
+  });
+
+  it('leaves chats that already have a tree untouched', () => {
+    const chat = { ...base, tree: { nodes: {}, rootIds: [], activeRootId: null } };
+
+    expect(migrateLegacyChat(chat)).toBe(chat);
+  });
+});
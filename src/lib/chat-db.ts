@@ -0,0 +1,99 @@
+import { createMessageTree } from '@/lib/message-tree';
+import { requestToPromise } from '@/lib/idb';
+import type { Chat, Message } from '@/types/chat';
+
+const DB_NAME = 'bodhi-chat';
+// v2: chats store a message tree instead of a flat message list
+const DB_VERSION = 2;
+const CHATS_STORE = 'chats';
+
+type LegacyChat = Omit<Chat, 'tree'> & { messages: Message[] };
+
+export function migrateLegacyChat(chat: Chat | LegacyChat): Chat {
+  if ('tree' in chat) return chat;
+  const { messages, ...rest } = chat;
+  return { ...rest, tree: createMessageTree(messages) };
+}
+
+function migrateToMessageTrees(store: IDBObjectStore): void {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    cursor.update(migrateLegacyChat(cursor.value));
+    cursor.continue();
+  };
+}
+
+export class ChatDB {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = event => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(CHATS_STORE)) {
+            const store = db.createObjectStore(CHATS_STORE, { keyPath: 'id' });
+            store.createIndex('updatedAt', 'updatedAt');
+          }
+          if (event.oldVersion >= 1 && event.oldVersion < 2) {
+            migrateToMessageTrees(request.transaction!.objectStore(CHATS_STORE));
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(CHATS_STORE, mode).objectStore(CHATS_STORE);
+  }
+
+  async listChats(): Promise<Chat[]> {
+    const store = await this.store('readonly');
+    const chats = await requestToPromise(store.getAll() as IDBRequest<Chat[]>);
+    return chats.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async getChat(id: string): Promise<Chat | null> {
+    const store = await this.store('readonly');
+    const chat = await requestToPromise(store.get(id) as IDBRequest<Chat | undefined>);
+    return chat ?? null;
+  }
+
+  async saveChat(chat: Chat): Promise<void> {
+    const store = await this.store('readwrite');
+    await requestToPromise(store.put(chat));
+  }
+
+  // Writes all chats in one transaction so a failed import leaves nothing behind
+  async saveChats(chats: Chat[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(CHATS_STORE, 'readwrite');
+    const store = transaction.objectStore(CHATS_STORE);
+    for (const chat of chats) {
+      store.put(chat);
+    }
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async deleteChat(id: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await requestToPromise(store.delete(id));
+  }
+}
+
+export const chatDB = new ChatDB();
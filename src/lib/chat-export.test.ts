@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import {
+  dedupeImportedChats,
+  detectImportFormat,
+  exportChats,
+  getExportFilename,
+  parseChatImport,
+} from '@/lib/chat-export';
+import { appendMessage, createMessageTree, getActiveMessages } from '@/lib/message-tree';
+import { ChatImportError } from '@/types/chat';
+import type { Chat, Message } from '@/types/chat';
+
+const messages: Message[] = [
+  { role: 'user', content: 'What is 2 + 2?' },
+  {
+    role: 'assistant',
+    content: 'It is **4**.\n\n### Working\n\n2 + 2 = 4',
+    metadata: { model: 'llama3', finishReason: 'stop' },
+  },
+];
+
+function createChat(overrides: Partial<Chat> = {}): Chat {
+  return {
+    id: 'chat-1',
+    title: 'Maths question',
+    tree: createMessageTree(messages),
+    model: 'llama3',
+    settings: { systemPrompt: 'Be brief.', temperature: 0.2 },
+    createdAt: 1000,
+    updatedAt: 2000,
+    ...overrides,
+  };
+}
+
+function plain(chat: Chat): { role: string; content: string }[] {
+  return getActiveMessages(chat.tree).map(({ role, content }) => ({ role, content }));
+}
+
+describe('chat export', () => {
+  it('round-trips chats losslessly through JSON', () => {
+    const chat = createChat();
+    const { tree } = appendMessage(chat.tree, null, { role: 'user', content: 'alternative' });
+    const branched = { ...chat, tree };
+
+    const [imported] = parseChatImport(exportChats([branched], 'json'), 'json');
+
+    expect(imported).toEqual(branched);
+  });
+
+  it('round-trips the active branch and system prompt through Markdown', () => {
+    const markdown = exportChats([createChat()], 'markdown');
+
+    expect(markdown).toContain('# Maths question');
+    expect(markdown).toContain('### Assistant');
+
+    const [imported] = parseChatImport(markdown, 'markdown');
+    expect(imported.title).toBe('Maths question');
+    expect(imported.model).toBe('llama3');
+    expect(imported.settings).toEqual({ systemPrompt: 'Be brief.' });
+    expect(plain(imported)).toEqual(plain(createChat()));
+  });
+
+  it('keeps content that looks like an export marker through Markdown', () => {
+    const quoted = [
+      'The export separates messages with lines like',
+      '<!-- role: assistant -->',
+      '\\<!-- bodhi-chat -->',
+      'and <!-- bodhi-chat --> inline.',
+    ].join('\n');
+    const chat = createChat({ tree: createMessageTree([{ role: 'user', content: quoted }, messages[1]]) });
+
+    const [imported] = parseChatImport(exportChats([chat], 'markdown'), 'markdown');
+
+    expect(plain(imported)).toEqual(plain(chat));
+  });
+
+  it('writes one OpenAI messages object per chat to JSONL', () => {
+    const jsonl = exportChats([createChat(), createChat({ id: 'chat-2' })], 'jsonl');
+    const lines = jsonl.split('\n').map(line => JSON.parse(line));
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toEqual({
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'What is 2 + 2?' },
+        { role: 'assistant', content: messages[1].content },
+      ],
+    });
+
+    const imported = parseChatImport(jsonl, 'jsonl');
+    expect(imported).toHaveLength(2);
+    expect(imported[0].settings.systemPrompt).toBe('Be brief.');
+    expect(imported[0].title).toBe('What is 2 + 2?');
+  });
+
+  it('round-trips tool calls through JSONL as assistant and tool messages', () => {
+    const reply: Message = {
+      role: 'assistant',
+      content: 'It is 1024.',
+      metadata: {
+        toolCalls: [
+          { id: 'call-1', name: 'calculator', arguments: '{"expression":"2^10"}', result: '1024' },
+          { id: 'call-2', name: 'current_datetime', arguments: '{"timeZone":"Mars"}', error: 'Unknown time zone "Mars"' },
+        ],
+      },
+    };
+    const chat = createChat({ tree: createMessageTree([{ role: 'user', content: 'What is 2^10?' }, reply]) });
+
+    const jsonl = exportChats([chat], 'jsonl');
+    expect(JSON.parse(jsonl).messages.slice(2, 5)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          { id: 'call-1', type: 'function', function: { name: 'calculator', arguments: '{"expression":"2^10"}' } },
+          { id: 'call-2', type: 'function', function: { name: 'current_datetime', arguments: '{"timeZone":"Mars"}' } },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call-1', content: '1024' },
+      { role: 'tool', tool_call_id: 'call-2', content: 'Error: Unknown time zone "Mars"' },
+    ]);
+
+    const [imported] = parseChatImport(jsonl, 'jsonl');
+    expect(getActiveMessages(imported.tree)).toEqual([{ role: 'user', content: 'What is 2^10?' }, reply]);
+  });
+
+  it('derives a safe filename', () => {
+    expect(getExportFilename('markdown', createChat({ title: 'Hello, world!' }))).toBe('hello-world.md');
+    expect(getExportFilename('jsonl')).toMatch(/^bodhi-chats-\d{4}-\d{2}-\d{2}\.jsonl$/);
+  });
+});
+
+describe('chat import', () => {
+  it('detects the format from the file name or content', () => {
+    expect(detectImportFormat('', 'chats.jsonl')).toBe('jsonl');
+    expect(detectImportFormat(exportChats([createChat()], 'json'))).toBe('json');
+    expect(detectImportFormat(exportChats([createChat()], 'jsonl'))).toBe('jsonl');
+    expect(detectImportFormat(exportChats([createChat()], 'markdown'))).toBe('markdown');
+  });
+
+  it('rejects malformed files with the reasons', () => {
+    expect(() => parseChatImport('not json', 'json')).toThrow(ChatImportError);
+    expect(() => parseChatImport('{"format":"other"}', 'json')).toThrow(/format/);
+    expect(() => parseChatImport('{"messages":[]}\n{', 'jsonl')).toThrow(
+      expect.objectContaining({ issues: [expect.stringMatching(/^line 1: messages/), 'line 2: not valid JSON'] })
+    );
+    expect(() => parseChatImport('# Just notes', 'markdown')).toThrow(ChatImportError);
+  });
+
+  it('rejects trees with dangling references', () => {
+    const chat = createChat();
+    const broken = { ...chat, tree: { ...chat.tree, activeRootId: 'missing' } };
+
+    expect(() => parseChatImport(exportChats([broken], 'json'), 'json')).toThrow(/missing/);
+  });
+
+  it('rejects trees whose links disagree or form a cycle', () => {
+    const chat = createChat();
+    const nodes = chat.tree.nodes;
+    const [first] = chat.tree.rootIds;
+    const [second] = nodes[first].childIds;
+    const cyclic = {
+      ...chat,
+      tree: {
+        nodes: {
+          [first]: { ...nodes[first], parentId: second, childIds: [second], activeChildId: second },
+          [second]: { ...nodes[second], childIds: [first], activeChildId: first },
+        },
+        rootIds: [],
+        activeRootId: null,
+      },
+    };
+    // The active branch leads from the root back to itself
+    const looping = {
+      ...chat,
+      tree: { ...chat.tree, nodes: { ...nodes, [second]: { ...nodes[second], childIds: [first], activeChildId: first } } },
+    };
+    const misparented = {
+      ...chat,
+      tree: { ...chat.tree, nodes: { ...nodes, [second]: { ...nodes[second], parentId: null } } },
+    };
+
+    expect(() => parseChatImport(exportChats([cyclic], 'json'), 'json')).toThrow(/cycle/);
+    expect(() => parseChatImport(exportChats([looping], 'json'), 'json')).toThrow(/inconsistent/);
+    expect(() => parseChatImport(exportChats([misparented], 'json'), 'json')).toThrow(/inconsistent/);
+  });
+});
+
+describe('dedupeImportedChats', () => {
+  it('skips chats with a known id unless the import is newer', () => {
+    const existing = [createChat()];
+
+    expect(dedupeImportedChats(existing, [createChat()])).toEqual({ imported: [], skipped: 1 });
+
+    const newer = createChat({ updatedAt: 3000, title: 'Renamed' });
+    expect(dedupeImportedChats(existing, [newer])).toEqual({ imported: [newer], skipped: 0 });
+  });
+
+  it('skips chats with an identical conversation, including repeats within the import', () => {
+    const copy = createChat({ id: 'other' });
+    const fresh = createChat({ id: 'fresh', tree: createMessageTree([{ role: 'user', content: 'new' }]) });
+
+    const result = dedupeImportedChats([createChat()], [copy, fresh, { ...fresh, id: 'fresh-again' }]);
+
+    expect(result).toEqual({ imported: [fresh], skipped: 2 });
+  });
+});
@@ -0,0 +1,308 @@
+import type { z } from 'zod';
+import { chatExportSchema, openAIConversationSchema } from '@/lib/chat-schemas';
+import { generateChatTitle } from '@/lib/chat-history';
+import { createMessageTree, getActiveMessages } from '@/lib/message-tree';
+import { formatToolMessage, parseToolMessage } from '@/lib/tools';
+import type { ChatCompletionMessage } from '@/types/api';
+import { ChatImportError } from '@/types/chat';
+import type { Chat, ChatExportFormat, ChatImportResult, Message } from '@/types/chat';
+import type { ToolCallTrace } from '@/types/tools';
+
+const EXPORT_FORMAT = 'bodhi-chat-export';
+const EXPORT_VERSION = 1;
+
+// Markers keep the Markdown export readable while letting it be imported again.
+// Content lines that look like a marker get an extra leading backslash on export,
+// which the import removes again.
+const CHAT_MARKER = '<!-- bodhi-chat -->';
+const CHAT_MARKER_PATTERN = /^<!-- bodhi-chat -->$/m;
+const ROLE_MARKER_PATTERN = /^<!-- role: (system|user|assistant) -->$/;
+const MARKER_LINE_PATTERN = /^(\\*)(<!-- (?:bodhi-chat|role: \w+) -->)$/gm;
+
+const ROLE_HEADINGS: Record<Message['role'], string> = {
+  system: 'System',
+  user: 'User',
+  assistant: 'Assistant',
+};
+
+export const EXPORT_FILE_TYPES: Record<ChatExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  jsonl: { extension: 'jsonl', mimeType: 'application/jsonl' },
+};
+
+// The active branch as sent to the model, with the system prompt in front
+function toConversation(chat: Chat): Message[] {
+  const messages = getActiveMessages(chat.tree).map(({ role, content }) => ({ role, content }));
+  const systemPrompt = chat.settings.systemPrompt?.trim();
+  return systemPrompt ? [{ role: 'system', content: systemPrompt }, ...messages] : messages;
+}
+
+function exportJson(chats: Chat[]): string {
+  return JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    chats,
+  }, null, 2);
+}
+
+function escapeMarkers(content: string): string {
+  return content.replace(MARKER_LINE_PATTERN, '\\$1$2');
+}
+
+function unescapeMarkers(content: string): string {
+  return content.replace(MARKER_LINE_PATTERN, (line, backslashes: string, marker: string) =>
+    backslashes ? `${backslashes.slice(1)}${marker}` : line
+  );
+}
+
+function exportMarkdown(chats: Chat[]): string {
+  return chats.map(chat => {
+    const lines = [
+      CHAT_MARKER,
+      `# ${chat.title}`,
+      '',
+      `Model: \`${chat.model || 'unknown'}\` · Created: ${new Date(chat.createdAt).toISOString()}`,
+    ];
+    for (const message of toConversation(chat)) {
+      lines.push('', `<!-- role: ${message.role} -->`, `### ${ROLE_HEADINGS[message.role]}`, '', escapeMarkers(message.content));
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+// A reply's recorded tool calls become the assistant and tool messages the
+// model exchanged before giving it
+function toOpenAIMessages(chat: Chat): ChatCompletionMessage[] {
+  const messages: ChatCompletionMessage[] = [];
+  const systemPrompt = chat.settings.systemPrompt?.trim();
+  if (systemPrompt) messages.push({ role: 'system', content: systemPrompt });
+
+  for (const { role, content, metadata } of getActiveMessages(chat.tree)) {
+    const toolCalls = metadata?.toolCalls ?? [];
+    if (toolCalls.length > 0) {
+      messages.push({
+        role: 'assistant',
+        content: null,
+        tool_calls: toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      });
+      for (const call of toolCalls) {
+        messages.push({ role: 'tool', tool_call_id: call.id, content: formatToolMessage(call) });
+      }
+    }
+    messages.push({ role, content });
+  }
+  return messages;
+}
+
+// OpenAI fine-tuning format: one {"messages": [...]} object per line
+function exportJsonl(chats: Chat[]): string {
+  return chats
+    .map(chat => JSON.stringify({ messages: toOpenAIMessages(chat) }))
+    .join('\n');
+}
+
+export function exportChats(chats: Chat[], format: ChatExportFormat): string {
+  switch (format) {
+    case 'json':
+      return exportJson(chats);
+    case 'markdown':
+      return exportMarkdown(chats);
+    case 'jsonl':
+      return exportJsonl(chats);
+  }
+}
+
+export function getExportFilename(format: ChatExportFormat, chat?: Chat): string {
+  const base = chat
+    ? chat.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chat'
+    : `bodhi-chats-${new Date().toISOString().slice(0, 10)}`;
+  return `${base}.${EXPORT_FILE_TYPES[format].extension}`;
+}
+
+export function downloadChats(chats: Chat[], format: ChatExportFormat, chat?: Chat): void {
+  const blob = new Blob([exportChats(chats, format)], { type: EXPORT_FILE_TYPES[format].mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getExportFilename(format, chat);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatIssues(error: z.ZodError, prefix: string): string[] {
+  return error.issues.map(issue => `${prefix}${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+// Formats without ids or settings become new chats; a leading system message
+// is turned back into the system prompt
+function chatFromConversation(messages: Message[], title?: string, model = ''): Chat {
+  const [first, ...rest] = messages;
+  const hasSystemPrompt = first?.role === 'system';
+  const conversation = hasSystemPrompt ? rest : messages;
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: title || generateChatTitle(conversation),
+    tree: createMessageTree(conversation),
+    model,
+    settings: hasSystemPrompt ? { systemPrompt: first.content } : {},
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Folds tool calls and their results back into the metadata of the reply that follows them
+function fromOpenAIMessages(messages: ChatCompletionMessage[]): Message[] {
+  const conversation: Message[] = [];
+  let toolCalls: ToolCallTrace[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      const call = toolCalls.find(trace => trace.id === message.tool_call_id);
+      if (call) Object.assign(call, parseToolMessage(message.content ?? ''));
+    } else if (message.role === 'assistant' && message.tool_calls?.length) {
+      toolCalls.push(...message.tool_calls.map(({ id, function: { name, arguments: args } }) => ({ id, name, arguments: args })));
+    } else if (message.role === 'assistant' && toolCalls.length > 0) {
+      conversation.push({ role: 'assistant', content: message.content ?? '', metadata: { toolCalls } });
+      toolCalls = [];
+    } else {
+      conversation.push({ role: message.role, content: message.content ?? '' });
+    }
+  }
+  // Calls without a final reply, e.g. from a stopped generation
+  if (toolCalls.length > 0) {
+    conversation.push({ role: 'assistant', content: '', metadata: { toolCalls } });
+  }
+  return conversation;
+}
+
+function parseJson(text: string): Chat[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ChatImportError(['file is not valid JSON']);
+  }
+  const result = chatExportSchema.safeParse(data);
+  if (!result.success) {
+    throw new ChatImportError(formatIssues(result.error, ''));
+  }
+  return result.data.chats;
+}
+
+function parseJsonl(text: string): Chat[] {
+  const chats: Chat[] = [];
+  const issues: string[] = [];
+
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    let data: unknown;
+    try {
+      data = JSON.parse(line);
+    } catch {
+      issues.push(`line ${index + 1}: not valid JSON`);
+      return;
+    }
+    const result = openAIConversationSchema.safeParse(data);
+    if (result.success) {
+      chats.push(chatFromConversation(fromOpenAIMessages(result.data.messages)));
+    } else {
+      issues.push(...formatIssues(result.error, `line ${index + 1}: `));
+    }
+  });
+
+  if (issues.length > 0) throw new ChatImportError(issues);
+  return chats;
+}
+
+function parseMarkdown(text: string): Chat[] {
+  const sections = text.split(CHAT_MARKER_PATTERN).slice(1);
+  if (sections.length === 0) {
+    throw new ChatImportError(['no exported chats found in the Markdown file']);
+  }
+
+  return sections.map(section => {
+    const lines = section.trim().split('\n');
+    const title = lines[0]?.startsWith('# ') ? lines[0].slice(2).trim() : undefined;
+    const model = section.match(/^Model: `([^`]*)`/m)?.[1];
+    const messages: Message[] = [];
+
+    for (const line of lines) {
+      const marker = line.match(ROLE_MARKER_PATTERN);
+      if (marker) {
+        messages.push({ role: marker[1] as Message['role'], content: '' });
+      } else if (messages.length > 0) {
+        messages[messages.length - 1].content += `${line}\n`;
+      }
+    }
+
+    // Strip the role heading written after each marker
+    const conversation = messages.map(message => ({
+      role: message.role,
+      content: unescapeMarkers(message.content.replace(/^### \w+\n/, '').trim()),
+    }));
+    return chatFromConversation(conversation, title, model === 'unknown' ? '' : model);
+  });
+}
+
+export function detectImportFormat(text: string, filename = ''): ChatExportFormat {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'jsonl') return 'jsonl';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'json') return 'json';
+
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{')) return 'markdown';
+  // A single JSON document is the lossless export, otherwise expect one conversation per line
+  try {
+    const data = JSON.parse(trimmed);
+    return typeof data === 'object' && data !== null && 'messages' in data ? 'jsonl' : 'json';
+  } catch {
+    return 'jsonl';
+  }
+}
+
+export function parseChatImport(text: string, format: ChatExportFormat): Chat[] {
+  switch (format) {
+    case 'json':
+      return parseJson(text);
+    case 'markdown':
+      return parseMarkdown(text);
+    case 'jsonl':
+      return parseJsonl(text);
+  }
+}
+
+function contentKey(chat: Chat): string {
+  return JSON.stringify(getActiveMessages(chat.tree).map(({ role, content }) => [role, content]));
+}
+
+// Skips chats that already exist, by id or by identical conversation, and
+// duplicates within the import itself. A newer copy of a known chat replaces it.
+export function dedupeImportedChats(existing: Chat[], incoming: Chat[]): ChatImportResult {
+  const byId = new Map(existing.map(chat => [chat.id, chat]));
+  const seenContent = new Set(existing.map(contentKey));
+  const imported: Chat[] = [];
+  let skipped = 0;
+
+  for (const chat of incoming) {
+    const known = byId.get(chat.id);
+    const key = contentKey(chat);
+    const isDuplicate = known ? known.updatedAt >= chat.updatedAt : seenContent.has(key);
+    if (isDuplicate) {
+      skipped++;
+      continue;
+    }
+    byId.set(chat.id, chat);
+    seenContent.add(key);
+    imported.push(chat);
+  }
+
+  return { imported, skipped };
+}
@@ -0,0 +1,36 @@
+import type { Chat, ChatHistoryGroup, ChatHistoryPeriod, Message } from '@/types/chat';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TITLE_LENGTH = 50;
+
+const PERIODS: ChatHistoryPeriod[] = ['Today', 'Yesterday', 'Previous 7 days', 'Older'];
+
+function getPeriod(timestamp: number, now: Date): ChatHistoryPeriod {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+
+  if (timestamp >= startOfToday) return 'Today';
+  if (timestamp >= startOfToday - DAY_MS) return 'Yesterday';
+  if (timestamp >= startOfToday - 7 * DAY_MS) return 'Previous 7 days';
+  return 'Older';
+}
+
+export function groupChatsByPeriod(chats: Chat[], now: Date = new Date()): ChatHistoryGroup[] {
+  const groups = new Map<ChatHistoryPeriod, Chat[]>();
+
+  for (const chat of [...chats].sort((a, b) => b.updatedAt - a.updatedAt)) {
+    const period = getPeriod(chat.updatedAt, now);
+    groups.set(period, [...(groups.get(period) ?? []), chat]);
+  }
+
+  return PERIODS
+    .filter(period => groups.has(period))
+    .map(period => ({ period, chats: groups.get(period)! }));
+}
+
+export function generateChatTitle(messages: Message[]): string {
+  const firstUserMessage = messages.find(message => message.role === 'user');
+  const title = firstUserMessage?.content.trim().replace(/\s+/g, ' ');
+
+  if (!title) return 'New Chat';
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH)}...` : title;
+}
@@ -0,0 +1,39 @@
+import type { ChatSettings, Message } from '@/types/chat';
+import type { ChatCompletionMessage, ChatCompletionRequest, ChatTool } from '@/types/api';
+
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {};
+
+// Builds an OpenAI-compatible /v1/chat/completions body, leaving out any
+// parameter the user has not set so the server-side alias defaults apply.
+// Retrieved document context goes in a system message just before the latest
+// user turn, so it is never stored in the conversation itself.
+export function buildChatCompletionRequest(
+  model: string,
+  settings: ChatSettings,
+  messages: Message[],
+  context?: string,
+  tools: ChatTool[] = []
+): ChatCompletionRequest {
+  const systemPrompt = settings.systemPrompt?.trim();
+  // Only role and content go over the wire; local metadata stays local
+  const conversation: ChatCompletionMessage[] = messages.map(({ role, content }) => ({ role, content }));
+  if (context) {
+    conversation.splice(Math.max(conversation.length - 1, 0), 0, { role: 'system', content: context });
+  }
+  const request: ChatCompletionRequest = {
+    model,
+    messages: systemPrompt
+      ? [{ role: 'system', content: systemPrompt }, ...conversation]
+      : conversation,
+  };
+  if (tools.length > 0) request.tools = tools;
+
+  if (settings.temperature !== undefined) request.temperature = settings.temperature;
+  if (settings.top_p !== undefined) request.top_p = settings.top_p;
+  if (settings.max_tokens !== undefined) request.max_tokens = settings.max_tokens;
+  const stop = settings.stop?.filter(sequence => sequence.length > 0);
+  if (stop && stop.length > 0) request.stop = stop;
+  if (settings.seed !== undefined) request.seed = settings.seed;
+
+  return request;
+}
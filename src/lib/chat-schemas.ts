@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import type { ChatCompletionMessage } from '@/types/api';
+import type { Chat, ChatSettings, Message, MessageMetadata, MessageNode, MessageTree } from '@/types/chat';
+
+// Schemas for chats coming from outside the app, i.e. imported files
+
+const messageRoleSchema = z.enum(['system', 'user', 'assistant']);
+
+const metadataSchema: z.ZodType<MessageMetadata> = z.object({
+  model: z.string().optional(),
+  finishReason: z.string().nullable().optional(),
+  usage: z.object({
+    prompt_tokens: z.number(),
+    completion_tokens: z.number(),
+    total_tokens: z.number(),
+  }).nullable().optional(),
+  timings: z.object({
+    timeToFirstTokenMs: z.number().nullable(),
+    durationMs: z.number(),
+    tokensPerSecond: z.number().nullable(),
+  }).optional(),
+  citations: z.array(z.object({
+    index: z.number(),
+    documentId: z.string(),
+    documentName: z.string(),
+    chunkIndex: z.number(),
+    page: z.number().optional(),
+    excerpt: z.string(),
+    score: z.number(),
+  })).optional(),
+  toolCalls: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    arguments: z.string(),
+    result: z.string().optional(),
+    error: z.string().optional(),
+    durationMs: z.number().optional(),
+  })).optional(),
+});
+
+export const messageSchema: z.ZodType<Message> = z.object({
+  role: messageRoleSchema,
+  content: z.string(),
+  metadata: metadataSchema.optional(),
+});
+
+const messageNodeSchema: z.ZodType<MessageNode> = z.object({
+  id: z.string().min(1),
+  parentId: z.string().nullable(),
+  childIds: z.array(z.string()),
+  activeChildId: z.string().nullable(),
+  message: messageSchema,
+  createdAt: z.number(),
+});
+
+const messageTreeSchema: z.ZodType<MessageTree> = z.object({
+  nodes: z.record(z.string(), messageNodeSchema),
+  rootIds: z.array(z.string()),
+  activeRootId: z.string().nullable(),
+}).superRefine((tree, context) => {
+  const exists = (id: string | null) => id === null || id in tree.nodes;
+  if (!exists(tree.activeRootId) || !tree.rootIds.every(exists)) {
+    context.addIssue({ code: 'custom', message: 'references a missing root message' });
+    return;
+  }
+  for (const node of Object.values(tree.nodes)) {
+    if (!exists(node.parentId) || !exists(node.activeChildId) || !node.childIds.every(exists)) {
+      context.addIssue({ code: 'custom', message: `message ${node.id} references a missing message` });
+      return;
+    }
+  }
+
+  // Parent and child links must agree, otherwise walking the tree can loop forever
+  const childIdsOf = (parentId: string | null) => parentId === null ? tree.rootIds : tree.nodes[parentId].childIds;
+  if (tree.activeRootId !== null && !tree.rootIds.includes(tree.activeRootId)) {
+    context.addIssue({ code: 'custom', message: 'the active root is not a root message' });
+  }
+  for (const [key, node] of Object.entries(tree.nodes)) {
+    const linked = node.id === key
+      && childIdsOf(node.parentId).includes(node.id)
+      && node.childIds.every(id => tree.nodes[id].parentId === node.id)
+      && (node.activeChildId === null || node.childIds.includes(node.activeChildId));
+    if (!linked) {
+      context.addIssue({ code: 'custom', message: `message ${key} has inconsistent parent or child links` });
+      return;
+    }
+  }
+  if (!tree.rootIds.every(id => tree.nodes[id].parentId === null)) {
+    context.addIssue({ code: 'custom', message: 'a root message has a parent' });
+    return;
+  }
+
+  // Every message must be reachable from a root exactly once; anything left over is a cycle
+  const seen = new Set<string>();
+  const pending = [...tree.rootIds];
+  for (let id = pending.pop(); id !== undefined; id = pending.pop()) {
+    if (seen.has(id)) {
+      context.addIssue({ code: 'custom', message: `message ${id} is linked more than once` });
+      return;
+    }
+    seen.add(id);
+    pending.push(...tree.nodes[id].childIds);
+  }
+  if (seen.size !== Object.keys(tree.nodes).length) {
+    context.addIssue({ code: 'custom', message: 'messages form a cycle' });
+  }
+});
+
+const chatSettingsSchema: z.ZodType<ChatSettings> = z.object({
+  systemPrompt: z.string().optional(),
+  temperature: z.number().optional(),
+  top_p: z.number().optional(),
+  max_tokens: z.number().optional(),
+  stop: z.array(z.string()).optional(),
+  seed: z.number().optional(),
+  tools: z.array(z.string()).optional(),
+});
+
+export const chatSchema: z.ZodType<Chat> = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  tree: messageTreeSchema,
+  model: z.string(),
+  settings: chatSettingsSchema,
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const chatExportSchema = z.object({
+  format: z.literal('bodhi-chat-export'),
+  version: z.literal(1),
+  exportedAt: z.number(),
+  chats: z.array(chatSchema),
+});
+
+// Tool calls appear as an assistant message with tool_calls followed by one
+// "tool" message per result, as in OpenAI's fine-tuning format
+const openAIMessageSchema: z.ZodType<ChatCompletionMessage> = z.object({
+  role: z.enum(['system', 'user', 'assistant', 'tool']),
+  content: z.string().nullable(),
+  tool_calls: z.array(z.object({
+    id: z.string(),
+    type: z.literal('function'),
+    function: z.object({
+      name: z.string(),
+      arguments: z.string(),
+    }),
+  })).optional(),
+  tool_call_id: z.string().optional(),
+});
+
+export const openAIConversationSchema = z.object({
+  messages: z.array(openAIMessageSchema).min(1),
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { chunkSections } from '@/lib/chunking';
+
+describe('chunkSections', () => {
+  it('keeps short text in a single chunk', () => {
+    expect(chunkSections([{ text: 'First paragraph.\n\nSecond paragraph.' }])).toEqual([
+      { text: 'First paragraph.\n\nSecond paragraph.' },
+    ]);
+  });
+
+  it('packs paragraphs up to the chunk size and overlaps the next chunk', () => {
+    const paragraphs = ['alpha '.repeat(10).trim(), 'beta '.repeat(10).trim(), 'gamma '.repeat(10).trim()];
+    const chunks = chunkSections([{ text: paragraphs.join('\n\n') }], { size: 120, overlap: 20 });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].text).toBe(`${paragraphs[0]}\n\n${paragraphs[1]}`);
+    expect(chunks[1].text.startsWith('beta')).toBe(true);
+    expect(chunks[1].text.endsWith(paragraphs[2])).toBe(true);
+  });
+
+  it('splits long paragraphs by sentence and hard-cuts text without breaks', () => {
+    const sentences = chunkSections([{ text: 'One sentence here. Another sentence there.' }], { size: 25, overlap: 0 });
+    expect(sentences.map(chunk => chunk.text)).toEqual(['One sentence here.', 'Another sentence there.']);
+
+    const hardCut = chunkSections([{ text: 'x'.repeat(25) }], { size: 10, overlap: 0 });
+    expect(hardCut.map(chunk => chunk.text)).toEqual(['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(5)]);
+  });
+
+  it('never spans pages and records the page of each chunk', () => {
+    const chunks = chunkSections([
+      { text: 'Page one text.', page: 1 },
+      { text: '   ', page: 2 },
+      { text: 'Page three text.', page: 3 },
+    ]);
+
+    expect(chunks).toEqual([
+      { text: 'Page one text.', page: 1 },
+      { text: 'Page three text.', page: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import type { DocumentSection } from '@/types/documents';
+
+export interface ChunkOptions {
+  // Target chunk length in characters
+  size?: number;
+  // Characters repeated from the end of one chunk at the start of the next
+  overlap?: number;
+}
+
+export interface TextChunk {
+  text: string;
+  page?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 1200;
+const DEFAULT_CHUNK_OVERLAP = 200;
+
+// Paragraphs first, then sentences, then hard cuts for text without either
+function splitIntoPieces(text: string, size: number): string[] {
+  const pieces: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+    if (trimmed.length <= size) {
+      pieces.push(trimmed);
+      continue;
+    }
+    for (const sentence of trimmed.match(/[^.!?\n]+(?:[.!?]+|\n|$)/g) ?? [trimmed]) {
+      const cleaned = sentence.trim();
+      for (let start = 0; start < cleaned.length; start += size) {
+        pieces.push(cleaned.slice(start, start + size));
+      }
+    }
+  }
+  return pieces.filter(Boolean);
+}
+
+// The overlap starts at a word boundary so chunks do not open mid-word
+function overlapTail(text: string, overlap: number): string {
+  if (overlap <= 0 || text.length <= overlap) return overlap > 0 ? text : '';
+  const tail = text.slice(-overlap);
+  const space = tail.indexOf(' ');
+  return space === -1 ? tail : tail.slice(space + 1);
+}
+
+// Packs paragraphs into chunks of roughly `size` characters. Chunks never
+// span PDF pages, so each one can cite the page it came from.
+export function chunkSections(sections: DocumentSection[], options: ChunkOptions = {}): TextChunk[] {
+  const size = options.size ?? DEFAULT_CHUNK_SIZE;
+  const overlap = Math.min(options.overlap ?? DEFAULT_CHUNK_OVERLAP, Math.floor(size / 2));
+  const chunks: TextChunk[] = [];
+
+  for (const section of sections) {
+    let current = '';
+    let hasNewText = false;
+    const flush = () => {
+      if (hasNewText) {
+        chunks.push(section.page === undefined ? { text: current } : { text: current, page: section.page });
+      }
+      current = overlapTail(current, overlap);
+      hasNewText = false;
+    };
+
+    for (const piece of splitIntoPieces(section.text, size)) {
+      if (hasNewText && current.length + piece.length + 2 > size) {
+        flush();
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+      hasNewText = true;
+    }
+    flush();
+  }
+
+  return chunks;
+}
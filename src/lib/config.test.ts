@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getRedirectUri, loadAppConfig, resolveAppConfig } from '@/lib/config';
+
+describe('resolveAppConfig', () => {
+  it('falls back to the main-id defaults', () => {
+    const config = resolveAppConfig({}, null, null);
+
+    expect(config.auth.authUrl).toBe('https://main-id.getbodhi.app');
+    expect(config.auth.realm).toBe('bodhi');
+    expect(config.auth.clientId).toMatch(/^app-/);
+    expect(config.activeEnvironment).toBeNull();
+  });
+
+  it('layers build env under config.json', () => {
+    const config = resolveAppConfig(
+      { clientId: 'build-client', realm: 'build-realm' },
+      { auth: { realm: 'runtime-realm' } },
+      null
+    );
+
+    expect(config.auth).toEqual({
+      clientId: 'build-client',
+      authUrl: 'https://main-id.getbodhi.app',
+      realm: 'runtime-realm',
+    });
+  });
+
+  it('applies a selected environment on top of the resolved config', () => {
+    const config = resolveAppConfig(
+      { clientId: 'build-client' },
+      { environments: { staging: { authUrl: 'https://staging-id.example.com' } } },
+      'staging'
+    );
+
+    expect(config.auth).toEqual({
+      clientId: 'build-client',
+      authUrl: 'https://staging-id.example.com',
+      realm: 'bodhi',
+    });
+    expect(Object.keys(config.environments)).toEqual(['main-id', 'local-keycloak', 'staging']);
+    expect(config.activeEnvironment).toBe('staging');
+  });
+
+  it('ignores an unknown environment', () => {
+    expect(resolveAppConfig({}, null, 'gone').activeEnvironment).toBeNull();
+  });
+});
+
+describe('loadAppConfig', () => {
+  it('reads config.json served next to the app', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(
+      JSON.stringify({ auth: { clientId: 'from-json' } }),
+      { headers: { 'Content-Type': 'application/json' } }
+    )));
+
+    const config = await loadAppConfig();
+
+    expect(fetch).toHaveBeenCalledWith('/config.json', { cache: 'no-store' });
+    expect(config.auth.clientId).toBe('from-json');
+  });
+
+  it('ignores the HTML fallback page and invalid files', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response('<!doctype html>', { headers: { 'Content-Type': 'text/html' } }))
+      .mockResolvedValueOnce(new Response(
+        JSON.stringify({ auth: { authUrl: 'not a url' } }),
+        { headers: { 'Content-Type': 'application/json' } }
+      )));
+
+    expect((await loadAppConfig()).auth.authUrl).toBe('https://main-id.getbodhi.app');
+    expect((await loadAppConfig()).auth.authUrl).toBe('https://main-id.getbodhi.app');
+    expect(console.error).toHaveBeenCalledWith('Ignoring invalid config.json:', expect.anything());
+  });
+});
+
+describe('getRedirectUri', () => {
+  it('includes the router basename', () => {
+    expect(getRedirectUri('/bodhi-browser-demo-app')).toBe(`${window.location.origin}/bodhi-browser-demo-app/callback`);
+    expect(getRedirectUri('')).toBe(`${window.location.origin}/callback`);
+  });
+});
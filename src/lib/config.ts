@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import type { AppConfig, AuthConfig, RuntimeConfig } from '@/types/config';
+
+const ENVIRONMENT_STORAGE_KEY = 'bodhi_auth_environment';
+
+const DEFAULT_AUTH_CONFIG: AuthConfig = {
+  clientId: 'app-a05c53c5-3fc4-409d-833d-f4acc90e1611',
+  authUrl: 'https://main-id.getbodhi.app',
+  realm: 'bodhi',
+};
+
+// Presets for the dev switcher; config.json can add to or override them
+const DEFAULT_ENVIRONMENTS: Record<string, Partial<AuthConfig>> = {
+  'main-id': { authUrl: 'https://main-id.getbodhi.app', realm: 'bodhi' },
+  'local-keycloak': { authUrl: 'http://localhost:8080', realm: 'bodhi' },
+};
+
+const partialAuthSchema = z.object({
+  clientId: z.string().min(1).optional(),
+  authUrl: z.url().optional(),
+  realm: z.string().min(1).optional(),
+});
+
+const runtimeConfigSchema: z.ZodType<RuntimeConfig> = z.object({
+  auth: partialAuthSchema.optional(),
+  environments: z.record(z.string(), partialAuthSchema).optional(),
+});
+
+// The path the app is served under, e.g. "/bodhi-browser-demo-app" on GitHub Pages
+export const ROUTER_BASENAME = import.meta.env.BASE_URL.replace(/\/+$/, '');
+
+export function getRedirectUri(basename = ROUTER_BASENAME): string {
+  return `${window.location.origin}${basename}/callback`;
+}
+
+function withoutEmpty(config: Partial<AuthConfig>): Partial<AuthConfig> {
+  return Object.fromEntries(Object.entries(config).filter(([, value]) => value)) as Partial<AuthConfig>;
+}
+
+export function getBuildAuthConfig(): Partial<AuthConfig> {
+  return withoutEmpty({
+    clientId: import.meta.env.VITE_AUTH_CLIENT_ID,
+    authUrl: import.meta.env.VITE_AUTH_URL,
+    realm: import.meta.env.VITE_AUTH_REALM,
+  });
+}
+
+// Later sources win: defaults, build-time env, config.json, then the dev switcher
+export function resolveAppConfig(
+  buildConfig: Partial<AuthConfig>,
+  runtimeConfig: RuntimeConfig | null,
+  selectedEnvironment: string | null
+): AppConfig {
+  const auth: AuthConfig = { ...DEFAULT_AUTH_CONFIG, ...buildConfig, ...withoutEmpty(runtimeConfig?.auth ?? {}) };
+  const environments = Object.fromEntries(
+    Object.entries({ ...DEFAULT_ENVIRONMENTS, ...runtimeConfig?.environments })
+      .map(([name, overrides]) => [name, { ...auth, ...withoutEmpty(overrides) }])
+  );
+  const activeEnvironment = selectedEnvironment && selectedEnvironment in environments
+    ? selectedEnvironment
+    : null;
+
+  return {
+    auth: activeEnvironment ? environments[activeEnvironment] : auth,
+    environments,
+    activeEnvironment,
+  };
+}
+
+async function fetchRuntimeConfig(): Promise<RuntimeConfig | null> {
+  try {
+    const response = await fetch(`${import.meta.env.BASE_URL}config.json`, { cache: 'no-store' });
+    // The dev server answers unknown paths with index.html, so check what came back
+    if (!response.ok || !response.headers.get('content-type')?.includes('json')) return null;
+
+    const result = runtimeConfigSchema.safeParse(await response.json());
+    if (!result.success) {
+      console.error('Ignoring invalid config.json:', result.error.issues);
+      return null;
+    }
+    return result.data;
+  } catch (error) {
+    console.warn('Could not load config.json:', error);
+    return null;
+  }
+}
+
+function getSelectedEnvironment(): string | null {
+  return import.meta.env.DEV ? localStorage.getItem(ENVIRONMENT_STORAGE_KEY) : null;
+}
+
+let currentConfig: AppConfig = resolveAppConfig(getBuildAuthConfig(), null, null);
+
+export function getAppConfig(): AppConfig {
+  return currentConfig;
+}
+
+// Called once before the app renders
+export async function loadAppConfig(): Promise<AppConfig> {
+  currentConfig = resolveAppConfig(getBuildAuthConfig(), await fetchRuntimeConfig(), getSelectedEnvironment());
+  return currentConfig;
+}
+
+// Dev only: remembers the environment for the next load; null returns to the deployed config
+export function selectEnvironment(name: string | null): void {
+  if (name) {
+    localStorage.setItem(ENVIRONMENT_STORAGE_KEY, name);
+  } else {
+    localStorage.removeItem(ENVIRONMENT_STORAGE_KEY);
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { detectDocumentType, extractDocument, MAX_DOCUMENT_BYTES } from '@/lib/document-extract';
+import { DocumentError } from '@/types/documents';
+
+// jsdom's File has no text(), which browsers provide
+function textFile(content: string, name: string, type = ''): File {
+  return Object.assign(new File([content], name, { type }), { text: async () => content });
+}
+
+describe('detectDocumentType', () => {
+  it('uses the extension first, then the MIME type', () => {
+    expect(detectDocumentType({ name: 'notes.MD', type: '' })).toBe('markdown');
+    expect(detectDocumentType({ name: 'paper.pdf', type: '' })).toBe('pdf');
+    expect(detectDocumentType({ name: 'download', type: 'application/pdf' })).toBe('pdf');
+    expect(detectDocumentType({ name: 'script', type: 'text/x-python' })).toBe('text');
+    expect(detectDocumentType({ name: 'photo.png', type: 'image/png' })).toBeNull();
+  });
+});
+
+describe('extractDocument', () => {
+  it('reads text files as a single section', async () => {
+    const file = textFile('Hello\n\nWorld', 'hello.txt', 'text/plain');
+
+    await expect(extractDocument(file)).resolves.toEqual({ type: 'text', sections: [{ text: 'Hello\n\nWorld' }] });
+  });
+
+  it('rejects unsupported, empty and oversized files', async () => {
+    await expect(extractDocument(new File(['x'], 'photo.png', { type: 'image/png' }))).rejects.toBeInstanceOf(DocumentError);
+    await expect(extractDocument(textFile('  \n', 'empty.txt'))).rejects.toThrow('empty.txt: the file is empty');
+
+    const large = new File(['x'], 'large.txt');
+    Object.defineProperty(large, 'size', { value: MAX_DOCUMENT_BYTES + 1 });
+    await expect(extractDocument(large)).rejects.toThrow('larger than 20 MB');
+  });
+});
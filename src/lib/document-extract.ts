@@ -0,0 +1,73 @@
+import { DocumentError } from '@/types/documents';
+import type { DocumentSection, DocumentType } from '@/types/documents';
+
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+const EXTENSION_TYPES: Record<string, DocumentType> = {
+  txt: 'text',
+  text: 'text',
+  log: 'text',
+  csv: 'text',
+  json: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  pdf: 'pdf',
+};
+
+export const ACCEPTED_DOCUMENT_TYPES = '.txt,.text,.log,.csv,.json,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf';
+
+export function detectDocumentType(file: Pick<File, 'name' | 'type'>): DocumentType | null {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (EXTENSION_TYPES[extension]) return EXTENSION_TYPES[extension];
+  if (file.type === 'application/pdf') return 'pdf';
+  if (file.type === 'text/markdown') return 'markdown';
+  if (file.type.startsWith('text/')) return 'text';
+  return null;
+}
+
+// pdf.js is large, so it is only loaded once someone attaches a PDF
+async function extractPdfPages(file: File): Promise<DocumentSection[]> {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const sections: DocumentSection[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('');
+      sections.push({ text, page: pageNumber });
+    }
+    return sections;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+export async function extractDocument(file: File): Promise<{ type: DocumentType; sections: DocumentSection[] }> {
+  const type = detectDocumentType(file);
+  if (!type) {
+    throw new DocumentError(file.name, 'only text, Markdown and PDF files are supported');
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new DocumentError(file.name, `larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`);
+  }
+
+  let sections: DocumentSection[];
+  try {
+    sections = type === 'pdf' ? await extractPdfPages(file) : [{ text: await file.text() }];
+  } catch (error) {
+    throw new DocumentError(file.name, `could not be read (${error instanceof Error ? error.message : String(error)})`);
+  }
+
+  if (!sections.some(section => section.text.trim())) {
+    throw new DocumentError(file.name, type === 'pdf' ? 'no text found; scanned PDFs are not supported' : 'the file is empty');
+  }
+  return { type, sections };
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addHistoryEntry,
+  buildCurlCommand,
+  DEFAULT_EXPLORER_REQUEST,
+  loadExplorerHistory,
+  MAX_HISTORY_ENTRIES,
+  parseExplorerRequest,
+  saveExplorerHistory,
+} from '@/lib/explorer';
+import { ExplorerRequestError } from '@/types/explorer';
+import type { ExplorerHistoryEntry, ExplorerRequest } from '@/types/explorer';
+
+function request(changes: Partial<ExplorerRequest> = {}): ExplorerRequest {
+  return { ...DEFAULT_EXPLORER_REQUEST, ...changes };
+}
+
+function entry(id: string, changes: Partial<ExplorerRequest> = {}): ExplorerHistoryEntry {
+  return { id, request: request(changes), sentAt: 1, status: 200 };
+}
+
+describe('parseExplorerRequest', () => {
+  it('parses the JSON body and headers', () => {
+    expect(parseExplorerRequest(request({
+      method: 'POST',
+      endpoint: '/v1/chat/completions',
+      body: '{"model":"m","messages":[]}',
+      headers: '{"X-Debug":"1"}',
+    }))).toEqual({ body: { model: 'm', messages: [] }, headers: { 'X-Debug': '1' } });
+  });
+
+  it('treats blank text as no body and no headers', () => {
+    expect(parseExplorerRequest(request({ body: ' ', headers: '' }))).toEqual({ headers: {} });
+  });
+
+  it('reports every problem at once', () => {
+    try {
+      parseExplorerRequest(request({ endpoint: 'v1/models', body: '{}', headers: '{"X-Count": 1}' }));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ExplorerRequestError);
+      expect((error as ExplorerRequestError).issues).toEqual([
+        'endpoint: must start with /',
+        'body: GET requests cannot have a body',
+        'headers.X-Count: must be a string',
+      ]);
+    }
+  });
+
+  it('rejects invalid JSON and non-object headers', () => {
+    expect(() => parseExplorerRequest(request({ method: 'POST', body: '{oops' }))).toThrow(/body:/);
+    expect(() => parseExplorerRequest(request({ headers: '["a"]' }))).toThrow('headers: must be a JSON object');
+  });
+});
+
+describe('buildCurlCommand', () => {
+  it('builds a GET with the bearer token', () => {
+    expect(buildCurlCommand(request(), 'http://localhost:1135/', 'tok'))
+      .toBe("curl 'http://localhost:1135/v1/models' -H 'Authorization: Bearer tok'");
+  });
+
+  it('adds the method, JSON content type, body and streaming flag', () => {
+    const command = buildCurlCommand(request({
+      method: 'POST',
+      endpoint: '/v1/chat/completions',
+      body: '{"messages":[{"role":"user","content":"it\'s me"}]}',
+      stream: true,
+      attachToken: false,
+    }), 'http://localhost:1135', 'tok');
+
+    expect(command).toBe(
+      "curl -N -X POST 'http://localhost:1135/v1/chat/completions' -H 'Content-Type: application/json' "
+      + `--data '{"messages":[{"role":"user","content":"it'\\''s me"}]}'`
+    );
+  });
+
+  it('keeps a content type the user set', () => {
+    expect(buildCurlCommand(request({
+      method: 'POST',
+      body: '"text"',
+      headers: '{"content-type":"text/plain"}',
+      attachToken: false,
+    }), 'http://localhost:1135')).toContain("-H 'content-type: text/plain' --data");
+  });
+});
+
+describe('explorer history', () => {
+  it('puts new entries first and moves a resent request to the top', () => {
+    const history = [entry('a', { endpoint: '/a' }), entry('b', { endpoint: '/b' })];
+
+    expect(addHistoryEntry(history, entry('c', { endpoint: '/b' })).map(item => item.id)).toEqual(['c', 'a']);
+  });
+
+  it('keeps a bounded number of entries', () => {
+    const history = Array.from({ length: MAX_HISTORY_ENTRIES }, (_, index) => entry(`e${index}`, { endpoint: `/${index}` }));
+
+    const next = addHistoryEntry(history, entry('new', { endpoint: '/new' }));
+
+    expect(next).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(next[0].id).toBe('new');
+  });
+
+  it('round-trips through localStorage and drops malformed entries', () => {
+    saveExplorerHistory([entry('a')]);
+    expect(loadExplorerHistory()).toEqual([entry('a')]);
+
+    localStorage.setItem('bodhi_explorer_history', JSON.stringify([entry('a'), { id: 'b', request: { method: 'TRACE' } }]));
+    expect(loadExplorerHistory().map(item => item.id)).toEqual(['a']);
+
+    localStorage.setItem('bodhi_explorer_history', '{broken');
+    expect(loadExplorerHistory()).toEqual([]);
+  });
+
+  it('leaves credential headers out of history', () => {
+    const headers = '{"Authorization":"Bearer secret","x-api-key":"key","X-Debug":"1"}';
+
+    const [added] = addHistoryEntry([], entry('a', { headers }));
+    expect(added.request.headers).toBe('{"X-Debug":"1"}');
+    expect(addHistoryEntry([], entry('b', { headers: '{"Cookie":"session=secret"}' }))[0].request.headers).toBe('');
+    expect(addHistoryEntry([], entry('c', { headers: 'Authorization: Bearer secret' }))[0].request.headers).toBe('');
+
+    saveExplorerHistory([entry('d', { headers })]);
+    expect(localStorage.getItem('bodhi_explorer_history')).not.toContain('secret');
+  });
+});
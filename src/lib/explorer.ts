@@ -0,0 +1,183 @@
+import { ExplorerRequestError } from '@/types/explorer';
+import type { ExplorerHistoryEntry, ExplorerMethod, ExplorerRequest } from '@/types/explorer';
+
+export const EXPLORER_METHODS: ExplorerMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const HISTORY_STORAGE_KEY = 'bodhi_explorer_history';
+export const MAX_HISTORY_ENTRIES = 50;
+
+// Headers that carry credentials; history is plaintext localStorage, so these never go in it
+const CREDENTIAL_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'x-api-key',
+  'api-key',
+  'x-auth-token',
+]);
+
+export const DEFAULT_EXPLORER_REQUEST: ExplorerRequest = {
+  method: 'GET',
+  endpoint: '/v1/models',
+  body: '',
+  headers: '',
+  stream: false,
+  attachToken: true,
+};
+
+export interface ParsedExplorerRequest {
+  body?: unknown;
+  headers: Record<string, string>;
+}
+
+function parseJsonText(text: string, label: string, issues: string[]): unknown {
+  if (!text.trim()) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    issues.push(`${label}: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+    return undefined;
+  }
+}
+
+// Turns the form's JSON text into what ExtensionClient expects; every problem is reported at once
+export function parseExplorerRequest(request: ExplorerRequest): ParsedExplorerRequest {
+  const issues: string[] = [];
+
+  if (!request.endpoint.startsWith('/')) {
+    issues.push('endpoint: must start with /');
+  }
+
+  const body = parseJsonText(request.body, 'body', issues);
+  if (body !== undefined && request.method === 'GET') {
+    issues.push('body: GET requests cannot have a body');
+  }
+
+  const rawHeaders = parseJsonText(request.headers, 'headers', issues);
+  const headers: Record<string, string> = {};
+  if (rawHeaders !== undefined) {
+    if (!rawHeaders || typeof rawHeaders !== 'object' || Array.isArray(rawHeaders)) {
+      issues.push('headers: must be a JSON object');
+    } else {
+      for (const [name, value] of Object.entries(rawHeaders)) {
+        if (typeof value !== 'string') {
+          issues.push(`headers.${name}: must be a string`);
+        } else {
+          headers[name] = value;
+        }
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ExplorerRequestError(issues);
+  }
+  return body === undefined ? { headers } : { body, headers };
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// A curl command hitting the local server directly. The token is included as
+// is, since the command is only useful if it authenticates the same way.
+export function buildCurlCommand(request: ExplorerRequest, serverUrl: string, token?: string | null): string {
+  const { body, headers } = parseExplorerRequest(request);
+  const url = `${serverUrl.replace(/\/+$/, '')}${request.endpoint}`;
+  const parts = ['curl'];
+
+  if (request.stream) parts.push('-N');
+  if (request.method !== 'GET') parts.push('-X', request.method);
+  parts.push(shellQuote(url));
+
+  const allHeaders: Record<string, string> = { ...headers };
+  if (body !== undefined && !Object.keys(allHeaders).some(name => name.toLowerCase() === 'content-type')) {
+    allHeaders['Content-Type'] = 'application/json';
+  }
+  if (request.attachToken && token) {
+    allHeaders.Authorization = `Bearer ${token}`;
+  }
+  for (const [name, value] of Object.entries(allHeaders)) {
+    parts.push('-H', shellQuote(`${name}: ${value}`));
+  }
+
+  if (body !== undefined) {
+    parts.push('--data', shellQuote(JSON.stringify(body)));
+  }
+
+  return parts.join(' ');
+}
+
+function isExplorerRequest(value: unknown): value is ExplorerRequest {
+  if (!value || typeof value !== 'object') return false;
+  const request = value as Record<string, unknown>;
+  return EXPLORER_METHODS.includes(request.method as ExplorerMethod)
+    && typeof request.endpoint === 'string'
+    && typeof request.body === 'string'
+    && typeof request.headers === 'string'
+    && typeof request.stream === 'boolean'
+    && typeof request.attachToken === 'boolean';
+}
+
+export function loadExplorerHistory(): ExplorerHistoryEntry[] {
+  const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((entry): entry is ExplorerHistoryEntry =>
+      !!entry && typeof entry.id === 'string' && typeof entry.sentAt === 'number' && isExplorerRequest(entry.request)
+    );
+  } catch {
+    // Corrupt storage starts a fresh history
+    return [];
+  }
+}
+
+// Headers text that cannot be parsed is dropped, as it might hold a credential
+function withoutCredentialHeaders(request: ExplorerRequest): ExplorerRequest {
+  if (!request.headers.trim()) return request;
+  let headers: unknown;
+  try {
+    headers = JSON.parse(request.headers);
+  } catch {
+    return { ...request, headers: '' };
+  }
+  if (!headers || typeof headers !== 'object' || Array.isArray(headers)) {
+    return { ...request, headers: '' };
+  }
+
+  const kept = Object.entries(headers).filter(([name]) => !CREDENTIAL_HEADERS.has(name.toLowerCase()));
+  if (kept.length === Object.keys(headers).length) return request;
+  return { ...request, headers: kept.length > 0 ? JSON.stringify(Object.fromEntries(kept)) : '' };
+}
+
+export function saveExplorerHistory(history: ExplorerHistoryEntry[]): void {
+  const stored = history.map(entry => ({ ...entry, request: withoutCredentialHeaders(entry.request) }));
+  localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(stored));
+}
+
+function isSameRequest(a: ExplorerRequest, b: ExplorerRequest): boolean {
+  return a.method === b.method
+    && a.endpoint === b.endpoint
+    && a.body === b.body
+    && a.headers === b.headers
+    && a.stream === b.stream
+    && a.attachToken === b.attachToken;
+}
+
+// Newest first; resending a request moves it to the top instead of duplicating it.
+// Credential headers are left out, so the entry can be stored as is.
+export function addHistoryEntry(
+  history: ExplorerHistoryEntry[],
+  entry: ExplorerHistoryEntry
+): ExplorerHistoryEntry[] {
+  const added = { ...entry, request: withoutCredentialHeaders(entry.request) };
+  return [added, ...history.filter(existing => !isSameRequest(existing.request, added.request))]
+    .slice(0, MAX_HISTORY_ENTRIES);
+}
+
+export function formatResponseBody(body: unknown): string {
+  if (typeof body === 'string') return body;
+  return JSON.stringify(body, null, 2) ?? '';
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { loadExtensionClient, ExtensionClientImpl } from '@/lib/extension-client';
+import { installMockBodhiext, createMockBodhiext } from '@/lib/mock-bodhiext';
+import {
+  ExtensionNotFoundError,
+  ExtensionTimeoutError,
+  RequestAbortedError,
+  RequestTimeoutError,
+} from '@/types/extension';
+import type { StreamChunk } from '@/types/extension';
+
+describe('loadExtensionClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  it('resolves immediately when the extension is already present', async () => {
+    installMockBodhiext({ extensionId: 'ext-123' });
+
+    const client = await loadExtensionClient({ timeout: 1000 });
+
+    expect(client).toBeInstanceOf(ExtensionClientImpl);
+    expect(client.getExtensionId()).toBe('ext-123');
+  });
+
+  it('keeps polling until the extension is injected', async () => {
+    const promise = loadExtensionClient({ timeout: 1000 });
+
+    await vi.advanceTimersByTimeAsync(300);
+    installMockBodhiext({ extensionId: 'late-ext' });
+    await vi.advanceTimersByTimeAsync(100);
+
+    const client = await promise;
+    expect(client.getExtensionId()).toBe('late-ext');
+  });
+
+  it('throws ExtensionNotFoundError when the extension never appears', async () => {
+    const promise = loadExtensionClient({ timeout: 500 });
+    const assertion = expect(promise).rejects.toThrow(ExtensionNotFoundError);
+
+    await vi.advanceTimersByTimeAsync(600);
+
+    await assertion;
+    await expect(promise).rejects.toThrow('Bodhi extension not detected within 500ms');
+  });
+
+  it('throws ExtensionTimeoutError when the extension ID never arrives', async () => {
+    window.bodhiext = {
+      ...createMockBodhiext(),
+      getExtensionId: () => new Promise<string>(() => {}),
+    };
+
+    const promise = loadExtensionClient({ timeout: 500 });
+    const assertion = expect(promise).rejects.toThrow(ExtensionTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(500);
+
+    await assertion;
+  });
+
+  it('wraps a failing getExtensionId in ExtensionTimeoutError', async () => {
+    window.bodhiext = {
+      ...createMockBodhiext(),
+      getExtensionId: () => Promise.reject(new Error('boom')),
+    };
+
+    await expect(loadExtensionClient({ timeout: 500 })).rejects.toThrow(ExtensionTimeoutError);
+  });
+});
+
+describe('ExtensionClientImpl', () => {
+  it('forwards requests to window.bodhiext', async () => {
+    installMockBodhiext();
+    const client = new ExtensionClientImpl('mock-bodhiext');
+
+    const response = await client.sendApiRequest('GET', '/v1/models');
+
+    expect(response.status).toBe(200);
+    expect((response.body as { data: unknown[] }).data.length).toBeGreaterThan(0);
+    await expect(client.ping()).resolves.toEqual({ message: 'pong' });
+  });
+
+  it('throws when the extension has gone away', async () => {
+    const client = new ExtensionClientImpl('mock-bodhiext');
+
+    await expect(client.serverState()).rejects.toThrow('Bodhi extension not available');
+  });
+});
+
+describe('ExtensionClientImpl cancellation', () => {
+  function installHangingExtension(onReturn = vi.fn()) {
+    window.bodhiext = {
+      ...createMockBodhiext(),
+      sendApiRequest: () => new Promise(() => {}),
+      sendStreamRequest: async () => ({
+        [Symbol.asyncIterator]: (): AsyncIterator<StreamChunk> => {
+          let sent = false;
+          return {
+            next: () => {
+              if (sent) return new Promise(() => {});
+              sent = true;
+              return Promise.resolve({ done: false, value: { status: 200, body: 'first' } });
+            },
+            return: async () => {
+              onReturn();
+              return { done: true, value: undefined };
+            },
+          };
+        },
+      }),
+    };
+    return onReturn;
+  }
+
+  it('rejects an API request when its signal is aborted', async () => {
+    installHangingExtension();
+    const controller = new AbortController();
+    const promise = new ExtensionClientImpl('ext').sendApiRequest('GET', '/v1/models', undefined, undefined, {
+      signal: controller.signal,
+    });
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+
+  it('rejects immediately for an already aborted signal', async () => {
+    installHangingExtension();
+
+    await expect(
+      new ExtensionClientImpl('ext').sendApiRequest('GET', '/', undefined, undefined, {
+        signal: AbortSignal.abort(),
+      })
+    ).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+
+  it('times out a hung API request', async () => {
+    vi.useFakeTimers();
+    installHangingExtension();
+    const promise = new ExtensionClientImpl('ext').sendApiRequest('GET', '/', undefined, undefined, {
+      timeout: 1000,
+    });
+    const assertion = expect(promise).rejects.toBeInstanceOf(RequestTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await assertion;
+  });
+
+  it('stops a stream on abort and releases the iterator', async () => {
+    const onReturn = installHangingExtension();
+    const controller = new AbortController();
+    const stream = await new ExtensionClientImpl('ext').sendStreamRequest('POST', '/', {}, undefined, {
+      signal: controller.signal,
+    });
+
+    const received: unknown[] = [];
+    const consume = (async () => {
+      for await (const chunk of stream) {
+        received.push(chunk.body);
+        controller.abort();
+      }
+    })();
+
+    await expect(consume).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(received).toEqual(['first']);
+    expect(onReturn).toHaveBeenCalled();
+  });
+
+  it('times out a stream that stalls between chunks', async () => {
+    vi.useFakeTimers();
+    const onReturn = installHangingExtension();
+    const stream = await new ExtensionClientImpl('ext').sendStreamRequest('POST', '/', {}, undefined, {
+      timeout: 500,
+    });
+
+    const consume = (async () => {
+      for await (const chunk of stream) void chunk;
+    })();
+    const assertion = expect(consume).rejects.toBeInstanceOf(RequestTimeoutError);
+    await vi.advanceTimersByTimeAsync(500);
+
+    await assertion;
+    expect(onReturn).toHaveBeenCalled();
+  });
+});
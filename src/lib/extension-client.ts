@@ -2,13 +2,83 @@ import type {
   ExtensionClient,
   ApiResponse,
   StreamChunk,
-  ServerStateInfo
+  ServerStateInfo,
+  RequestOptions
 } from '@/types/extension';
 import {
   ExtensionNotFoundError,
   ExtensionTimeoutError,
+  RequestAbortedError,
+  RequestTimeoutError,
 } from '@/types/extension';
 
+// The extension API itself cannot be cancelled, so cancellation and timeouts
+// stop waiting on its promises and release the stream iterator instead
+function raceWithOptions<T>(promise: Promise<T>, options: RequestOptions): Promise<T> {
+  const { signal, timeout } = options;
+  if (!signal && timeout === undefined) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = () => {
+      cleanup();
+      reject(new RequestAbortedError());
+    };
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    if (signal?.aborted) {
+      reject(new RequestAbortedError());
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+    if (timeout !== undefined) {
+      timer = setTimeout(() => {
+        cleanup();
+        reject(new RequestTimeoutError(timeout));
+      }, timeout);
+    }
+
+    promise.then(
+      value => {
+        cleanup();
+        resolve(value);
+      },
+      error => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+}
+
+async function* cancellableStream(
+  stream: AsyncIterable<StreamChunk>,
+  options: RequestOptions
+): AsyncGenerator<StreamChunk> {
+  const iterator = stream[Symbol.asyncIterator]();
+  let completed = false;
+  try {
+    while (true) {
+      const next = await raceWithOptions(iterator.next(), options);
+      if (next.done) {
+        completed = true;
+        return;
+      }
+      yield next.value;
+    }
+  } finally {
+    if (!completed) {
+      // Not awaited: a hung extension iterator must not block cancellation
+      iterator.return?.()?.catch(() => {});
+    }
+  }
+}
+
 export class ExtensionClientImpl implements ExtensionClient {
   private extensionId: string;
   
@@ -23,21 +93,32 @@ export class ExtensionClientImpl implements ExtensionClient {
   async sendApiRequest(
     method: string,
     endpoint: string,
-    body?: any,
-    headers?: Record<string, string>
+    body?: unknown,
+    headers?: Record<string, string>,
+    options: RequestOptions = {}
   ): Promise<ApiResponse> {
     this.ensureExtensionAvailable();
-    return window.bodhiext!.sendApiRequest(method, endpoint, body, headers);
+    return raceWithOptions(
+      window.bodhiext!.sendApiRequest(method, endpoint, body, headers),
+      options
+    );
   }
 
   async sendStreamRequest(
     method: string,
     endpoint: string,
-    body?: any,
-    headers?: Record<string, string>
+    body?: unknown,
+    headers?: Record<string, string>,
+    options: RequestOptions = {}
   ): Promise<AsyncIterable<StreamChunk>> {
     this.ensureExtensionAvailable();
-    return window.bodhiext!.sendStreamRequest(method, endpoint, body, headers);
+    const stream = await raceWithOptions(
+      window.bodhiext!.sendStreamRequest(method, endpoint, body, headers),
+      options
+    );
+    return options.signal || options.timeout !== undefined
+      ? cancellableStream(stream, options)
+      : stream;
   }
 
   async ping(): Promise<{ message: string }> {
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ExtensionHealthMonitor, getConnectionStatus, DEGRADED_LATENCY_MS } from '@/lib/health-monitor';
+import { ExtensionClientImpl } from '@/lib/extension-client';
+import { installMockBodhiext, createMockBodhiext } from '@/lib/mock-bodhiext';
+
+describe('ExtensionHealthMonitor', () => {
+  it('records a healthy sample with latency and server status', async () => {
+    installMockBodhiext({ extensionId: 'ext-1' });
+    const monitor = new ExtensionHealthMonitor(new ExtensionClientImpl('ext-1'));
+
+    const sample = await monitor.check();
+
+    expect(sample).toMatchObject({ ok: true, serverStatus: 'ready', error: null });
+    expect(sample?.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(monitor.getSnapshot().status).toBe('connected');
+  });
+
+  it('reports a removed extension', async () => {
+    const monitor = new ExtensionHealthMonitor(new ExtensionClientImpl('ext-1'));
+    const onChange = vi.fn();
+    monitor.onExtensionChange(onChange);
+
+    await monitor.check();
+
+    expect(onChange).toHaveBeenCalledWith('extension-removed');
+    expect(monitor.getSnapshot().status).toBe('disconnected');
+  });
+
+  it('reports a reloaded extension when the ID changes', async () => {
+    installMockBodhiext({ extensionId: 'ext-2' });
+    const monitor = new ExtensionHealthMonitor(new ExtensionClientImpl('ext-1'));
+    const onChange = vi.fn();
+    monitor.onExtensionChange(onChange);
+
+    await monitor.check();
+
+    expect(onChange).toHaveBeenCalledWith('extension-reloaded');
+  });
+
+  it('reports a server that is no longer ready', async () => {
+    installMockBodhiext({ extensionId: 'ext-1', serverStatus: 'unreachable' });
+    const monitor = new ExtensionHealthMonitor(new ExtensionClientImpl('ext-1'));
+    const onChange = vi.fn();
+    monitor.onExtensionChange(onChange);
+
+    await monitor.check();
+
+    expect(onChange).toHaveBeenCalledWith('server-not-ready');
+    expect(monitor.getSnapshot().status).toBe('degraded');
+  });
+
+  it('treats repeated ping failures as an unresponsive extension', async () => {
+    window.bodhiext = {
+      ...createMockBodhiext({ extensionId: 'ext-1' }),
+      ping: () => Promise.reject(new Error('port closed')),
+    };
+    const monitor = new ExtensionHealthMonitor(new ExtensionClientImpl('ext-1'));
+    const onChange = vi.fn();
+    monitor.onExtensionChange(onChange);
+
+    await monitor.check();
+    expect(onChange).not.toHaveBeenCalled();
+
+    await monitor.check();
+    expect(onChange).toHaveBeenCalledWith('extension-unresponsive');
+  });
+
+  it('checks on an interval and keeps a bounded history', async () => {
+    vi.useFakeTimers();
+    installMockBodhiext({ extensionId: 'ext-1' });
+    const monitor = new ExtensionHealthMonitor(new ExtensionClientImpl('ext-1'), {
+      intervalMs: 1000,
+      historySize: 3,
+    });
+    const listener = vi.fn();
+    monitor.subscribe(listener);
+
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(5000);
+    monitor.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(listener).toHaveBeenCalledTimes(6);
+    expect(monitor.getSnapshot().history).toHaveLength(3);
+  });
+});
+
+describe('getConnectionStatus', () => {
+  const sample = { timestamp: 0, ok: true, latencyMs: 5, serverStatus: 'ready' as const, error: null };
+
+  it('derives the status from the latest sample', () => {
+    expect(getConnectionStatus(undefined)).toBe('unknown');
+    expect(getConnectionStatus(sample)).toBe('connected');
+    expect(getConnectionStatus({ ...sample, latencyMs: DEGRADED_LATENCY_MS + 1 })).toBe('degraded');
+    expect(getConnectionStatus({ ...sample, ok: false, serverStatus: null, latencyMs: null })).toBe('disconnected');
+  });
+});
@@ -0,0 +1,177 @@
+import type { ExtensionClient } from '@/types/extension';
+import type {
+  ConnectionStatus,
+  ExtensionChangeReason,
+  HealthSample,
+  HealthSnapshot
+} from '@/types/health';
+
+const DEFAULT_INTERVAL_MS = 10000;
+const DEFAULT_HISTORY_SIZE = 30;
+// Round trips slower than this mark the connection as degraded
+export const DEGRADED_LATENCY_MS = 1000;
+// Consecutive failed checks before the extension is considered unresponsive
+const MAX_CONSECUTIVE_FAILURES = 2;
+
+export interface HealthMonitorOptions {
+  intervalMs?: number;
+  historySize?: number;
+  history?: HealthSample[];
+}
+
+class ExtensionChangedError extends Error {
+  readonly reason: ExtensionChangeReason;
+
+  constructor(reason: ExtensionChangeReason, message: string) {
+    super(message);
+    this.name = 'ExtensionChangedError';
+    this.reason = reason;
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Extension did not respond within ${timeoutMs}ms`)),
+      timeoutMs
+    );
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+export function getConnectionStatus(sample: HealthSample | undefined): ConnectionStatus {
+  if (!sample) return 'unknown';
+  if (!sample.ok) return sample.serverStatus ? 'degraded' : 'disconnected';
+  return sample.latencyMs !== null && sample.latencyMs > DEGRADED_LATENCY_MS ? 'degraded' : 'connected';
+}
+
+export class ExtensionHealthMonitor {
+  private client: ExtensionClient;
+  private intervalMs: number;
+  private historySize: number;
+  private history: HealthSample[];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking = false;
+  private consecutiveFailures = 0;
+  private listeners = new Set<(snapshot: HealthSnapshot) => void>();
+  private changeListeners = new Set<(reason: ExtensionChangeReason) => void>();
+
+  constructor(client: ExtensionClient, options: HealthMonitorOptions = {}) {
+    this.client = client;
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.historySize = options.historySize ?? DEFAULT_HISTORY_SIZE;
+    this.history = (options.history ?? []).slice(-this.historySize);
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.check();
+    this.timer = setInterval(() => this.check(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  subscribe(listener: (snapshot: HealthSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onExtensionChange(listener: (reason: ExtensionChangeReason) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  getSnapshot(): HealthSnapshot {
+    const latest = this.history[this.history.length - 1];
+    return {
+      status: getConnectionStatus(latest),
+      latencyMs: latest?.latencyMs ?? null,
+      lastChecked: latest?.timestamp ?? null,
+      history: [...this.history],
+    };
+  }
+
+  async check(): Promise<HealthSample | null> {
+    if (this.checking) return null;
+    this.checking = true;
+
+    const timestamp = Date.now();
+    let sample: HealthSample;
+    let change: ExtensionChangeReason | null = null;
+
+    try {
+      const extension = window.bodhiext;
+      if (!extension) {
+        throw new ExtensionChangedError('extension-removed', 'Bodhi extension is no longer available');
+      }
+
+      const currentId = await withTimeout(extension.getExtensionId(), this.intervalMs);
+      if (currentId !== this.client.getExtensionId()) {
+        throw new ExtensionChangedError('extension-reloaded', 'Bodhi extension was reloaded');
+      }
+
+      const start = performance.now();
+      await withTimeout(this.client.ping(), this.intervalMs);
+      const latencyMs = Math.round(performance.now() - start);
+
+      const serverState = await withTimeout(this.client.serverState(), this.intervalMs);
+      if (serverState.status !== 'ready') {
+        change = 'server-not-ready';
+      }
+
+      sample = {
+        timestamp,
+        ok: serverState.status === 'ready',
+        latencyMs,
+        serverStatus: serverState.status,
+        error: serverState.error?.message ?? null,
+      };
+      this.consecutiveFailures = 0;
+    } catch (error) {
+      this.consecutiveFailures++;
+      if (error instanceof ExtensionChangedError) {
+        change = error.reason;
+      } else if (this.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+        change = 'extension-unresponsive';
+      }
+
+      sample = {
+        timestamp,
+        ok: false,
+        latencyMs: null,
+        serverStatus: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      this.checking = false;
+    }
+
+    this.history = [...this.history, sample].slice(-this.historySize);
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+
+    if (change) {
+      const reason = change;
+      this.changeListeners.forEach(listener => listener(reason));
+    }
+    return sample;
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runSandboxedScript, SANDBOX_TIMEOUT_MS } from '@/lib/js-sandbox';
+import { RequestAbortedError } from '@/types/extension';
+import { ToolError } from '@/types/tools';
+
+function sandboxFrame(): HTMLIFrameElement | null {
+  return document.querySelector('iframe');
+}
+
+// jsdom does not run the frame's script, so tests play its side: announce that it is
+// ready and take the script and the reply port the app hands over
+function connectFrame(): { code: unknown; port: MessagePort } {
+  const frameWindow = sandboxFrame()!.contentWindow!;
+  const postMessage = vi.spyOn(frameWindow, 'postMessage').mockImplementation(() => {});
+  window.dispatchEvent(new MessageEvent('message', { data: 'sandbox-ready', source: frameWindow }));
+  const [code, , transfer] = postMessage.mock.calls[0] as unknown as [unknown, string, MessagePort[]];
+  return { code, port: transfer[0] };
+}
+
+describe('runSandboxedScript', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Worker', class {});
+  });
+
+  it('runs the code in an opaque-origin frame without network access and removes it afterwards', async () => {
+    const running = runSandboxedScript('return 6 * 7;');
+    const frame = sandboxFrame()!;
+
+    expect(frame.getAttribute('sandbox')).toBe('allow-scripts');
+    expect(frame.srcdoc).toContain("default-src 'none'");
+    expect(frame.srcdoc).toContain("connect-src 'none'");
+
+    const { code, port } = connectFrame();
+    expect(code).toBe('return 6 * 7;');
+    port.postMessage({ ok: true, result: '42', logs: ['computing'] });
+
+    await expect(running).resolves.toEqual({ result: '42', logs: ['computing'] });
+    expect(sandboxFrame()).toBeNull();
+  });
+
+  it('only hands the script to its own frame', async () => {
+    const running = runSandboxedScript('return 1', { timeoutMs: 50 });
+    const postMessage = vi.spyOn(sandboxFrame()!.contentWindow!, 'postMessage');
+
+    window.dispatchEvent(new MessageEvent('message', { data: 'sandbox-ready', source: window }));
+
+    expect(postMessage).not.toHaveBeenCalled();
+    await expect(running).rejects.toBeInstanceOf(ToolError);
+  });
+
+  it('reports script errors and malformed replies as tool errors', async () => {
+    const thrown = runSandboxedScript('throw new Error("bad")');
+    connectFrame().port.postMessage({ ok: false, error: 'Error: bad', logs: [] });
+    await expect(thrown).rejects.toEqual(new ToolError('Error: bad'));
+
+    const forged = runSandboxedScript('self.postMessage("hello")');
+    connectFrame().port.postMessage('hello');
+    await expect(forged).rejects.toEqual(new ToolError('Script sent an invalid reply'));
+    expect(sandboxFrame()).toBeNull();
+  });
+
+  it('truncates long output', async () => {
+    const running = runSandboxedScript('return "x".repeat(10000)');
+    connectFrame().port.postMessage({ ok: true, result: 'x'.repeat(10000), logs: [] });
+
+    const { result } = await running;
+    expect(result).toHaveLength(4000 + '... (truncated)'.length);
+    expect(result.endsWith('... (truncated)')).toBe(true);
+  });
+
+  it('removes the frame when a script runs past the timeout', async () => {
+    vi.useFakeTimers();
+    const running = runSandboxedScript('while (true) {}');
+    connectFrame();
+    const assertion = expect(running).rejects.toThrow(`Script did not finish within ${SANDBOX_TIMEOUT_MS / 1000}s`);
+
+    await vi.advanceTimersByTimeAsync(SANDBOX_TIMEOUT_MS);
+
+    await assertion;
+    expect(sandboxFrame()).toBeNull();
+  });
+
+  it('removes the frame when the request is cancelled', async () => {
+    const controller = new AbortController();
+    const running = runSandboxedScript('while (true) {}', { signal: controller.signal });
+
+    controller.abort();
+
+    await expect(running).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(sandboxFrame()).toBeNull();
+    await expect(runSandboxedScript('return 1', { signal: controller.signal })).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+
+  it('fails clearly without Web Worker support', async () => {
+    vi.stubGlobal('Worker', undefined);
+
+    await expect(runSandboxedScript('return 1')).rejects.toThrow('needs Web Worker support');
+  });
+});
@@ -0,0 +1,138 @@
+import { RequestAbortedError } from '@/types/extension';
+import { ToolError } from '@/types/tools';
+
+export const SANDBOX_TIMEOUT_MS = 5000;
+// Longer output is cut so a runaway loop of console.log does not flood the model's context
+const MAX_OUTPUT_LENGTH = 4000;
+
+export interface SandboxResult {
+  result: string;
+  logs: string[];
+}
+
+// Runs inside a dedicated worker started by the sandbox frame, so it can be stopped
+// and has no DOM. The script is the body of an async function.
+const WORKER_SOURCE = `
+'use strict';
+const post = self.postMessage.bind(self);
+const format = value => {
+  if (typeof value === 'string') return value;
+  if (value === undefined) return 'undefined';
+  try { return JSON.stringify(value) ?? String(value); } catch { return String(value); }
+};
+self.onmessage = async event => {
+  const logs = [];
+  const log = (...args) => logs.push(args.map(format).join(' '));
+  const sandboxConsole = { log, info: log, warn: log, error: log, debug: log };
+  try {
+    const run = new Function('console', '"use strict"; return (async () => {\\n' + event.data + '\\n})();');
+    const value = await run(sandboxConsole);
+    post({ ok: true, result: format(value), logs });
+  } catch (error) {
+    post({ ok: false, error: error instanceof Error ? error.name + ': ' + error.message : format(error), logs });
+  }
+};
+`;
+
+// The frame is sandboxed without allow-same-origin, so it and its worker get an opaque
+// origin: no access to the app's storage, IndexedDB or window. The CSP, which workers
+// created from blob: URLs inherit, blocks fetch, sockets and dynamic import().
+const FRAME_CSP = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'; worker-src blob:; connect-src 'none'";
+
+// Relays the script to a fresh worker and its reply back over the port the app sends
+const FRAME_SOURCE = `
+'use strict';
+const workerUrl = URL.createObjectURL(new Blob([${JSON.stringify(WORKER_SOURCE)}], { type: 'text/javascript' }));
+window.addEventListener('message', event => {
+  const port = event.ports[0];
+  if (event.source !== window.parent || !port) return;
+  const worker = new Worker(workerUrl);
+  worker.onmessage = reply => port.postMessage(reply.data);
+  worker.onerror = error => {
+    error.preventDefault();
+    port.postMessage({ ok: false, error: error.message || 'Script failed to run', logs: [] });
+  };
+  worker.postMessage(event.data);
+});
+window.parent.postMessage('sandbox-ready', '*');
+`;
+
+const FRAME_HTML = `<!doctype html><meta http-equiv="Content-Security-Policy" content="${FRAME_CSP}"><script>${FRAME_SOURCE}</script>`;
+
+type WorkerReply = { ok: true; result: string; logs: string[] } | { ok: false; error: string; logs: string[] };
+
+// The script can post its own messages from the worker, so replies are checked before use
+function isWorkerReply(data: unknown): data is WorkerReply {
+  if (!data || typeof data !== 'object') return false;
+  const reply = data as Record<string, unknown>;
+  const logsValid = Array.isArray(reply.logs) && reply.logs.every(log => typeof log === 'string');
+  return logsValid && (reply.ok === true ? typeof reply.result === 'string' : typeof reply.error === 'string');
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_OUTPUT_LENGTH ? `${text.slice(0, MAX_OUTPUT_LENGTH)}... (truncated)` : text;
+}
+
+// Each run gets a fresh frame and worker that are removed afterwards, so nothing leaks
+// between calls and an infinite loop is stopped by the timeout
+export function runSandboxedScript(
+  code: string,
+  options: { timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<SandboxResult> {
+  if (typeof Worker === 'undefined') {
+    return Promise.reject(new Error('JavaScript sandbox needs Web Worker support'));
+  }
+  if (options.signal?.aborted) {
+    return Promise.reject(new RequestAbortedError());
+  }
+
+  const timeoutMs = options.timeoutMs ?? SANDBOX_TIMEOUT_MS;
+  const frame = document.createElement('iframe');
+  frame.setAttribute('sandbox', 'allow-scripts');
+  frame.hidden = true;
+  frame.srcdoc = FRAME_HTML;
+  const channel = new MessageChannel();
+
+  return new Promise<SandboxResult>((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      window.removeEventListener('message', onFrameReady);
+      channel.port1.close();
+      // Removing the frame also ends its worker
+      frame.remove();
+    };
+    const onAbort = () => {
+      finish();
+      reject(new RequestAbortedError());
+    };
+    // The frame's origin is opaque, so it is recognised by its window rather than its origin
+    const onFrameReady = (event: MessageEvent) => {
+      if (event.source !== frame.contentWindow || event.data !== 'sandbox-ready') return;
+      window.removeEventListener('message', onFrameReady);
+      frame.contentWindow?.postMessage(code, '*', [channel.port2]);
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new ToolError(`Script did not finish within ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+    options.signal?.addEventListener('abort', onAbort);
+
+    channel.port1.onmessage = (event: MessageEvent<unknown>) => {
+      finish();
+      const reply = event.data;
+      if (!isWorkerReply(reply)) {
+        reject(new ToolError('Script sent an invalid reply'));
+        return;
+      }
+      const logs = reply.logs.map(truncate);
+      if (reply.ok) {
+        resolve({ result: truncate(reply.result), logs });
+      } else {
+        reject(new ToolError(truncate(reply.error)));
+      }
+    };
+    window.addEventListener('message', onFrameReady);
+    document.body.appendChild(frame);
+  });
+}
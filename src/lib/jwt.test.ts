@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { decodeJwtPayload, parseTokenClaims } from '@/lib/jwt';
+
+function base64Url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function createJwt(payload: object): string {
+  return `${base64Url({ alg: 'RS256', typ: 'JWT' })}.${base64Url(payload)}.signature`;
+}
+
+describe('decodeJwtPayload', () => {
+  it('decodes base64url payloads including non-ASCII text', () => {
+    expect(decodeJwtPayload(createJwt({ name: 'Zoë ✓' }))).toEqual({ name: 'Zoë ✓' });
+  });
+
+  it('rejects tokens that are not JWTs', () => {
+    expect(() => decodeJwtPayload('opaque-token')).toThrow('Token is not a JWT');
+    expect(() => decodeJwtPayload(`a.${base64Url([1])}.c`)).toThrow('not an object');
+  });
+});
+
+describe('parseTokenClaims', () => {
+  const payload = {
+    sub: 'user-123',
+    iss: 'https://id.example.com/realms/bodhi',
+    exp: 1700000300,
+    iat: 1700000000,
+    email: 'user@example.com',
+    scope: 'openid email scope_user_user scope_resource_abc',
+    realm_access: { roles: ['offline_access'] },
+    resource_access: {
+      'resource-abc': { roles: ['resource_power_user', 'resource_user'] },
+      account: { roles: ['offline_access', 'view-profile'] },
+    },
+  };
+
+  it('extracts subject, times, scopes and de-duplicated roles', () => {
+    expect(parseTokenClaims(createJwt(payload))).toEqual({
+      subject: 'user-123',
+      issuer: 'https://id.example.com/realms/bodhi',
+      expiresAt: 1700000300000,
+      issuedAt: 1700000000000,
+      scopes: ['openid', 'email', 'scope_user_user', 'scope_resource_abc'],
+      roles: ['offline_access', 'resource_power_user', 'resource_user', 'view-profile'],
+      resourceScope: 'scope_resource_abc',
+      email: 'user@example.com',
+    });
+  });
+
+  it('prefers the requested resource scope when it was granted', () => {
+    const token = createJwt({ ...payload, scope: 'scope_resource_other scope_resource_abc' });
+
+    expect(parseTokenClaims(token, 'scope_resource_abc').resourceScope).toBe('scope_resource_abc');
+    expect(parseTokenClaims(token, 'scope_resource_missing').resourceScope).toBe('scope_resource_other');
+  });
+
+  it('tolerates missing optional claims', () => {
+    expect(parseTokenClaims(createJwt({}))).toEqual({
+      subject: null,
+      issuer: null,
+      expiresAt: null,
+      issuedAt: null,
+      scopes: [],
+      roles: [],
+      resourceScope: null,
+      email: null,
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import type { TokenClaims } from '@/types/auth';
+
+const RESOURCE_SCOPE_PREFIX = 'scope_resource';
+
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const bytes = Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+export function decodeJwtPayload(token: string): Record<string, unknown> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Token is not a JWT');
+  }
+  const payload = JSON.parse(decodeBase64Url(parts[1]));
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new Error('JWT payload is not an object');
+  }
+  return payload;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function secondsToMs(value: unknown): number | null {
+  return typeof value === 'number' ? value * 1000 : null;
+}
+
+function rolesFrom(value: unknown): string[] {
+  const roles = (value as { roles?: unknown } | null)?.roles;
+  return Array.isArray(roles) ? roles.filter((role): role is string => typeof role === 'string') : [];
+}
+
+// Collects Keycloak realm and client roles into one de-duplicated list
+function collectRoles(payload: Record<string, unknown>): string[] {
+  const roles = rolesFrom(payload.realm_access);
+  const resourceAccess = payload.resource_access;
+  if (typeof resourceAccess === 'object' && resourceAccess !== null) {
+    for (const client of Object.values(resourceAccess)) {
+      roles.push(...rolesFrom(client));
+    }
+  }
+  return [...new Set(roles)];
+}
+
+export function parseTokenClaims(token: string, requestedResourceScope: string | null = null): TokenClaims {
+  const payload = decodeJwtPayload(token);
+  const scopes = typeof payload.scope === 'string' ? payload.scope.split(' ').filter(Boolean) : [];
+  const resourceScope = requestedResourceScope && scopes.includes(requestedResourceScope)
+    ? requestedResourceScope
+    : scopes.find(scope => scope.startsWith(RESOURCE_SCOPE_PREFIX)) ?? null;
+
+  return {
+    subject: stringOrNull(payload.sub),
+    issuer: stringOrNull(payload.iss),
+    expiresAt: secondsToMs(payload.exp),
+    issuedAt: secondsToMs(payload.iat),
+    scopes,
+    roles: collectRoles(payload),
+    resourceScope,
+    email: stringOrNull(payload.email),
+  };
+}
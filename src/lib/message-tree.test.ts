@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendMessage,
+  createMessageTree,
+  getActiveBranch,
+  getActiveMessages,
+  getBranchPosition,
+  getLeafId,
+  getPathMessages,
+  removeMessage,
+  switchBranch,
+  updateMessage,
+} from '@/lib/message-tree';
+import type { Message } from '@/types/chat';
+
+const conversation: Message[] = [
+  { role: 'user', content: 'hi' },
+  { role: 'assistant', content: 'hello' },
+  { role: 'user', content: 'how are you?' },
+];
+
+describe('message tree', () => {
+  it('builds a linear tree from a flat conversation', () => {
+    const tree = createMessageTree(conversation);
+
+    expect(getActiveMessages(tree)).toEqual(conversation);
+    expect(tree.rootIds).toHaveLength(1);
+  });
+
+  it('adds siblings and follows the newest one', () => {
+    const tree = createMessageTree(conversation);
+    const [, replyId] = getActiveBranch(tree).map(node => node.id);
+    const reply = tree.nodes[replyId];
+
+    const { tree: branched, id } = appendMessage(tree, reply.parentId, { role: 'assistant', content: 'hey' });
+
+    expect(getActiveMessages(branched).map(message => message.content)).toEqual(['hi', 'hey']);
+    expect(getBranchPosition(branched, id)).toEqual({ index: 1, count: 2 });
+    expect(getBranchPosition(branched, replyId)).toEqual({ index: 0, count: 2 });
+  });
+
+  it('restores the descendants of a branch when switching back to it', () => {
+    const tree = createMessageTree(conversation);
+    const [, replyId] = getActiveBranch(tree).map(node => node.id);
+    const { tree: branched, id } = appendMessage(tree, tree.nodes[replyId].parentId, { role: 'assistant', content: 'hey' });
+
+    const switched = switchBranch(branched, id, -1);
+
+    expect(getActiveMessages(switched)).toEqual(conversation);
+    expect(switchBranch(switched, replyId, -1)).toBe(switched);
+  });
+
+  it('supports alternative first messages', () => {
+    const tree = createMessageTree(conversation);
+    const { tree: branched, id } = appendMessage(tree, null, { role: 'user', content: 'bonjour' });
+
+    expect(getActiveMessages(branched)).toEqual([{ role: 'user', content: 'bonjour' }]);
+    expect(getActiveMessages(switchBranch(branched, id, -1))).toEqual(conversation);
+  });
+
+  it('returns the path to a node regardless of the active branch', () => {
+    const tree = createMessageTree(conversation);
+    const [firstId, replyId] = getActiveBranch(tree).map(node => node.id);
+    const { tree: branched } = appendMessage(tree, firstId, { role: 'assistant', content: 'hey' });
+
+    expect(getPathMessages(branched, replyId)).toEqual(conversation.slice(0, 2));
+    expect(getPathMessages(branched, null)).toEqual([]);
+  });
+
+  it('updates a message in place', () => {
+    const tree = createMessageTree(conversation);
+    const leafId = getLeafId(tree)!;
+
+    const updated = updateMessage(tree, leafId, { role: 'user', content: 'changed' });
+
+    expect(getActiveMessages(updated).at(-1)?.content).toBe('changed');
+    expect(getActiveMessages(tree).at(-1)?.content).toBe('how are you?');
+  });
+
+  it('removes a leaf and falls back to the newest remaining sibling', () => {
+    const tree = createMessageTree(conversation);
+    const [firstId] = getActiveBranch(tree).map(node => node.id);
+    const { tree: branched, id } = appendMessage(tree, firstId, { role: 'assistant', content: '' });
+
+    const removed = removeMessage(branched, id);
+
+    expect(getActiveMessages(removed)).toEqual(conversation);
+    expect(removed.nodes[id]).toBeUndefined();
+    expect(removeMessage(removed, firstId)).toBe(removed);
+  });
+});
+
@@ -0,0 +1,125 @@
+import type { BranchPosition, Message, MessageNode, MessageTree } from '@/types/chat';
+
+// All helpers are pure and return a new tree so React state updates stay cheap
+
+export function createMessageTree(messages: Message[] = []): MessageTree {
+  let tree: MessageTree = { nodes: {}, rootIds: [], activeRootId: null };
+  let parentId: string | null = null;
+  for (const message of messages) {
+    const result = appendMessage(tree, parentId, message);
+    tree = result.tree;
+    parentId = result.id;
+  }
+  return tree;
+}
+
+function childIdsOf(tree: MessageTree, parentId: string | null): string[] {
+  return parentId === null ? tree.rootIds : tree.nodes[parentId]?.childIds ?? [];
+}
+
+function setActiveChild(tree: MessageTree, parentId: string | null, childId: string | null): MessageTree {
+  if (parentId === null) {
+    return { ...tree, activeRootId: childId };
+  }
+  const parent = tree.nodes[parentId];
+  return {
+    ...tree,
+    nodes: { ...tree.nodes, [parentId]: { ...parent, activeChildId: childId } },
+  };
+}
+
+export function getActiveBranch(tree: MessageTree): MessageNode[] {
+  const branch: MessageNode[] = [];
+  let node = tree.activeRootId ? tree.nodes[tree.activeRootId] : undefined;
+  while (node) {
+    branch.push(node);
+    node = node.activeChildId ? tree.nodes[node.activeChildId] : undefined;
+  }
+  return branch;
+}
+
+export function getActiveMessages(tree: MessageTree): Message[] {
+  return getActiveBranch(tree).map(node => node.message);
+}
+
+// Messages from the root down to and including the given node
+export function getPathMessages(tree: MessageTree, id: string | null): Message[] {
+  const messages: Message[] = [];
+  let node = id ? tree.nodes[id] : undefined;
+  while (node) {
+    messages.unshift(node.message);
+    node = node.parentId ? tree.nodes[node.parentId] : undefined;
+  }
+  return messages;
+}
+
+export function getLeafId(tree: MessageTree): string | null {
+  return getActiveBranch(tree).at(-1)?.id ?? null;
+}
+
+// Adds a message under the parent (null for a new first message) and makes it active
+export function appendMessage(
+  tree: MessageTree,
+  parentId: string | null,
+  message: Message
+): { tree: MessageTree; id: string } {
+  const id = crypto.randomUUID();
+  const node: MessageNode = {
+    id,
+    parentId,
+    childIds: [],
+    activeChildId: null,
+    message,
+    createdAt: Date.now(),
+  };
+
+  const nodes = { ...tree.nodes, [id]: node };
+  if (parentId === null) {
+    return { tree: { nodes, rootIds: [...tree.rootIds, id], activeRootId: id }, id };
+  }
+
+  const parent = tree.nodes[parentId];
+  nodes[parentId] = { ...parent, childIds: [...parent.childIds, id], activeChildId: id };
+  return { tree: { ...tree, nodes }, id };
+}
+
+export function updateMessage(tree: MessageTree, id: string, message: Message): MessageTree {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [id]: { ...node, message } } };
+}
+
+// Removes a leaf, falling back to the newest remaining sibling
+export function removeMessage(tree: MessageTree, id: string): MessageTree {
+  const node = tree.nodes[id];
+  if (!node || node.childIds.length > 0) return tree;
+
+  const nodes = { ...tree.nodes };
+  delete nodes[id];
+  const siblings = childIdsOf(tree, node.parentId).filter(siblingId => siblingId !== id);
+  const fallback = siblings.at(-1) ?? null;
+
+  if (node.parentId === null) {
+    return { nodes, rootIds: siblings, activeRootId: fallback };
+  }
+  const parent = tree.nodes[node.parentId];
+  return {
+    ...tree,
+    nodes: { ...nodes, [parent.id]: { ...parent, childIds: siblings, activeChildId: fallback } },
+  };
+}
+
+export function getBranchPosition(tree: MessageTree, id: string): BranchPosition {
+  const node = tree.nodes[id];
+  const siblings = node ? childIdsOf(tree, node.parentId) : [];
+  return { index: siblings.indexOf(id), count: siblings.length };
+}
+
+// Moves the active branch to a sibling of the node; offset -1 is the previous version
+export function switchBranch(tree: MessageTree, id: string, offset: number): MessageTree {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  const siblings = childIdsOf(tree, node.parentId);
+  const target = siblings[siblings.indexOf(id) + offset];
+  return target ? setActiveChild(tree, node.parentId, target) : tree;
+}
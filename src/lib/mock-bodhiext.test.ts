@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { resolveMockOptions } from '@/lib/mock-bodhiext';
+
+describe('resolveMockOptions', () => {
+  it('reads the mock settings from the query and keeps them for the session', () => {
+    expect(resolveMockOptions('?bodhiext=mock&mockLatency=300&mockRole=resource_admin')).toEqual({
+      latencyMs: 300,
+      role: 'resource_admin',
+    });
+    expect(resolveMockOptions('')).toEqual({ latencyMs: 300, role: 'resource_admin' });
+  });
+
+  it('uses the mock in forced builds by default', () => {
+    expect(resolveMockOptions('', true)).toEqual({});
+    expect(resolveMockOptions('')).toBeNull();
+  });
+
+  it('lets ?bodhiext=real override a forced mock for the rest of the session', () => {
+    resolveMockOptions('?bodhiext=mock');
+
+    expect(resolveMockOptions('?bodhiext=real', true)).toBeNull();
+    expect(resolveMockOptions('', true)).toBeNull();
+
+    expect(resolveMockOptions('?bodhiext=mock', true)).toEqual({});
+  });
+});
@@ -0,0 +1,445 @@
+import type { ApiResponse, StreamChunk, ServerStateInfo } from '@/types/extension';
+import type { LocalModelFile, ModelAlias, ModelAliasRequest, ModelDownload, PullModelRequest } from '@/types/api';
+
+type Bodhiext = NonNullable<Window['bodhiext']>;
+
+export type MockApiHandler = (
+  body: unknown,
+  headers: Record<string, string>
+) => ApiResponse | Promise<ApiResponse>;
+
+export interface MockBodhiextOptions {
+  extensionId?: string;
+  // Delay applied to every call, and between streamed chunks
+  latencyMs?: number;
+  serverStatus?: ServerStateInfo['status'];
+  models?: string[];
+  // Role reported by /bodhi/v1/user
+  role?: string;
+  // Forces every API and stream request to fail with this HTTP status
+  errorStatus?: number;
+  // Scripted responses keyed by "METHOD /endpoint", overriding the defaults.
+  // Path segments starting with ":" match any value, as in PUT /bodhi/v1/models/:alias
+  responses?: Record<string, ApiResponse | MockApiHandler>;
+}
+
+const MOCK_QUERY_PARAM = 'bodhiext';
+const MOCK_SESSION_KEY = 'bodhi_mock_bodhiext';
+const REAL_EXTENSION = 'real';
+const SERVER_STATUSES: ServerStateInfo['status'][] = ['setup', 'ready', 'resource-admin', 'error', 'unreachable'];
+const DEFAULT_MODELS = ['mock-llama3:instruct', 'mock-phi4:mini'];
+const EMBEDDING_DIMENSIONS = 16;
+// Each poll of the download list advances pending downloads by this many bytes
+const MOCK_DOWNLOAD_STEP = 256 * 1024 * 1024;
+const MOCK_DOWNLOAD_SIZE = 1024 * 1024 * 1024;
+
+const delay = (ms: number): Promise<void> =>
+  ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+
+function jsonResponse(status: number, body: unknown): ApiResponse {
+  return { status, body, headers: { 'content-type': 'application/json' } };
+}
+
+function errorResponse(status: number, message: string, type = 'invalid_request_error'): ApiResponse {
+  return jsonResponse(status, { error: { message, type, code: String(status) } });
+}
+
+function lastUserMessage(body: unknown): string {
+  const messages = (body as { messages?: { role: string; content: string }[] })?.messages ?? [];
+  const message = [...messages].reverse().find(m => m.role === 'user');
+  return message?.content ?? '';
+}
+
+interface MockChatBody {
+  messages?: { role: string; content: string | null }[];
+  tools?: { function: { name: string } }[];
+}
+
+// Calls a tool the way a tool-capable model would: the calculator for a user message
+// containing arithmetic, the date/time tool for one asking about the time or date
+function mockToolCall(body: unknown): { name: string; arguments: string } | null {
+  const { messages = [], tools = [] } = (body ?? {}) as MockChatBody;
+  const last = messages[messages.length - 1];
+  const toolNames = tools.map(tool => tool.function.name);
+  if (last?.role !== 'user' || !last.content || toolNames.length === 0) return null;
+
+  const expression = last.content.match(/[\d.(][\d\s.+\-*/^%()]*[\d)]/)?.[0];
+  if (toolNames.includes('calculator') && expression && /[+\-*/^%]/.test(expression)) {
+    return { name: 'calculator', arguments: JSON.stringify({ expression: expression.trim() }) };
+  }
+  if (toolNames.includes('current_datetime') && /\b(time|date|today)\b/i.test(last.content)) {
+    return { name: 'current_datetime', arguments: '{}' };
+  }
+  return null;
+}
+
+function mockReply(body: unknown): string {
+  const messages = (body as MockChatBody)?.messages ?? [];
+  const last = messages[messages.length - 1];
+  if (last?.role === 'tool') {
+    return `The tool returned: ${last.content}`;
+  }
+  const prompt = lastUserMessage(body);
+  return prompt
+    ? `This is a mock response from the Bodhi extension. You said: "${prompt}"`
+    : 'This is a mock response from the Bodhi extension.';
+}
+
+// Deterministic per-text vector so similarity searches behave consistently across runs
+function mockEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (let i = 0; i < text.length; i++) {
+    vector[i % EMBEDDING_DIMENSIONS] += text.charCodeAt(i) / 1000;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+}
+
+// Smallest value that satisfies common schemas, so structured output works against the mock
+function mockFromSchema(schema: unknown): unknown {
+  const node = (schema ?? {}) as {
+    type?: string | string[];
+    enum?: unknown[];
+    const?: unknown;
+    properties?: Record<string, unknown>;
+    items?: unknown;
+    minimum?: number;
+    anyOf?: unknown[];
+    oneOf?: unknown[];
+  };
+  if ('const' in node) return node.const;
+  if (node.enum?.length) return node.enum[0];
+  const variants = node.anyOf ?? node.oneOf;
+  if (variants?.length) return mockFromSchema(variants[0]);
+
+  const type = Array.isArray(node.type) ? node.type[0] : node.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(node.properties ?? {}).map(([key, value]) => [key, mockFromSchema(value)])
+      );
+    case 'array':
+      return [mockFromSchema(node.items)];
+    case 'integer':
+    case 'number':
+      return node.minimum ?? 1;
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      return 'mock';
+  }
+}
+
+// With response_format the reply is JSON: a value matching the json_schema, or an object for json_object
+function mockStructuredReply(body: unknown): string | null {
+  const format = (body as { response_format?: { type: string; json_schema?: { schema?: unknown } } })?.response_format;
+  if (!format || format.type === 'text') return null;
+  if (format.type === 'json_schema') return JSON.stringify(mockFromSchema(format.json_schema?.schema));
+  return JSON.stringify({ reply: mockReply(body) });
+}
+
+function countTokens(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function paginated(items: unknown[]): unknown {
+  return { data: items, total: items.length, page: 1, page_size: items.length };
+}
+
+// Model files, aliases and downloads kept in memory so the models page can be used against the mock
+function modelManagementResponses(models: string[]): Record<string, MockApiHandler> {
+  const files: LocalModelFile[] = models.map(model => ({
+    repo: `mock/${model.split(':')[0]}-GGUF`,
+    filename: `${model.replace(':', '-')}.Q4_K_M.gguf`,
+    snapshot: 'main',
+    size: MOCK_DOWNLOAD_SIZE,
+  }));
+  const aliases: ModelAlias[] = models.map((alias, index) => ({
+    alias,
+    repo: files[index].repo,
+    filename: files[index].filename,
+    snapshot: 'main',
+    source: 'user',
+    request_params: {},
+    context_params: [],
+  }));
+  const downloads: ModelDownload[] = [];
+
+  const saveAlias = (body: unknown, status: number): ApiResponse => {
+    const request = body as ModelAliasRequest;
+    const alias: ModelAlias = { snapshot: 'main', ...request, source: 'user' };
+    const index = aliases.findIndex(existing => existing.alias === request.alias);
+    if (index === -1) {
+      aliases.push(alias);
+    } else {
+      aliases[index] = alias;
+    }
+    return jsonResponse(status, alias);
+  };
+
+  return {
+    'GET /bodhi/v1/modelfiles': () => jsonResponse(200, paginated(files)),
+    'GET /bodhi/v1/models': () => jsonResponse(200, paginated(aliases)),
+    'POST /bodhi/v1/models': body => {
+      if (aliases.some(alias => alias.alias === (body as ModelAliasRequest)?.alias)) {
+        return errorResponse(409, 'Alias already exists');
+      }
+      return saveAlias(body, 201);
+    },
+    'PUT /bodhi/v1/models/:alias': body => saveAlias(body, 200),
+    'POST /bodhi/v1/modelfiles/pull': body => {
+      const { repo, filename } = body as PullModelRequest;
+      const now = new Date().toISOString();
+      const download: ModelDownload = {
+        id: `download-${downloads.length + 1}`,
+        repo,
+        filename,
+        status: 'pending',
+        error: null,
+        total_bytes: MOCK_DOWNLOAD_SIZE,
+        downloaded_bytes: 0,
+        created_at: now,
+        updated_at: now,
+      };
+      downloads.unshift(download);
+      return jsonResponse(201, download);
+    },
+    'GET /bodhi/v1/modelfiles/pull': () => {
+      for (const download of downloads.filter(item => item.status === 'pending')) {
+        download.downloaded_bytes = Math.min((download.downloaded_bytes ?? 0) + MOCK_DOWNLOAD_STEP, MOCK_DOWNLOAD_SIZE);
+        download.updated_at = new Date().toISOString();
+        if (download.downloaded_bytes === MOCK_DOWNLOAD_SIZE) {
+          download.status = 'completed';
+          files.push({ repo: download.repo, filename: download.filename, snapshot: 'main', size: MOCK_DOWNLOAD_SIZE });
+        }
+      }
+      return jsonResponse(200, paginated(downloads));
+    },
+  };
+}
+
+function defaultResponses(models: string[], role: string): Record<string, MockApiHandler> {
+  return {
+    ...modelManagementResponses(models),
+    'POST /bodhi/v1/auth/request-access': () =>
+      jsonResponse(200, { scope: 'scope_resource_mock' }),
+    'GET /bodhi/v1/user': () =>
+      jsonResponse(200, { logged_in: true, email: 'mock.user@example.com', role }),
+    'GET /v1/models': () =>
+      jsonResponse(200, {
+        object: 'list',
+        data: models.map(id => ({ id, object: 'model', created: 0, owned_by: 'mock' })),
+      }),
+    'POST /v1/chat/completions': body => {
+      const content = mockStructuredReply(body) ?? mockReply(body);
+      const promptTokens = countTokens(lastUserMessage(body));
+      const completionTokens = countTokens(content);
+      return jsonResponse(200, {
+        id: 'chatcmpl-mock',
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: (body as { model?: string })?.model ?? models[0],
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        },
+      });
+    },
+    'POST /v1/embeddings': body => {
+      const input = (body as { input?: string | string[] })?.input ?? [];
+      const inputs = Array.isArray(input) ? input : [input];
+      return jsonResponse(200, {
+        object: 'list',
+        data: inputs.map((text, index) => ({ object: 'embedding', index, embedding: mockEmbedding(text) })),
+        model: (body as { model?: string })?.model ?? models[0],
+        usage: { prompt_tokens: inputs.length, total_tokens: inputs.length },
+      });
+    },
+  };
+}
+
+export function createMockBodhiext(options: MockBodhiextOptions = {}): Bodhiext {
+  const extensionId = options.extensionId ?? 'mock-bodhiext';
+  const latencyMs = options.latencyMs ?? 0;
+  const serverStatus = options.serverStatus ?? 'ready';
+  const models = options.models ?? DEFAULT_MODELS;
+  const responses = { ...defaultResponses(models, options.role ?? 'resource_user'), ...options.responses };
+
+  const findResponse = (key: string): ApiResponse | MockApiHandler | undefined => {
+    if (responses[key]) return responses[key];
+    const segments = key.split('/');
+    const pattern = Object.keys(responses).find(candidate => {
+      const candidateSegments = candidate.split('/');
+      return candidateSegments.length === segments.length
+        && candidateSegments.every((segment, index) => segment.startsWith(':') || segment === segments[index]);
+    });
+    return pattern ? responses[pattern] : undefined;
+  };
+
+  const respond = async (
+    method: string,
+    endpoint: string,
+    body: unknown,
+    headers: Record<string, string> = {}
+  ): Promise<ApiResponse> => {
+    if (options.errorStatus) {
+      return errorResponse(options.errorStatus, `Mock error with status ${options.errorStatus}`);
+    }
+    if (serverStatus !== 'ready') {
+      return errorResponse(503, `Bodhi server is not ready (status: ${serverStatus})`, 'service_unavailable');
+    }
+
+    const key = `${method.toUpperCase()} ${endpoint.split('?')[0]}`;
+    const response = findResponse(key);
+    if (!response) {
+      return errorResponse(404, `No mock response for ${key}`, 'not_found_error');
+    }
+    return typeof response === 'function' ? response(body, headers) : response;
+  };
+
+  async function* streamChatCompletion(body: unknown): AsyncGenerator<StreamChunk> {
+    const content = mockReply(body);
+    const model = (body as { model?: string })?.model ?? models[0];
+    const created = Math.floor(Date.now() / 1000);
+    const chunk = (delta: object, finishReason: string | null = null, extra: object = {}): StreamChunk => ({
+      status: 200,
+      body: {
+        id: 'chatcmpl-mock',
+        object: 'chat.completion.chunk',
+        created,
+        model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+        ...extra,
+      },
+    });
+
+    const toolCall = mockToolCall(body);
+    if (toolCall) {
+      yield chunk({ role: 'assistant' });
+      yield chunk({
+        tool_calls: [{ index: 0, id: 'call_mock_1', type: 'function', function: { name: toolCall.name, arguments: '' } }],
+      });
+      // Arguments arrive in pieces, as they do from a real server
+      const half = Math.ceil(toolCall.arguments.length / 2);
+      for (const piece of [toolCall.arguments.slice(0, half), toolCall.arguments.slice(half)]) {
+        await delay(latencyMs);
+        yield chunk({ tool_calls: [{ index: 0, function: { arguments: piece } }] });
+      }
+      yield chunk({}, 'tool_calls');
+      return;
+    }
+
+    yield chunk({ role: 'assistant', content: '' });
+    for (const word of content.match(/\S+\s*/g) ?? []) {
+      await delay(latencyMs);
+      yield chunk({ content: word });
+    }
+
+    const promptTokens = countTokens(lastUserMessage(body));
+    const completionTokens = countTokens(content);
+    yield chunk({}, 'stop', {
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    });
+  }
+
+  async function* singleChunk(response: ApiResponse): AsyncGenerator<StreamChunk> {
+    yield { status: response.status, body: response.body, headers: response.headers };
+  }
+
+  return {
+    async getExtensionId() {
+      await delay(latencyMs);
+      return extensionId;
+    },
+
+    async sendApiRequest(method, endpoint, body, headers) {
+      await delay(latencyMs);
+      return respond(method, endpoint, body, headers);
+    },
+
+    async sendStreamRequest(method, endpoint, body, headers) {
+      await delay(latencyMs);
+      const key = `${method.toUpperCase()} ${endpoint.split('?')[0]}`;
+      const isDefaultChat = key === 'POST /v1/chat/completions' && !options.responses?.[key];
+
+      if (isDefaultChat && !options.errorStatus && serverStatus === 'ready') {
+        return streamChatCompletion(body);
+      }
+      return singleChunk(await respond(method, endpoint, body, headers));
+    },
+
+    async ping() {
+      await delay(latencyMs);
+      return { message: 'pong' };
+    },
+
+    async serverState() {
+      await delay(latencyMs);
+      return {
+        status: serverStatus,
+        version: '0.0.0-mock',
+        url: 'http://localhost:1135',
+        ...(serverStatus === 'error' && {
+          error: { message: 'Mock server error', type: 'internal_server_error', code: 'mock_error' },
+        }),
+      };
+    },
+  };
+}
+
+export function installMockBodhiext(options: MockBodhiextOptions = {}): () => void {
+  const previous = window.bodhiext;
+  window.bodhiext = createMockBodhiext(options);
+  return () => {
+    window.bodhiext = previous;
+  };
+}
+
+// Reads mock settings from ?bodhiext=mock&mockLatency=300&mockServerStatus=setup&mockError=401&mockRole=resource_admin.
+// The choice is kept in sessionStorage so it survives the OAuth redirect round-trip.
+// An explicit ?bodhiext=real wins over forceEnabled for the rest of the session
+export function resolveMockOptions(search: string, forceEnabled = false): MockBodhiextOptions | null {
+  const params = new URLSearchParams(search);
+  const requested = params.get(MOCK_QUERY_PARAM);
+
+  if (requested === 'real') {
+    sessionStorage.setItem(MOCK_SESSION_KEY, REAL_EXTENSION);
+    return null;
+  }
+
+  if (requested === 'mock') {
+    const options: MockBodhiextOptions = {};
+    const latency = Number(params.get('mockLatency'));
+    const status = params.get('mockServerStatus') as ServerStateInfo['status'] | null;
+    const errorStatus = Number(params.get('mockError'));
+    const role = params.get('mockRole');
+
+    if (latency > 0) options.latencyMs = latency;
+    if (status && SERVER_STATUSES.includes(status)) options.serverStatus = status;
+    if (errorStatus >= 400) options.errorStatus = errorStatus;
+    if (role) options.role = role;
+
+    sessionStorage.setItem(MOCK_SESSION_KEY, JSON.stringify(options));
+    return options;
+  }
+
+  const stored = sessionStorage.getItem(MOCK_SESSION_KEY);
+  if (stored === REAL_EXTENSION) return null;
+  if (stored) {
+    try {
+      return JSON.parse(stored);
+    } catch {
+      sessionStorage.removeItem(MOCK_SESSION_KEY);
+    }
+  }
+
+  return forceEnabled ? {} : null;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aliasToForm,
+  buildAliasRequest,
+  formatBytes,
+  getDownloadProgress,
+  modelFileKey,
+  parsePullRequest,
+} from '@/lib/model-management';
+import { ModelFormError } from '@/types/models';
+import type { LocalModelFile, ModelAlias, ModelDownload } from '@/types/api';
+
+const FILE: LocalModelFile = { repo: 'owner/model-GGUF', filename: 'model.Q4_K_M.gguf', snapshot: 'abc123', size: 1024 };
+
+const ALIAS: ModelAlias = {
+  alias: 'fast',
+  repo: FILE.repo,
+  filename: FILE.filename,
+  snapshot: FILE.snapshot,
+  source: 'user',
+  request_params: { temperature: 0.2, max_tokens: 512, stop: ['</s>', ' END'] },
+  context_params: ['--ctx-size 4096'],
+};
+
+function download(changes: Partial<ModelDownload>): ModelDownload {
+  return {
+    id: 'd1',
+    repo: FILE.repo,
+    filename: FILE.filename,
+    status: 'pending',
+    created_at: '',
+    updated_at: '',
+    ...changes,
+  };
+}
+
+describe('formatBytes', () => {
+  it('picks a readable unit', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(4.2 * 1024 ** 3)).toBe('4.2 GB');
+    expect(formatBytes(null)).toBe('—');
+  });
+});
+
+describe('getDownloadProgress', () => {
+  it('reports the downloaded fraction', () => {
+    expect(getDownloadProgress(download({ total_bytes: 200, downloaded_bytes: 50 }))).toBe(0.25);
+    expect(getDownloadProgress(download({ status: 'completed' }))).toBe(1);
+    expect(getDownloadProgress(download({ total_bytes: null }))).toBeNull();
+  });
+});
+
+describe('parsePullRequest', () => {
+  it('accepts a repo and filename', () => {
+    expect(parsePullRequest(' owner/model-GGUF ', 'model.Q4_K_M.gguf')).toEqual({
+      repo: 'owner/model-GGUF',
+      filename: 'model.Q4_K_M.gguf',
+    });
+  });
+
+  it('reads both from a Hugging Face file URL', () => {
+    expect(parsePullRequest('https://huggingface.co/owner/model-GGUF/blob/main/sub%20dir/model.gguf', '')).toEqual({
+      repo: 'owner/model-GGUF',
+      filename: 'sub dir/model.gguf',
+    });
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => parsePullRequest('not a repo', 'model.bin')).toThrow(ModelFormError);
+    try {
+      parsePullRequest('not a repo', 'model.bin');
+    } catch (error) {
+      expect((error as ModelFormError).issues).toEqual(['Repo must look like owner/name', 'Filename must be a .gguf file']);
+    }
+  });
+});
+
+describe('alias forms', () => {
+  it('round-trips an alias through the form', () => {
+    const form = aliasToForm(ALIAS);
+
+    expect(form.modelFile).toBe(modelFileKey(FILE));
+    expect(form.stop).toBe('</s>\n END');
+    expect(buildAliasRequest(form, [FILE])).toEqual({
+      alias: 'fast',
+      repo: FILE.repo,
+      filename: FILE.filename,
+      snapshot: FILE.snapshot,
+      request_params: { temperature: 0.2, max_tokens: 512, stop: ['</s>', ' END'] },
+      context_params: ['--ctx-size 4096'],
+    });
+  });
+
+  it('leaves blank parameters to the server', () => {
+    const request = buildAliasRequest({ ...aliasToForm(), alias: 'plain', modelFile: modelFileKey(FILE) }, [FILE]);
+
+    expect(request.request_params).toEqual({});
+    expect(request.context_params).toEqual([]);
+  });
+
+  it('collects every problem with the form', () => {
+    const form = { ...aliasToForm(), alias: 'has space', maxTokens: '1.5', temperature: 'hot' };
+
+    try {
+      buildAliasRequest(form, [FILE]);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as ModelFormError).issues).toEqual([
+        'Alias cannot contain spaces',
+        'Choose a downloaded model file',
+        'Temperature must be a number',
+        'Max tokens must be a whole number',
+      ]);
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { ModelFormError } from '@/types/models';
+import type { AliasForm } from '@/types/models';
+import type { AliasRequestParams, LocalModelFile, ModelAlias, ModelAliasRequest, ModelDownload, PullModelRequest } from '@/types/api';
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+const HF_REPO_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+const HF_FILE_URL_PATTERN = /^https:\/\/huggingface\.co\/([\w.-]+\/[\w.-]+)\/(?:blob|resolve)\/[^/]+\/(.+)$/;
+
+export function formatBytes(bytes: number | null | undefined): string {
+  if (bytes === null || bytes === undefined) return '—';
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${BYTE_UNITS[unit]}`;
+}
+
+// Fraction between 0 and 1, or null while the server does not know the size yet
+export function getDownloadProgress(download: ModelDownload): number | null {
+  if (download.status === 'completed') return 1;
+  if (!download.total_bytes) return null;
+  return Math.min((download.downloaded_bytes ?? 0) / download.total_bytes, 1);
+}
+
+export function modelFileKey(file: Pick<LocalModelFile, 'repo' | 'filename'>): string {
+  return `${file.repo}|${file.filename}`;
+}
+
+// Accepts a repo and filename, or a Hugging Face file URL pasted into the repo field
+export function parsePullRequest(repo: string, filename: string): PullModelRequest {
+  const fromUrl = HF_FILE_URL_PATTERN.exec(repo.trim());
+  const request = fromUrl
+    ? { repo: fromUrl[1], filename: decodeURIComponent(fromUrl[2]) }
+    : { repo: repo.trim(), filename: filename.trim() };
+
+  const issues: string[] = [];
+  if (!HF_REPO_PATTERN.test(request.repo)) {
+    issues.push('Repo must look like owner/name');
+  }
+  if (!request.filename.toLowerCase().endsWith('.gguf')) {
+    issues.push('Filename must be a .gguf file');
+  }
+  if (issues.length > 0) {
+    throw new ModelFormError(issues);
+  }
+  return request;
+}
+
+function formatNumber(value: number | undefined): string {
+  return value === undefined ? '' : String(value);
+}
+
+export function aliasToForm(alias?: ModelAlias): AliasForm {
+  const params = alias?.request_params ?? {};
+  return {
+    alias: alias?.alias ?? '',
+    modelFile: alias ? modelFileKey(alias) : '',
+    temperature: formatNumber(params.temperature),
+    topP: formatNumber(params.top_p),
+    maxTokens: formatNumber(params.max_tokens),
+    seed: formatNumber(params.seed),
+    stop: params.stop?.join('\n') ?? '',
+    contextParams: alias?.context_params.join('\n') ?? '',
+  };
+}
+
+function lines(value: string): string[] {
+  return value.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+export function buildAliasRequest(form: AliasForm, files: LocalModelFile[]): ModelAliasRequest {
+  const issues: string[] = [];
+  const alias = form.alias.trim();
+  if (!alias) {
+    issues.push('Alias is required');
+  } else if (/\s/.test(alias)) {
+    issues.push('Alias cannot contain spaces');
+  }
+
+  const file = files.find(candidate => modelFileKey(candidate) === form.modelFile);
+  if (!file) {
+    issues.push('Choose a downloaded model file');
+  }
+
+  const params: AliasRequestParams = {};
+  const numberField = (value: string, label: string, key: 'temperature' | 'top_p' | 'max_tokens' | 'seed', integer: boolean) => {
+    if (!value.trim()) return;
+    const parsed = Number(value);
+    if (Number.isNaN(parsed) || (integer && !Number.isInteger(parsed))) {
+      issues.push(`${label} must be ${integer ? 'a whole number' : 'a number'}`);
+      return;
+    }
+    params[key] = parsed;
+  };
+  numberField(form.temperature, 'Temperature', 'temperature', false);
+  numberField(form.topP, 'Top P', 'top_p', false);
+  numberField(form.maxTokens, 'Max tokens', 'max_tokens', true);
+  numberField(form.seed, 'Seed', 'seed', true);
+  // Stop sequences may deliberately start or end with whitespace
+  const stop = form.stop.split('\n').filter(Boolean);
+  if (stop.length > 0) params.stop = stop;
+
+  if (issues.length > 0 || !file) {
+    throw new ModelFormError(issues);
+  }
+
+  return {
+    alias,
+    repo: file.repo,
+    filename: file.filename,
+    snapshot: file.snapshot,
+    request_params: params,
+    context_params: lines(form.contextParams),
+  };
+}
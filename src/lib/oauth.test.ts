@@ -0,0 +1,435 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OAuthManager, PKCEUtils, removeLegacyAuthStorage } from '@/lib/oauth';
+import { TokenRefreshError } from '@/types/auth';
+
+function tokenResponse(body: object, init: ResponseInit = { status: 200 }): Response {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function startLogin(manager: OAuthManager): Promise<URL> {
+  sessionStorage.setItem('bodhi_resource_scope', 'scope_resource_test');
+  return new URL(await manager.buildAuthUrl());
+}
+
+describe('PKCEUtils', () => {
+  it('generates lowercase random strings of the requested length', () => {
+    const value = PKCEUtils.generateRandomString(128);
+
+    expect(value).toHaveLength(128);
+    expect(value).toMatch(/^[a-z]+$/);
+    expect(PKCEUtils.generateRandomString(128)).not.toBe(value);
+  });
+
+  it('derives a base64url S256 challenge from the verifier', async () => {
+    const challenge = await PKCEUtils.generatePKCEChallenge('abc');
+
+    expect(crypto.subtle.digest).toHaveBeenCalledWith('SHA-256', expect.anything());
+    expect(challenge).toBe('ungWv48Bz-pBQUDeXa4iI7ADYaOWF3qctBD_YfIAFa0');
+    expect(challenge).not.toMatch(/[+/=]/);
+  });
+});
+
+describe('OAuthManager.buildAuthUrl', () => {
+  it('requires a resource scope', async () => {
+    await expect(new OAuthManager().buildAuthUrl()).rejects.toThrow('Resource scope not found');
+  });
+
+  it('stores state and verifier and sends the matching challenge', async () => {
+    const url = await startLogin(new OAuthManager());
+    const state = url.searchParams.get('state');
+    const verifier = sessionStorage.getItem('bodhi_code_verifier')!;
+
+    expect(state).toBe(sessionStorage.getItem('bodhi_state'));
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('code_challenge')).toBe(await PKCEUtils.generatePKCEChallenge(verifier));
+    expect(url.searchParams.get('scope')).toContain('scope_resource_test');
+  });
+});
+
+describe('OAuthManager login return', () => {
+  it('hands back the return path and draft once', async () => {
+    sessionStorage.setItem('bodhi_resource_scope', 'scope_resource_test');
+    await new OAuthManager().buildAuthUrl({ path: '/chat/abc?x=1', draft: 'Half-written question' });
+
+    // The callback page is a fresh load that reads what survived the redirect
+    const callbackManager = new OAuthManager();
+    await callbackManager.ready();
+
+    expect(callbackManager.takeLoginReturn()).toEqual({ path: '/chat/abc?x=1', draft: 'Half-written question' });
+    expect(callbackManager.takeLoginReturn()).toBeNull();
+  });
+
+  it('does not store paths that leave the app', async () => {
+    sessionStorage.setItem('bodhi_resource_scope', 'scope_resource_test');
+    const manager = new OAuthManager();
+    await manager.buildAuthUrl({ path: '//evil.example.com/phish', draft: 'secret' });
+
+    expect(sessionStorage.getItem('bodhi_login_return')).toBeNull();
+    expect(manager.takeLoginReturn()).toBeNull();
+  });
+
+  it('ignores a stored path that was tampered with', async () => {
+    sessionStorage.setItem('bodhi_login_return', JSON.stringify({ path: 'https://evil.example.com' }));
+    const manager = new OAuthManager();
+    await manager.ready();
+
+    expect(manager.takeLoginReturn()).toBeNull();
+  });
+});
+
+describe('OAuthManager.exchangeCodeForTokens', () => {
+  let manager: OAuthManager;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    manager = new OAuthManager();
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  it('rejects a state that does not match the stored one', async () => {
+    await startLogin(manager);
+
+    await expect(manager.exchangeCodeForTokens('code', 'forged-state')).rejects.toThrow('Invalid state parameter');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects when no state was stored', async () => {
+    await expect(manager.exchangeCodeForTokens('code', 'any-state')).rejects.toThrow('Invalid state parameter');
+  });
+
+  it('rejects when the code verifier is missing', async () => {
+    const url = await startLogin(manager);
+    sessionStorage.removeItem('bodhi_code_verifier');
+
+    // The callback page is a fresh load that reads what survived the redirect
+    await expect(
+      new OAuthManager().exchangeCodeForTokens('code', url.searchParams.get('state')!)
+    ).rejects.toThrow('Code verifier not found');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('exchanges the code with the stored verifier and stores the tokens', async () => {
+    const url = await startLogin(manager);
+    const verifier = sessionStorage.getItem('bodhi_code_verifier');
+    fetchMock.mockResolvedValue(tokenResponse({
+      access_token: 'access-1',
+      refresh_token: 'refresh-1',
+      token_type: 'Bearer',
+      expires_in: 300,
+      scope: 'openid',
+    }));
+
+    await manager.exchangeCodeForTokens('auth-code', url.searchParams.get('state')!);
+
+    const [, init] = fetchMock.mock.calls[0];
+    const params = init.body as URLSearchParams;
+    expect(params.get('grant_type')).toBe('authorization_code');
+    expect(params.get('code')).toBe('auth-code');
+    expect(params.get('code_verifier')).toBe(verifier);
+    expect(manager.getAccessToken()).toBe('access-1');
+    expect(manager.isAuthenticated()).toBe(true);
+    expect(sessionStorage.getItem('bodhi_state')).toBeNull();
+    expect(sessionStorage.getItem('bodhi_code_verifier')).toBeNull();
+    expect(sessionStorage.getItem('bodhi_resource_scope')).toBe('scope_resource_test');
+
+    manager.logout();
+    await vi.waitFor(() => expect(sessionStorage.getItem('bodhi_resource_scope')).toBeNull());
+  });
+
+  it('surfaces token endpoint failures', async () => {
+    const url = await startLogin(manager);
+    fetchMock.mockResolvedValue(new Response('invalid_grant', { status: 400 }));
+
+    await expect(
+      manager.exchangeCodeForTokens('auth-code', url.searchParams.get('state')!)
+    ).rejects.toThrow('Token exchange failed: 400 invalid_grant');
+    expect(manager.isAuthenticated()).toBe(false);
+  });
+
+  it('ignores a second exchange while one is in flight', async () => {
+    const url = await startLogin(manager);
+    const state = url.searchParams.get('state')!;
+    let resolveFetch!: (response: Response) => void;
+    fetchMock.mockReturnValue(new Promise<Response>(resolve => { resolveFetch = resolve; }));
+
+    const first = manager.exchangeCodeForTokens('auth-code', state);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    await manager.exchangeCodeForTokens('auth-code', state);
+
+    resolveFetch(tokenResponse({ access_token: 'access-1', token_type: 'Bearer', expires_in: 300, scope: '' }));
+    await first;
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the guard after a failed exchange', async () => {
+    const url = await startLogin(manager);
+    const state = url.searchParams.get('state')!;
+    fetchMock
+      .mockResolvedValueOnce(new Response('server error', { status: 500 }))
+      .mockResolvedValueOnce(tokenResponse({ access_token: 'access-2', token_type: 'Bearer', expires_in: 300, scope: '' }));
+
+    await expect(manager.exchangeCodeForTokens('auth-code', state)).rejects.toThrow();
+    await manager.exchangeCodeForTokens('auth-code', state);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(manager.getAccessToken()).toBe('access-2');
+  });
+
+  it('keeps in-memory tokens out of web storage but the PKCE state across the redirect', async () => {
+    const memoryManager = new OAuthManager('memory');
+    const url = await startLogin(memoryManager);
+    expect(sessionStorage.getItem('bodhi_code_verifier')).not.toBeNull();
+    fetchMock.mockResolvedValue(tokenResponse({ access_token: 'access-1', token_type: 'Bearer', expires_in: 300, scope: '' }));
+
+    await memoryManager.exchangeCodeForTokens('auth-code', url.searchParams.get('state')!);
+
+    expect(memoryManager.getAccessToken()).toBe('access-1');
+    expect(sessionStorage.getItem('bodhi_access_token')).toBeNull();
+    expect(localStorage.getItem('bodhi_access_token')).toBeNull();
+  });
+
+  it('skips the exchange when already authenticated', async () => {
+    sessionStorage.setItem('bodhi_access_token', 'existing');
+
+    await manager.exchangeCodeForTokens('auth-code', 'state');
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+// In-memory stand-in for BroadcastChannel that delivers to every other instance
+class FakeBroadcastChannel {
+  static instances = new Set<FakeBroadcastChannel>();
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  name: string;
+
+  constructor(name: string) {
+    this.name = name;
+    FakeBroadcastChannel.instances.add(this);
+  }
+
+  postMessage(data: unknown): void {
+    for (const channel of FakeBroadcastChannel.instances) {
+      if (channel !== this && channel.name === this.name) {
+        channel.onmessage?.(new MessageEvent('message', { data: structuredClone(data) }));
+      }
+    }
+  }
+
+  close(): void {
+    FakeBroadcastChannel.instances.delete(this);
+  }
+}
+
+// Serialises tasks per lock name like navigator.locks.request
+function createFakeLocks() {
+  const queues = new Map<string, Promise<unknown>>();
+  return {
+    request: vi.fn(<T>(name: string, task: () => Promise<T>): Promise<T> => {
+      const previous = queues.get(name) ?? Promise.resolve();
+      const result = previous.then(task, task);
+      queues.set(name, result.catch(() => undefined));
+      return result;
+    }),
+  };
+}
+
+describe('OAuthManager cross-tab sync', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    FakeBroadcastChannel.instances.clear();
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  it('tells other tabs about a logout and its reason', async () => {
+    const tabA = new OAuthManager();
+    const tabB = new OAuthManager();
+    const listener = vi.fn();
+    tabB.onAuthEvent(listener);
+    sessionStorage.setItem('bodhi_access_token', 'access-1');
+
+    tabA.logout('Session ended elsewhere');
+
+    await vi.waitFor(() => {
+      expect(listener).toHaveBeenCalledWith({ type: 'logged-out', reason: 'Session ended elsewhere' });
+    });
+    expect(tabB.isAuthenticated()).toBe(false);
+  });
+
+  it('shares user info and completed logins', async () => {
+    const tabA = new OAuthManager();
+    const tabB = new OAuthManager();
+    const listener = vi.fn();
+    tabB.onAuthEvent(listener);
+    const userInfo = { email: 'a@example.com', role: 'resource_user', tokenType: 'Bearer', loggedIn: true };
+
+    const url = await startLogin(tabA);
+    fetchMock.mockResolvedValue(tokenResponse({ access_token: 'access-1', token_type: 'Bearer', expires_in: 300, scope: '' }));
+    await tabA.exchangeCodeForTokens('auth-code', url.searchParams.get('state')!);
+    tabA.setUserInfo(userInfo);
+
+    await vi.waitFor(() => {
+      expect(listener.mock.calls.map(([event]) => event)).toEqual([
+        { type: 'logged-in' },
+        { type: 'user-info-updated', userInfo },
+      ]);
+    });
+    expect(tabB.getAccessToken()).toBe('access-1');
+  });
+
+  it('lets only one tab spend the refresh token', async () => {
+    const locks = createFakeLocks();
+    Object.defineProperty(navigator, 'locks', { value: locks, configurable: true });
+    sessionStorage.setItem('bodhi_access_token', 'access-1');
+    sessionStorage.setItem('bodhi_refresh_token', 'refresh-1');
+    sessionStorage.setItem('bodhi_token_expires_at', String(Date.now() - 1000));
+    fetchMock.mockResolvedValue(tokenResponse({
+      access_token: 'access-2',
+      refresh_token: 'refresh-2',
+      token_type: 'Bearer',
+      expires_in: 300,
+      scope: '',
+    }));
+
+    try {
+      const tokens = await Promise.all([
+        new OAuthManager().refreshAccessToken(),
+        new OAuthManager().refreshAccessToken(),
+      ]);
+
+      expect(tokens).toEqual(['access-2', 'access-2']);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(locks.request).toHaveBeenCalledTimes(2);
+    } finally {
+      delete (navigator as { locks?: unknown }).locks;
+    }
+  });
+});
+
+describe('OAuthManager token refresh', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const refreshed = () => tokenResponse({
+    access_token: 'access-2',
+    refresh_token: 'refresh-2',
+    token_type: 'Bearer',
+    expires_in: 300,
+    scope: '',
+  });
+
+  function storeTokens({ expiresInMs, refreshToken = 'refresh-1' }: { expiresInMs: number; refreshToken?: string | null }) {
+    sessionStorage.setItem('bodhi_access_token', 'access-1');
+    sessionStorage.setItem('bodhi_token_expires_at', String(Date.now() + expiresInMs));
+    if (refreshToken) sessionStorage.setItem('bodhi_refresh_token', refreshToken);
+  }
+
+  beforeEach(() => {
+    FakeBroadcastChannel.instances.clear();
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  it('shares one in-flight refresh between callers in the tab', async () => {
+    storeTokens({ expiresInMs: -1000 });
+    fetchMock.mockImplementation(async () => refreshed());
+    const manager = new OAuthManager();
+
+    const first = manager.refreshAccessToken();
+    expect(manager.refreshAccessToken()).toBe(first);
+    await expect(first).resolves.toBe('access-2');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(new URLSearchParams(fetchMock.mock.calls[0][1].body).get('refresh_token')).toBe('refresh-1');
+    expect(manager.getAccessToken()).toBe('access-2');
+
+    // Settled refreshes are not reused
+    await manager.refreshAccessToken();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('logs out with a reason when the refresh is rejected', async () => {
+    storeTokens({ expiresInMs: -1000 });
+    fetchMock.mockResolvedValue(new Response('invalid_grant', { status: 400 }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const manager = new OAuthManager();
+    const listener = vi.fn();
+    manager.onAuthEvent(listener);
+
+    await expect(manager.refreshAccessToken()).rejects.toBeInstanceOf(TokenRefreshError);
+
+    expect(listener).toHaveBeenCalledWith({
+      type: 'logged-out',
+      reason: 'Your session has expired and could not be renewed. Please log in again.',
+    });
+    expect(manager.getAccessToken()).toBeNull();
+  });
+
+  it('returns the stored token while it is valid beyond the refresh margin', async () => {
+    storeTokens({ expiresInMs: 5 * 60_000 });
+
+    await expect(new OAuthManager().getValidAccessToken()).resolves.toBe('access-1');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('refreshes a token about to expire', async () => {
+    storeTokens({ expiresInMs: 30_000 });
+    fetchMock.mockResolvedValue(refreshed());
+
+    await expect(new OAuthManager().getValidAccessToken()).resolves.toBe('access-2');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps using a token about to expire when there is no refresh token', async () => {
+    storeTokens({ expiresInMs: 30_000, refreshToken: null });
+
+    await expect(new OAuthManager().getValidAccessToken()).resolves.toBe('access-1');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('logs out once the token has expired and cannot be refreshed', async () => {
+    storeTokens({ expiresInMs: -1000, refreshToken: null });
+    const manager = new OAuthManager();
+    const listener = vi.fn();
+    manager.onAuthEvent(listener);
+
+    await expect(manager.getValidAccessToken()).resolves.toBeNull();
+    expect(listener).toHaveBeenCalledWith({ type: 'logged-out', reason: 'Your session has expired. Please log in again.' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('returns null when the refresh fails', async () => {
+    storeTokens({ expiresInMs: 30_000 });
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const manager = new OAuthManager();
+
+    await expect(manager.getValidAccessToken()).resolves.toBeNull();
+    expect(manager.isAuthenticated()).toBe(false);
+  });
+});
+
+describe('removeLegacyAuthStorage', () => {
+  it('deletes the plaintext auth values older versions kept in localStorage', () => {
+    localStorage.setItem('bodhi_access_token', 'access-1');
+    localStorage.setItem('bodhi_refresh_token', 'refresh-1');
+    localStorage.setItem('bodhi_user_info', '{}');
+    localStorage.setItem('bodhi_code_verifier', 'verifier');
+    localStorage.setItem('bodhi_chat_settings', '{}');
+
+    removeLegacyAuthStorage();
+
+    expect(localStorage.getItem('bodhi_access_token')).toBeNull();
+    expect(localStorage.getItem('bodhi_refresh_token')).toBeNull();
+    expect(localStorage.getItem('bodhi_user_info')).toBeNull();
+    expect(localStorage.getItem('bodhi_code_verifier')).toBeNull();
+    expect(localStorage.getItem('bodhi_chat_settings')).toBe('{}');
+  });
+});
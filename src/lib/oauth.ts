@@ -1,24 +1,64 @@
-import type { UserInfo, TokenResponse } from '@/types/auth';
+import type { UserInfo, TokenResponse, AuthEvent, TokenStorageKind, TokenClaims, LoginReturn } from '@/types/auth';
+import { TokenRefreshError } from '@/types/auth';
 import type { ExtensionClient } from '@/types/extension';
+import { AuthenticatedClient } from '@/lib/authenticated-client';
+import { BodhiApiClient } from '@/lib/bodhi-api';
+import { AuthSyncChannel, withRefreshLock } from '@/lib/auth-sync';
+import { TokenVault, createStorageBackend, parseTokenStorageKind } from '@/lib/token-storage';
+import { parseTokenClaims } from '@/lib/jwt';
+import { getAppConfig, getRedirectUri } from '@/lib/config';
+import { parseLoginReturn, sanitizeReturnPath } from '@/lib/return-to';
+
+// Read per call so the config loaded at startup applies
+function getOpenIdConnectUrl(endpoint: 'auth' | 'token'): string {
+  const { authUrl, realm } = getAppConfig().auth;
+  return `${authUrl.replace(/\/+$/, '')}/realms/${realm}/protocol/openid-connect/${endpoint}`;
+}
 
-// OAuth configuration constants
-const APP_CLIENT_ID = 'app-a05c53c5-3fc4-409d-833d-f4acc90e1611';
-const BODHI_AUTH_URL = 'https://main-id.getbodhi.app';
-const AUTH_REALM = 'bodhi';
-const REDIRECT_URI = `${window.location.origin}/callback`;
+// Refresh this long before the access token actually expires
+export const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
 
 // Storage keys
 const STORAGE_KEYS = {
   RESOURCE_SCOPE: 'bodhi_resource_scope',
   ACCESS_TOKEN: 'bodhi_access_token',
   REFRESH_TOKEN: 'bodhi_refresh_token',
+  TOKEN_EXPIRES_AT: 'bodhi_token_expires_at',
   CODE_VERIFIER: 'bodhi_code_verifier',
   STATE: 'bodhi_state',
   USER_INFO: 'bodhi_user_info',
+  LOGIN_RETURN: 'bodhi_login_return',
 } as const;
 
+const TOKEN_KEYS = [
+  STORAGE_KEYS.ACCESS_TOKEN,
+  STORAGE_KEYS.REFRESH_TOKEN,
+  STORAGE_KEYS.TOKEN_EXPIRES_AT,
+  STORAGE_KEYS.USER_INFO,
+];
+
+// Values that have to survive the redirect to the auth server. The PKCE state
+// and login return only live until the callback page, but the resource scope is
+// read for token claims for the whole session and is cleared with the tokens.
+const FLOW_KEYS = [
+  STORAGE_KEYS.RESOURCE_SCOPE,
+  STORAGE_KEYS.CODE_VERIFIER,
+  STORAGE_KEYS.STATE,
+  STORAGE_KEYS.LOGIN_RETURN,
+];
+
+// Before the token backends existed every auth value was kept in plaintext
+// localStorage. None of them belongs there now, so leftovers are deleted at startup.
+export function removeLegacyAuthStorage(): void {
+  if (typeof localStorage === 'undefined') return;
+  Object.values(STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+}
+
+// Deployers choose the token backend with VITE_TOKEN_STORAGE
+export const TOKEN_STORAGE_KIND = parseTokenStorageKind(import.meta.env.VITE_TOKEN_STORAGE, 'indexeddb');
+
 // PKCE utilities
-class PKCEUtils {
+export class PKCEUtils {
   static generateRandomString(length: number): string {
     const array = new Uint8Array(length);
     crypto.getRandomValues(array);
@@ -38,21 +78,70 @@ class PKCEUtils {
 
 export class OAuthManager {
   private isExchangingTokens = false;
+  private refreshPromise: Promise<string> | null = null;
+  private listeners = new Set<(event: AuthEvent) => void>();
+  private syncChannel = new AuthSyncChannel(event => this.handleRemoteEvent(event));
+  private tokens: TokenVault;
+  private flow: TokenVault;
+
+  constructor(storageKind: TokenStorageKind = TOKEN_STORAGE_KIND) {
+    this.tokens = new TokenVault(createStorageBackend(storageKind), TOKEN_KEYS);
+    // The PKCE state has to survive the redirect to the auth server, which memory cannot
+    this.flow = new TokenVault(
+      createStorageBackend(storageKind === 'memory' ? 'session' : storageKind),
+      FLOW_KEYS
+    );
+  }
+
+  // Loads stored tokens; async entry points wait for this before reading them
+  async ready(): Promise<void> {
+    await Promise.all([this.tokens.ready(), this.flow.ready()]);
+  }
+
+  onAuthEvent(listener: (event: AuthEvent) => void): () => void {
+    // Start listening to other tabs once someone cares about auth changes
+    this.syncChannel.connect();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: AuthEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  // Notifies this tab's listeners at once and the app's other tabs once the
+  // stored tokens are written, as they reload them from the shared backend
+  private publish(event: AuthEvent): void {
+    this.emit(event);
+    void this.tokens.flush().then(() => this.syncChannel.post(event));
+  }
+
+  private async handleRemoteEvent(event: AuthEvent): Promise<void> {
+    if (event.type === 'logged-out') {
+      // Shared backends were already cleared by the other tab, per-tab ones are cleared here
+      this.tokens.clear();
+      this.flow.clear();
+      this.isExchangingTokens = false;
+      this.emit(event);
+      return;
+    }
+
+    await this.tokens.reload();
+    // With a per-tab backend the other tab's session is not ours to follow
+    if (this.getAccessToken()) {
+      this.emit(event);
+    }
+  }
 
   async requestResourceAccess(extensionClient: ExtensionClient): Promise<string> {
     try {
-      const response = await extensionClient.sendApiRequest(
-        'POST',
-        '/bodhi/v1/auth/request-access',
-        { app_client_id: APP_CLIENT_ID }
-      );
-
-      if (!response.body.scope) {
-        throw new Error('No scope returned from request-access');
-      }
+      const { scope } = await new BodhiApiClient(extensionClient).requestAccess(getAppConfig().auth.clientId);
 
-      localStorage.setItem(STORAGE_KEYS.RESOURCE_SCOPE, response.body.scope);
-      return response.body.scope;
+      await this.ready();
+      this.flow.set(STORAGE_KEYS.RESOURCE_SCOPE, scope);
+      return scope;
     } catch (error) {
       throw new Error(
         `Failed to request resource access: ${error instanceof Error ? error.message : String(error)}`
@@ -60,8 +149,11 @@ export class OAuthManager {
     }
   }
 
-  async buildAuthUrl(): Promise<string> {
-    const resourceScope = localStorage.getItem(STORAGE_KEYS.RESOURCE_SCOPE);
+  // loginReturn is stored with the PKCE state and handed back by takeLoginReturn
+  // after the callback; paths that could leave the app are dropped
+  async buildAuthUrl(loginReturn?: LoginReturn): Promise<string> {
+    await this.ready();
+    const resourceScope = this.flow.get(STORAGE_KEYS.RESOURCE_SCOPE);
     if (!resourceScope) {
       throw new Error('Resource scope not found. Call requestResourceAccess first.');
     }
@@ -70,24 +162,33 @@ export class OAuthManager {
     const codeVerifier = PKCEUtils.generateRandomString(128);
     const codeChallenge = await PKCEUtils.generatePKCEChallenge(codeVerifier);
 
-    localStorage.setItem(STORAGE_KEYS.STATE, state);
-    localStorage.setItem(STORAGE_KEYS.CODE_VERIFIER, codeVerifier);
+    this.flow.set(STORAGE_KEYS.STATE, state);
+    this.flow.set(STORAGE_KEYS.CODE_VERIFIER, codeVerifier);
+    const returnPath = sanitizeReturnPath(loginReturn?.path);
+    if (returnPath) {
+      this.flow.set(STORAGE_KEYS.LOGIN_RETURN, JSON.stringify({ ...loginReturn, path: returnPath }));
+    } else {
+      this.flow.remove(STORAGE_KEYS.LOGIN_RETURN);
+    }
+    // The caller navigates away next, so the values must be written first
+    await this.flow.flush();
 
     const scopes = ['openid', 'email', 'profile', 'roles', 'scope_user_user', resourceScope];
     const params = new URLSearchParams({
       response_type: 'code',
-      client_id: APP_CLIENT_ID,
-      redirect_uri: REDIRECT_URI,
+      client_id: getAppConfig().auth.clientId,
+      redirect_uri: getRedirectUri(),
       scope: scopes.join(' '),
       state: state,
       code_challenge: codeChallenge,
       code_challenge_method: 'S256',
     });
 
-    return `${BODHI_AUTH_URL}/realms/${AUTH_REALM}/protocol/openid-connect/auth?${params}`;
+    return `${getOpenIdConnectUrl('auth')}?${params}`;
   }
 
   async exchangeCodeForTokens(code: string, state: string): Promise<void> {
+    await this.ready();
     if (this.isAuthenticated()) {
       return;
     }
@@ -99,8 +200,8 @@ export class OAuthManager {
     this.isExchangingTokens = true;
 
     try {
-      const storedState = localStorage.getItem(STORAGE_KEYS.STATE);
-      const codeVerifier = localStorage.getItem(STORAGE_KEYS.CODE_VERIFIER);
+      const storedState = this.flow.get(STORAGE_KEYS.STATE);
+      const codeVerifier = this.flow.get(STORAGE_KEYS.CODE_VERIFIER);
 
       if (!storedState || storedState !== state) {
         throw new Error('Invalid state parameter');
@@ -110,16 +211,15 @@ export class OAuthManager {
         throw new Error('Code verifier not found');
       }
 
-      const tokenUrl = `${BODHI_AUTH_URL}/realms/${AUTH_REALM}/protocol/openid-connect/token`;
       const params = new URLSearchParams({
         grant_type: 'authorization_code',
-        client_id: APP_CLIENT_ID,
+        client_id: getAppConfig().auth.clientId,
         code: code,
-        redirect_uri: REDIRECT_URI,
+        redirect_uri: getRedirectUri(),
         code_verifier: codeVerifier,
       });
 
-      const response = await fetch(tokenUrl, {
+      const response = await fetch(getOpenIdConnectUrl('token'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
         body: params,
@@ -136,28 +236,160 @@ export class OAuthManager {
         throw new Error('No access token received');
       }
 
-      localStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, tokenData.access_token);
-      if (tokenData.refresh_token) {
-        localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, tokenData.refresh_token);
-      }
+      this.storeTokens(tokenData);
 
-      localStorage.removeItem(STORAGE_KEYS.STATE);
-      localStorage.removeItem(STORAGE_KEYS.CODE_VERIFIER);
+      // The resource scope stays until logout: getTokenClaims needs it
+      this.flow.remove(STORAGE_KEYS.STATE);
+      this.flow.remove(STORAGE_KEYS.CODE_VERIFIER);
+      await Promise.all([this.tokens.flush(), this.flow.flush()]);
+      this.publish({ type: 'logged-in' });
     } finally {
       this.isExchangingTokens = false;
     }
   }
 
+  // Read once by the callback page after a successful exchange
+  takeLoginReturn(): LoginReturn | null {
+    const loginReturn = parseLoginReturn(this.flow.get(STORAGE_KEYS.LOGIN_RETURN));
+    this.flow.remove(STORAGE_KEYS.LOGIN_RETURN);
+    return loginReturn;
+  }
+
+  private storeTokens(tokenData: TokenResponse): void {
+    this.tokens.set(STORAGE_KEYS.ACCESS_TOKEN, tokenData.access_token);
+    if (tokenData.refresh_token) {
+      this.tokens.set(STORAGE_KEYS.REFRESH_TOKEN, tokenData.refresh_token);
+    }
+    if (tokenData.expires_in) {
+      const expiresAt = Date.now() + tokenData.expires_in * 1000;
+      this.tokens.set(STORAGE_KEYS.TOKEN_EXPIRES_AT, String(expiresAt));
+    } else {
+      this.tokens.remove(STORAGE_KEYS.TOKEN_EXPIRES_AT);
+    }
+  }
+
   getAccessToken(): string | null {
-    return localStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
+    return this.tokens.get(STORAGE_KEYS.ACCESS_TOKEN);
+  }
+
+  // Null when there is no token or it is not a JWT
+  getTokenClaims(): TokenClaims | null {
+    const accessToken = this.getAccessToken();
+    if (!accessToken) return null;
+    try {
+      return parseTokenClaims(accessToken, this.flow.get(STORAGE_KEYS.RESOURCE_SCOPE));
+    } catch {
+      return null;
+    }
+  }
+
+  getTokenExpiresAt(): number | null {
+    const expiresAt = Number(this.tokens.get(STORAGE_KEYS.TOKEN_EXPIRES_AT));
+    return expiresAt > 0 ? expiresAt : null;
+  }
+
+  // Tokens stored without an expiry are treated as valid until the server rejects them
+  isAccessTokenExpired(marginMs = 0): boolean {
+    const expiresAt = this.getTokenExpiresAt();
+    return expiresAt !== null && Date.now() + marginMs >= expiresAt;
   }
 
   isAuthenticated(): boolean {
-    return !!this.getAccessToken();
+    if (!this.getAccessToken()) return false;
+    return !this.isAccessTokenExpired() || !!this.tokens.get(STORAGE_KEYS.REFRESH_TOKEN);
+  }
+
+  async getValidAccessToken(): Promise<string | null> {
+    await this.ready();
+    const accessToken = this.getAccessToken();
+    if (!accessToken) return null;
+
+    if (!this.isAccessTokenExpired(TOKEN_REFRESH_MARGIN_MS)) {
+      return accessToken;
+    }
+
+    if (!this.tokens.get(STORAGE_KEYS.REFRESH_TOKEN)) {
+      if (!this.isAccessTokenExpired()) return accessToken;
+      this.logout('Your session has expired. Please log in again.');
+      return null;
+    }
+
+    try {
+      return await this.refreshAccessToken();
+    } catch {
+      return null;
+    }
+  }
+
+  // Parallel callers share one in-flight refresh, and a cross-tab lock makes
+  // sure the refresh token is only used once across all tabs
+  refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.ready().then(() => {
+        const seenRefreshToken = this.tokens.get(STORAGE_KEYS.REFRESH_TOKEN);
+        return withRefreshLock(async () => {
+          // Another tab may have refreshed while we waited for the lock
+          await this.tokens.reload();
+          const accessToken = this.getAccessToken();
+          const refreshedElsewhere = this.tokens.get(STORAGE_KEYS.REFRESH_TOKEN) !== seenRefreshToken;
+          if (accessToken && refreshedElsewhere && !this.isAccessTokenExpired(TOKEN_REFRESH_MARGIN_MS)) {
+            return accessToken;
+          }
+          return this.performTokenRefresh();
+        });
+      }).finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performTokenRefresh(): Promise<string> {
+    const refreshToken = this.tokens.get(STORAGE_KEYS.REFRESH_TOKEN);
+    if (!refreshToken) {
+      const reason = 'Your session has expired. Please log in again.';
+      this.logout(reason);
+      throw new TokenRefreshError(reason);
+    }
+
+    try {
+      const params = new URLSearchParams({
+        grant_type: 'refresh_token',
+        client_id: getAppConfig().auth.clientId,
+        refresh_token: refreshToken,
+      });
+
+      const response = await fetch(getOpenIdConnectUrl('token'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: params,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Token refresh failed: ${response.status} ${errorText}`);
+      }
+
+      const tokenData: TokenResponse = await response.json();
+      if (!tokenData.access_token) {
+        throw new Error('No access token received');
+      }
+
+      this.storeTokens(tokenData);
+      // Written before the refresh lock is released, so a waiting tab sees the new tokens
+      await this.tokens.flush();
+      this.publish({ type: 'tokens-refreshed' });
+      return tokenData.access_token;
+    } catch (error) {
+      console.error('Token refresh failed:', error);
+      const reason = 'Your session has expired and could not be renewed. Please log in again.';
+      this.logout(reason);
+      throw new TokenRefreshError(reason, error);
+    }
   }
 
   getUserInfo(): UserInfo | null {
-    const userInfoStr = localStorage.getItem(STORAGE_KEYS.USER_INFO);
+    const userInfoStr = this.tokens.get(STORAGE_KEYS.USER_INFO);
     if (!userInfoStr) return null;
     try {
       return JSON.parse(userInfoStr);
@@ -167,31 +399,25 @@ export class OAuthManager {
   }
 
   setUserInfo(userInfo: UserInfo): void {
-    localStorage.setItem(STORAGE_KEYS.USER_INFO, JSON.stringify(userInfo));
+    this.tokens.set(STORAGE_KEYS.USER_INFO, JSON.stringify(userInfo));
+    this.publish({ type: 'user-info-updated', userInfo });
   }
 
-  logout(): void {
-    Object.values(STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+  logout(reason?: string): void {
+    this.tokens.clear();
+    this.flow.clear();
     this.isExchangingTokens = false;
+    this.publish({ type: 'logged-out', reason });
   }
 
   async fetchUserInfo(extensionClient: ExtensionClient): Promise<UserInfo> {
-    const accessToken = this.getAccessToken();
-    if (!accessToken) {
-      throw new Error('No access token available');
-    }
-
     try {
-      const response = await extensionClient.sendApiRequest(
-        'GET',
-        '/bodhi/v1/user',
-        undefined,
-        { Authorization: `Bearer ${accessToken}` }
-      );
+      const api = new BodhiApiClient(new AuthenticatedClient(extensionClient, this));
+      const user = await api.getUser();
 
       const userInfo: UserInfo = {
-        email: response.body.email || 'Unknown',
-        role: response.body.role || 'user',
+        email: user.email || 'Unknown',
+        role: user.role || 'user',
         tokenType: 'Bearer',
         loggedIn: true,
       };
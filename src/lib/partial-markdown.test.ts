@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { completePartialMarkdown } from '@/lib/partial-markdown';
+
+describe('completePartialMarkdown', () => {
+  it('leaves complete markdown untouched', () => {
+    const markdown = '# Title\n\nSome **bold** and `code`.\n\n```ts\nconst a = 1;\n```\n';
+
+    expect(completePartialMarkdown(markdown)).toBe(markdown);
+  });
+
+  it('closes an unterminated code fence', () => {
+    expect(completePartialMarkdown('Here:\n```python\nprint(1)')).toBe('Here:\n```python\nprint(1)\n```');
+    expect(completePartialMarkdown('````md\n```\n')).toBe('````md\n```\n````');
+  });
+
+  it('ignores emphasis markers inside an open code fence', () => {
+    expect(completePartialMarkdown('```\na ** b')).toBe('```\na ** b\n```');
+  });
+
+  it('closes unterminated display math', () => {
+    expect(completePartialMarkdown('$$\nx^2 + ')).toBe('$$\nx^2 + \n$$');
+    expect(completePartialMarkdown('$$x^2$$')).toBe('$$x^2$$');
+  });
+
+  it('closes inline code, bold and strikethrough in the last paragraph', () => {
+    expect(completePartialMarkdown('Use `npm run')).toBe('Use `npm run`');
+    expect(completePartialMarkdown('This is **important')).toBe('This is **important**');
+    expect(completePartialMarkdown('~~old')).toBe('~~old~~');
+    expect(completePartialMarkdown('**done**\n\nnext ~~one')).toBe('**done**\n\nnext ~~one~~');
+  });
+
+  it('does not count markers inside inline code or escaped ones', () => {
+    expect(completePartialMarkdown('`a ** b` text')).toBe('`a ** b` text');
+    expect(completePartialMarkdown('2 \\** 3')).toBe('2 \\** 3');
+  });
+
+  it('drops a dangling marker instead of rendering empty emphasis', () => {
+    expect(completePartialMarkdown('Hello **')).toBe('Hello ');
+  });
+});
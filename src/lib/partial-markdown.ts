@@ -0,0 +1,97 @@
+// Streaming replies are re-rendered after every token, so the markdown is
+// often cut off mid-construct. Closing the open constructs keeps an
+// unterminated code fence from swallowing the rest of the page and stops
+// half-typed emphasis markers from flickering in as literal asterisks.
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+interface FenceState {
+  marker: string | null;
+  inMath: boolean;
+}
+
+function scanBlocks(lines: string[]): FenceState {
+  let marker: string | null = null;
+  let inMath = false;
+
+  for (const line of lines) {
+    const fence = line.match(FENCE_PATTERN);
+    if (marker) {
+      // A closing fence uses the same character, is at least as long and has no info string
+      if (fence && fence[1][0] === marker[0] && fence[1].length >= marker.length
+          && line.trim() === fence[1]) {
+        marker = null;
+      }
+      continue;
+    }
+    if (fence && !inMath) {
+      marker = fence[1];
+      continue;
+    }
+    const displayMathMarkers = line.split('$$').length - 1;
+    if (displayMathMarkers % 2 === 1) {
+      inMath = !inMath;
+    }
+  }
+
+  return { marker, inMath };
+}
+
+function stripInlineCode(text: string): { text: string; openCode: string | null } {
+  let result = '';
+  let index = 0;
+
+  while (index < text.length) {
+    if (text[index] === '\\') {
+      index += 2;
+      continue;
+    }
+    if (text[index] !== '`') {
+      result += text[index++];
+      continue;
+    }
+    let runEnd = index;
+    while (text[runEnd] === '`') runEnd++;
+    const run = text.slice(index, runEnd);
+    const close = text.indexOf(run, runEnd);
+    if (close === -1) {
+      return { text: result, openCode: run };
+    }
+    index = close + run.length;
+  }
+
+  return { text: result, openCode: null };
+}
+
+function countMarker(text: string, marker: string): number {
+  return text.split(marker).length - 1;
+}
+
+export function completePartialMarkdown(markdown: string): string {
+  const lines = markdown.split('\n');
+  const { marker, inMath } = scanBlocks(lines);
+
+  if (marker) {
+    return `${markdown}${markdown.endsWith('\n') ? '' : '\n'}${marker}`;
+  }
+  if (inMath) {
+    return `${markdown}${markdown.endsWith('\n') ? '' : '\n'}$$`;
+  }
+
+  // Inline constructs cannot span paragraphs, so only the last one matters
+  const lastBreak = markdown.lastIndexOf('\n\n');
+  const paragraph = lastBreak === -1 ? markdown : markdown.slice(lastBreak + 2);
+  const { text, openCode } = stripInlineCode(paragraph);
+
+  let closers = openCode ?? '';
+  const prose = text.replace(/\\[*_~]/g, '');
+  if (countMarker(prose, '~~') % 2 === 1) closers += '~~';
+  if (countMarker(prose, '**') % 2 === 1) closers += '**';
+
+  // A trailing marker with nothing after it would render as an empty emphasis
+  const trimmed = markdown.replace(/(\*\*|~~)$/, '');
+  if (closers && trimmed !== markdown && !openCode) {
+    return trimmed;
+  }
+  return markdown + closers;
+}
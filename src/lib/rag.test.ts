@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BodhiApiClient } from '@/lib/bodhi-api';
+import { ExtensionClientImpl } from '@/lib/extension-client';
+import { installMockBodhiext } from '@/lib/mock-bodhiext';
+import { buildRetrievedContext, embedTexts, formatCitationSource } from '@/lib/rag';
+import type { ChatDocument, RetrievedChunk } from '@/types/documents';
+
+function createApi(): BodhiApiClient {
+  installMockBodhiext();
+  return new BodhiApiClient(new ExtensionClientImpl('mock-bodhiext'));
+}
+
+const document: ChatDocument = {
+  id: 'doc-1',
+  chatId: 'chat-1',
+  name: 'report.pdf',
+  type: 'pdf',
+  size: 100,
+  model: 'embed',
+  chunkCount: 2,
+  createdAt: 0,
+};
+
+describe('embedTexts', () => {
+  it('embeds in batches and keeps the input order', async () => {
+    const api = createApi();
+    const createEmbeddings = vi.spyOn(api, 'createEmbeddings');
+    const progress: number[] = [];
+    const texts = Array.from({ length: 20 }, (_, i) => `text ${i}`);
+
+    const embeddings = await embedTexts(api, 'embed', texts, embedded => progress.push(embedded));
+
+    expect(createEmbeddings).toHaveBeenCalledTimes(2);
+    expect(progress).toEqual([16, 20]);
+    expect(embeddings).toHaveLength(20);
+    const [single] = await embedTexts(api, 'embed', ['text 17']);
+    expect(embeddings[17]).toEqual(single);
+  });
+});
+
+describe('buildRetrievedContext', () => {
+  it('returns null when nothing was retrieved', () => {
+    expect(buildRetrievedContext([])).toBeNull();
+  });
+
+  it('numbers the excerpts and returns matching citations', () => {
+    const retrieved: RetrievedChunk[] = [
+      {
+        chunk: { id: 'doc-1:3', documentId: 'doc-1', chatId: 'chat-1', index: 3, text: 'Revenue grew 12%.', page: 2, embedding: [] },
+        document,
+        score: 0.8,
+      },
+      {
+        chunk: { id: 'doc-1:0', documentId: 'doc-1', chatId: 'chat-1', index: 0, text: 'x'.repeat(300), embedding: [] },
+        document,
+        score: 0.5,
+      },
+    ];
+
+    const context = buildRetrievedContext(retrieved);
+
+    expect(context?.prompt).toContain('[1] report.pdf, page 2\nRevenue grew 12%.');
+    expect(context?.prompt).toContain(`[2] report.pdf\n${'x'.repeat(300)}`);
+    expect(context?.citations).toEqual([
+      { index: 1, documentId: 'doc-1', documentName: 'report.pdf', chunkIndex: 3, page: 2, excerpt: 'Revenue grew 12%.', score: 0.8 },
+      { index: 2, documentId: 'doc-1', documentName: 'report.pdf', chunkIndex: 0, excerpt: `${'x'.repeat(240)}...`, score: 0.5 },
+    ]);
+  });
+});
+
+describe('formatCitationSource', () => {
+  it('adds the page when there is one', () => {
+    expect(formatCitationSource({ documentName: 'a.md' })).toBe('a.md');
+    expect(formatCitationSource({ documentName: 'b.pdf', page: 4 })).toBe('b.pdf, page 4');
+  });
+});
@@ -0,0 +1,145 @@
+import { chunkSections } from '@/lib/chunking';
+import { extractDocument } from '@/lib/document-extract';
+import { documentIndex, rankChunks } from '@/lib/vector-index';
+import type { BodhiApiClient } from '@/lib/bodhi-api';
+import type { RequestOptions } from '@/types/extension';
+import type { ChatDocument, Citation, DocumentChunk, RetrievedChunk, RetrievedContext } from '@/types/documents';
+import { DocumentError } from '@/types/documents';
+
+// Chunks sent per /v1/embeddings call
+const EMBEDDING_BATCH_SIZE = 16;
+export const DEFAULT_TOP_K = 4;
+// Below this similarity a chunk is more likely noise than context
+const MIN_RELEVANCE_SCORE = 0.2;
+const EXCERPT_LENGTH = 240;
+
+export async function embedTexts(
+  api: BodhiApiClient,
+  model: string,
+  texts: string[],
+  onProgress?: (embedded: number) => void,
+  options?: RequestOptions
+): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const response = await api.createEmbeddings({ model, input: batch }, options);
+    // The server may answer out of order; index says which input each vector belongs to
+    const ordered = [...response.data].sort((a, b) => a.index - b.index);
+    if (ordered.length !== batch.length) {
+      throw new Error(`Expected ${batch.length} embeddings from ${model}, got ${ordered.length}`);
+    }
+    embeddings.push(...ordered.map(item => item.embedding));
+    onProgress?.(embeddings.length);
+  }
+  return embeddings;
+}
+
+export interface IndexProgress {
+  embedded: number;
+  total: number;
+}
+
+// Reads, chunks and embeds a file, then stores it under the chat
+export async function indexDocument(
+  api: BodhiApiClient,
+  file: File,
+  chatId: string,
+  model: string,
+  onProgress?: (progress: IndexProgress) => void
+): Promise<ChatDocument> {
+  const { type, sections } = await extractDocument(file);
+  const textChunks = chunkSections(sections);
+  if (textChunks.length === 0) {
+    throw new DocumentError(file.name, 'no text to index');
+  }
+
+  onProgress?.({ embedded: 0, total: textChunks.length });
+  const embeddings = await embedTexts(
+    api,
+    model,
+    textChunks.map(chunk => chunk.text),
+    embedded => onProgress?.({ embedded, total: textChunks.length })
+  );
+
+  const document: ChatDocument = {
+    id: crypto.randomUUID(),
+    chatId,
+    name: file.name,
+    type,
+    size: file.size,
+    model,
+    chunkCount: textChunks.length,
+    createdAt: Date.now(),
+  };
+  const chunks: DocumentChunk[] = textChunks.map((chunk, index) => ({
+    id: `${document.id}:${index}`,
+    documentId: document.id,
+    chatId,
+    index,
+    text: chunk.text,
+    ...(chunk.page !== undefined && { page: chunk.page }),
+    embedding: embeddings[index],
+  }));
+
+  await documentIndex.addDocument(document, chunks);
+  return document;
+}
+
+// Documents may have been indexed with different models, and a query vector
+// is only comparable with chunks from the model that produced it
+export async function searchDocuments(
+  api: BodhiApiClient,
+  chatId: string,
+  query: string,
+  k = DEFAULT_TOP_K,
+  options?: RequestOptions
+): Promise<RetrievedChunk[]> {
+  const documents = await documentIndex.listDocuments(chatId);
+  if (documents.length === 0) return [];
+  const chunks = await documentIndex.listChunks(chatId);
+
+  const results: RetrievedChunk[] = [];
+  for (const model of new Set(documents.map(document => document.model))) {
+    const modelDocuments = documents.filter(document => document.model === model);
+    const [queryEmbedding] = await embedTexts(api, model, [query], undefined, options);
+    results.push(...rankChunks(queryEmbedding, chunks, modelDocuments, k, MIN_RELEVANCE_SCORE));
+  }
+  return results.sort((a, b) => b.score - a.score).slice(0, k);
+}
+
+function excerpt(text: string): string {
+  const compact = text.replace(/\s+/g, ' ').trim();
+  return compact.length > EXCERPT_LENGTH ? `${compact.slice(0, EXCERPT_LENGTH)}...` : compact;
+}
+
+export function formatCitationSource(citation: Pick<Citation, 'documentName' | 'page'>): string {
+  return citation.page === undefined ? citation.documentName : `${citation.documentName}, page ${citation.page}`;
+}
+
+// Numbers the sources so the model can cite them as [1], [2] and the UI can resolve those back
+export function buildRetrievedContext(retrieved: RetrievedChunk[]): RetrievedContext | null {
+  if (retrieved.length === 0) return null;
+
+  const citations: Citation[] = retrieved.map(({ chunk, document, score }, index) => ({
+    index: index + 1,
+    documentId: document.id,
+    documentName: document.name,
+    chunkIndex: chunk.index,
+    ...(chunk.page !== undefined && { page: chunk.page }),
+    excerpt: excerpt(chunk.text),
+    score,
+  }));
+
+  const sources = retrieved
+    .map(({ chunk }, index) => `[${index + 1}] ${formatCitationSource(citations[index])}\n${chunk.text}`)
+    .join('\n\n');
+
+  return {
+    prompt: 'Answer using the excerpts from the user\'s documents below when they are relevant. '
+      + 'Cite the excerpts you use as [1], [2] and so on. '
+      + 'If the excerpts do not contain the answer, say so rather than guessing.\n\n'
+      + sources,
+    citations,
+  };
+}
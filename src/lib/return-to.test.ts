@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { getCurrentAppPath, getLocationDraft, parseLoginReturn, sanitizeReturnPath } from '@/lib/return-to';
+
+describe('sanitizeReturnPath', () => {
+  it('keeps in-app paths with query and hash', () => {
+    expect(sanitizeReturnPath('/chat/abc?x=1#bottom')).toBe('/chat/abc?x=1#bottom');
+    expect(sanitizeReturnPath('/')).toBe('/');
+  });
+
+  it('normalises dot segments', () => {
+    expect(sanitizeReturnPath('/chat/../explorer')).toBe('/explorer');
+  });
+
+  it.each([
+    'https://evil.example.com/',
+    '//evil.example.com',
+    '/\\evil.example.com',
+    '\\\\evil.example.com',
+    'javascript:alert(1)',
+    'chat',
+    '/\t/evil.example.com',
+    '',
+  ])('rejects %j', value => {
+    expect(sanitizeReturnPath(value)).toBeNull();
+  });
+
+  it('rejects the callback route and non-strings', () => {
+    expect(sanitizeReturnPath('/callback?code=abc')).toBeNull();
+    expect(sanitizeReturnPath(42)).toBeNull();
+    expect(sanitizeReturnPath(undefined)).toBeNull();
+  });
+});
+
+describe('getCurrentAppPath', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('strips the router basename', () => {
+    window.history.replaceState(null, '', '/bodhi-browser-demo-app/chat/abc?x=1#y');
+
+    expect(getCurrentAppPath('/bodhi-browser-demo-app')).toBe('/chat/abc?x=1#y');
+  });
+
+  it('keeps paths that only share a prefix with the basename', () => {
+    window.history.replaceState(null, '', '/bodhi-browser-demo-apps');
+
+    expect(getCurrentAppPath('/bodhi-browser-demo-app')).toBe('/bodhi-browser-demo-apps');
+  });
+
+  it('maps the basename itself to the root route', () => {
+    window.history.replaceState(null, '', '/bodhi-browser-demo-app');
+
+    expect(getCurrentAppPath('/bodhi-browser-demo-app')).toBe('/');
+  });
+});
+
+describe('parseLoginReturn', () => {
+  it('reads a stored path and draft', () => {
+    expect(parseLoginReturn(JSON.stringify({ path: '/chat/abc', draft: 'Hello' })))
+      .toEqual({ path: '/chat/abc', draft: 'Hello' });
+  });
+
+  it('rejects tampered or malformed values', () => {
+    expect(parseLoginReturn(JSON.stringify({ path: 'https://evil.example.com' }))).toBeNull();
+    expect(parseLoginReturn('not json')).toBeNull();
+    expect(parseLoginReturn('null')).toBeNull();
+    expect(parseLoginReturn(null)).toBeNull();
+  });
+
+  it('drops a draft that is not a string', () => {
+    expect(parseLoginReturn(JSON.stringify({ path: '/chat', draft: { html: '<b>' } }))).toEqual({ path: '/chat' });
+  });
+});
+
+describe('getLocationDraft', () => {
+  it('returns the draft from router state', () => {
+    expect(getLocationDraft({ draft: 'Hello' })).toBe('Hello');
+    expect(getLocationDraft({ draft: 1 })).toBe('');
+    expect(getLocationDraft(null)).toBe('');
+  });
+});
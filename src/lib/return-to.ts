@@ -0,0 +1,61 @@
+import type { LoginReturn } from '@/types/auth';
+import { ROUTER_BASENAME } from '@/lib/config';
+
+// Only used to parse paths; never requested
+const PARSE_ORIGIN = 'https://return-to.invalid';
+
+// Returning here would restart the code exchange
+const EXCLUDED_PATHS = ['/callback'];
+
+function hasControlCharacters(value: string): boolean {
+  return Array.from(value).some(char => char.charCodeAt(0) < 0x20 || char.charCodeAt(0) === 0x7f);
+}
+
+// Accepts only in-app paths such as /chat/123?x=1#y. Absolute and protocol-relative
+// URLs, backslash tricks and control characters are rejected so the value cannot
+// be turned into an open redirect after login.
+export function sanitizeReturnPath(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.startsWith('/')) return null;
+  if (value.startsWith('//') || value.includes('\\') || hasControlCharacters(value)) return null;
+
+  let url: URL;
+  try {
+    url = new URL(value, PARSE_ORIGIN);
+  } catch {
+    return null;
+  }
+  if (url.origin !== PARSE_ORIGIN || EXCLUDED_PATHS.includes(url.pathname)) return null;
+
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+// The current location as a router path, without the deployment basename
+export function getCurrentAppPath(basename = ROUTER_BASENAME): string {
+  const { pathname, search, hash } = window.location;
+  const inBase = basename && (pathname === basename || pathname.startsWith(`${basename}/`));
+  const path = inBase ? pathname.slice(basename.length) : pathname;
+  return `${path || '/'}${search}${hash}`;
+}
+
+// Validates a stored return value, which may have been tampered with while the
+// user was away at the auth server
+export function parseLoginReturn(value: string | null): LoginReturn | null {
+  if (!value) return null;
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object') return null;
+    const { path, draft } = parsed as Record<string, unknown>;
+    const safePath = sanitizeReturnPath(path);
+    if (!safePath) return null;
+    return typeof draft === 'string' && draft ? { path: safePath, draft } : { path: safePath };
+  } catch {
+    return null;
+  }
+}
+
+// Router location state carrying a restored draft
+export function getLocationDraft(state: unknown): string {
+  if (!state || typeof state !== 'object') return '';
+  const { draft } = state as Record<string, unknown>;
+  return typeof draft === 'string' ? draft : '';
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { assembleChatStream, assembleRawChatStream, computeTimings } from '@/lib/stream-assembler';
+import type { ChatCompletionChunk, ChatCompletionDelta, CompletionUsage } from '@/types/api';
+import type { StreamChunk } from '@/types/extension';
+import type { StreamEvent } from '@/types/stream';
+
+function chunk(
+  delta: ChatCompletionDelta,
+  finishReason: string | null = null,
+  usage?: CompletionUsage
+): ChatCompletionChunk {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'llama3',
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+    ...(usage ? { usage } : {}),
+  };
+}
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+async function collect(stream: AsyncIterable<StreamEvent>): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+// Each call advances the clock by 100ms
+function tickingClock(start = 0): () => number {
+  let time = start;
+  return () => (time += 100);
+}
+
+describe('assembleChatStream', () => {
+  it('emits role, content, finish and usage events in order', async () => {
+    const usage = { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 };
+    const events = await collect(assembleChatStream(fromArray([
+      chunk({ role: 'assistant' }),
+      chunk({ content: 'Hel' }),
+      chunk({ content: 'lo' }),
+      chunk({}, 'stop', usage),
+    ]), { startedAt: 0, now: tickingClock() }));
+
+    expect(events.map(event => event.type)).toEqual(['role', 'content', 'content', 'finish', 'usage', 'done']);
+    expect(events[2]).toEqual({ type: 'content', delta: 'lo', content: 'Hello' });
+
+    const done = events.at(-1);
+    expect(done?.type === 'done' && done.message).toMatchObject({
+      role: 'assistant',
+      content: 'Hello',
+      finishReason: 'stop',
+      model: 'llama3',
+      usage,
+    });
+  });
+
+  it('accumulates tool call deltas by index', async () => {
+    const events = await collect(assembleChatStream(fromArray([
+      chunk({ tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'calc', arguments: '' } }] }),
+      chunk({ tool_calls: [{ index: 0, function: { arguments: '{"expr":' } }] }),
+      chunk({ tool_calls: [{ index: 0, function: { arguments: '"1+1"}' } }] }),
+      chunk({}, 'tool_calls'),
+    ])));
+
+    const done = events.at(-1);
+    expect(done?.type === 'done' && done.message.toolCalls).toEqual([
+      { id: 'call_1', type: 'function', function: { name: 'calc', arguments: '{"expr":"1+1"}' } },
+    ]);
+    expect(events.filter(event => event.type === 'tool-call')).toHaveLength(3);
+  });
+
+  it('measures time to first token and generation speed', async () => {
+    // first token at 100ms, finished at 200ms: two tokens in 0.1s
+    const events = await collect(assembleChatStream(fromArray([
+      chunk({ content: 'a' }),
+      chunk({ content: 'b' }),
+    ]), { startedAt: 0, now: tickingClock() }));
+
+    const done = events.at(-1);
+    expect(done?.type === 'done' && done.message.timings).toEqual({
+      timeToFirstTokenMs: 100,
+      durationMs: 200,
+      tokensPerSecond: 20,
+    });
+  });
+
+  it('validates raw extension chunks', async () => {
+    const raw: StreamChunk[] = [
+      { status: 200, headers: {}, body: chunk({ content: 'hi' }) },
+      { status: 200, headers: {}, body: '[DONE]' },
+    ];
+
+    const events = await collect(assembleRawChatStream(fromArray(raw)));
+
+    expect(events.map(event => event.type)).toEqual(['content', 'done']);
+  });
+});
+
+describe('computeTimings', () => {
+  it('reports no rate when nothing was generated', () => {
+    expect(computeTimings(0, null, 500, 0)).toEqual({
+      timeToFirstTokenMs: null,
+      durationMs: 500,
+      tokensPerSecond: null,
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { parseChatCompletionStream } from '@/lib/bodhi-api';
+import type { StreamChunk } from '@/types/extension';
+import type { ChatCompletionChunk, ChatRole, CompletionUsage, ToolCall } from '@/types/api';
+import type { AssembledMessage, StreamEvent, StreamTimings } from '@/types/stream';
+
+export interface AssembleOptions {
+  // When the request was sent; defaults to when assembly starts
+  startedAt?: number;
+  now?: () => number;
+}
+
+export function computeTimings(
+  startedAt: number,
+  firstTokenAt: number | null,
+  finishedAt: number,
+  completionTokens: number
+): StreamTimings {
+  const generationMs = firstTokenAt !== null ? finishedAt - firstTokenAt : 0;
+  return {
+    timeToFirstTokenMs: firstTokenAt !== null ? firstTokenAt - startedAt : null,
+    durationMs: finishedAt - startedAt,
+    tokensPerSecond: generationMs > 0 && completionTokens > 0
+      ? completionTokens / (generationMs / 1000)
+      : null,
+  };
+}
+
+export async function* assembleChatStream(
+  chunks: AsyncIterable<ChatCompletionChunk>,
+  options: AssembleOptions = {}
+): AsyncGenerator<StreamEvent> {
+  const now = options.now ?? (() => performance.now());
+  const startedAt = options.startedAt ?? now();
+
+  let role: ChatRole = 'assistant';
+  let roleSeen = false;
+  let content = '';
+  let finishReason: string | null = null;
+  let model: string | null = null;
+  let usage: CompletionUsage | null = null;
+  let firstTokenAt: number | null = null;
+  // Fallback token count when the server sends no usage block: one token per delta
+  let deltaCount = 0;
+  const toolCalls: ToolCall[] = [];
+
+  for await (const chunk of chunks) {
+    model = chunk.model || model;
+
+    const choice = chunk.choices[0];
+    if (choice) {
+      const { delta } = choice;
+
+      if (delta.role && !roleSeen) {
+        role = delta.role;
+        roleSeen = true;
+        yield { type: 'role', role };
+      }
+
+      if (delta.content) {
+        firstTokenAt ??= now();
+        deltaCount++;
+        content += delta.content;
+        yield { type: 'content', delta: delta.content, content };
+      }
+
+      for (const toolCallDelta of delta.tool_calls ?? []) {
+        firstTokenAt ??= now();
+        deltaCount++;
+        const existing = toolCalls[toolCallDelta.index] ?? {
+          id: '',
+          type: 'function' as const,
+          function: { name: '', arguments: '' },
+        };
+        const toolCall: ToolCall = {
+          id: toolCallDelta.id || existing.id,
+          type: 'function',
+          function: {
+            name: existing.function.name + (toolCallDelta.function?.name ?? ''),
+            arguments: existing.function.arguments + (toolCallDelta.function?.arguments ?? ''),
+          },
+        };
+        toolCalls[toolCallDelta.index] = toolCall;
+        yield { type: 'tool-call', index: toolCallDelta.index, toolCall };
+      }
+
+      if (choice.finish_reason) {
+        finishReason = choice.finish_reason;
+        yield { type: 'finish', reason: finishReason };
+      }
+    }
+
+    if (chunk.usage) {
+      usage = chunk.usage;
+      yield { type: 'usage', usage };
+    }
+  }
+
+  const message: AssembledMessage = {
+    role,
+    content,
+    toolCalls: toolCalls.filter(Boolean),
+    finishReason,
+    model,
+    usage,
+    timings: computeTimings(startedAt, firstTokenAt, now(), usage?.completion_tokens ?? deltaCount),
+  };
+  yield { type: 'done', message };
+}
+
+// Convenience entry point for callers holding the raw stream from sendStreamRequest
+export function assembleRawChatStream(
+  stream: AsyncIterable<StreamChunk>,
+  options: AssembleOptions = {}
+): AsyncGenerator<StreamEvent> {
+  return assembleChatStream(parseChatCompletionStream(stream), options);
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BodhiApiClient } from '@/lib/bodhi-api';
+import { ExtensionClientImpl } from '@/lib/extension-client';
+import { installMockBodhiext } from '@/lib/mock-bodhiext';
+import {
+  buildResponseFormat,
+  compileSchema,
+  getStructuredView,
+  getTableColumns,
+  parseSchemaText,
+  requestStructuredOutput,
+  validateStructuredContent,
+} from '@/lib/structured-output';
+import type { MockApiHandler } from '@/lib/mock-bodhiext';
+import { StructuredOutputError } from '@/types/structured';
+
+const personSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    age: { type: 'integer', minimum: 0 },
+  },
+  required: ['name'],
+};
+
+function createApi(replies?: string[]): BodhiApiClient {
+  const responses: Record<string, MockApiHandler> = {};
+  if (replies) {
+    let call = 0;
+    responses['POST /v1/chat/completions'] = () => ({
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: {
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: 'mock-model',
+        choices: [{ index: 0, message: { role: 'assistant', content: replies[Math.min(call++, replies.length - 1)] }, finish_reason: 'stop' }],
+      },
+    });
+  }
+  installMockBodhiext({ responses });
+  return new BodhiApiClient(new ExtensionClientImpl('mock-bodhiext'));
+}
+
+describe('validateStructuredContent', () => {
+  const validator = compileSchema(personSchema);
+
+  it('accepts JSON that matches, including inside a code fence', () => {
+    expect(validateStructuredContent('{"name":"Ada","age":36}', validator)).toEqual({
+      data: { name: 'Ada', age: 36 },
+      errors: [],
+    });
+    expect(validateStructuredContent('```json\n{"name":"Ada"}\n```', validator).data).toEqual({ name: 'Ada' });
+  });
+
+  it('reports invalid JSON and schema issues with their paths', () => {
+    expect(validateStructuredContent('Sure! {"name"', validator).errors[0]).toMatch(/^Response is not valid JSON/);
+    expect(validateStructuredContent('{"age":-1}', validator).errors).toEqual([
+      expect.stringMatching(/^\$\.name: /),
+      expect.stringMatching(/^\$\.age: /),
+    ]);
+  });
+});
+
+describe('parseSchemaText', () => {
+  it('rejects text that is not a JSON object schema', () => {
+    expect(() => parseSchemaText('{type:')).toThrow('Schema is not valid JSON');
+    expect(() => parseSchemaText('[]')).toThrow('Schema must be a JSON object');
+    expect(parseSchemaText(JSON.stringify(personSchema))).toEqual(personSchema);
+  });
+});
+
+describe('buildResponseFormat', () => {
+  it('sends the schema only in json_schema mode and cleans up the name', () => {
+    expect(buildResponseFormat('json_object', personSchema)).toEqual({ type: 'json_object' });
+    expect(buildResponseFormat('json_schema', personSchema, 'my person')).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'my_person', schema: personSchema, strict: true },
+    });
+  });
+});
+
+describe('requestStructuredOutput', () => {
+  it('returns validated data from the first valid reply', async () => {
+    const api = createApi();
+    const createCompletion = vi.spyOn(api, 'createChatCompletion');
+
+    const result = await requestStructuredOutput(api, {
+      model: 'mock-model',
+      messages: [{ role: 'user', content: 'Who?' }],
+      schema: personSchema,
+    });
+
+    expect(result.data).toEqual({ name: 'mock', age: 0 });
+    expect(result.attempts).toHaveLength(1);
+    const request = createCompletion.mock.calls[0][0];
+    expect(request.response_format).toMatchObject({ type: 'json_schema' });
+    expect(request.messages[0]).toMatchObject({ role: 'system', content: expect.stringContaining('"required":["name"]') });
+  });
+
+  it('re-prompts with the validation errors until the reply matches', async () => {
+    const api = createApi(['{"name": 5}', '{"name": "Ada"}']);
+    const createCompletion = vi.spyOn(api, 'createChatCompletion');
+    const onAttempt = vi.fn();
+
+    const result = await requestStructuredOutput(api, {
+      model: 'mock-model',
+      messages: [{ role: 'user', content: 'Who?' }],
+      schema: personSchema,
+    }, { onAttempt });
+
+    expect(result.data).toEqual({ name: 'Ada' });
+    expect(onAttempt).toHaveBeenCalledTimes(2);
+    const retryMessages = createCompletion.mock.calls[1][0].messages.slice(-2);
+    expect(retryMessages[0]).toEqual({ role: 'assistant', content: '{"name": 5}' });
+    expect(retryMessages[1].content).toContain('- $.name: ');
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const api = createApi(['not json']);
+
+    const request = requestStructuredOutput(api, {
+      model: 'mock-model',
+      messages: [{ role: 'user', content: 'Who?' }],
+      schema: personSchema,
+      maxRetries: 1,
+    });
+
+    await expect(request).rejects.toBeInstanceOf(StructuredOutputError);
+    await expect(request).rejects.toMatchObject({ attempts: [expect.anything(), expect.anything()] });
+  });
+});
+
+describe('getStructuredView', () => {
+  it('shows record lists as tables, records as forms and anything else as a value', () => {
+    expect(getStructuredView([{ a: 1 }, { b: 2 }])).toBe('table');
+    expect(getStructuredView({ a: 1 })).toBe('form');
+    expect(getStructuredView([1, 2])).toBe('value');
+    expect(getStructuredView([])).toBe('value');
+    expect(getStructuredView('text')).toBe('value');
+  });
+
+  it('collects table columns in first-seen order', () => {
+    expect(getTableColumns([{ a: 1, b: 2 }, { c: 3, a: 4 }])).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,194 @@
+import { z } from 'zod';
+import type { BodhiApiClient } from '@/lib/bodhi-api';
+import type { ChatCompletionMessage, ResponseFormat } from '@/types/api';
+import type { RequestOptions } from '@/types/extension';
+import type {
+  StructuredAttempt,
+  StructuredOutputMode,
+  StructuredOutputRequest,
+  StructuredOutputResult,
+  StructuredView,
+} from '@/types/structured';
+import type { JsonSchema } from '@/types/tools';
+import { StructuredOutputError } from '@/types/structured';
+
+export const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_SCHEMA_NAME = 'response';
+// More issues than this rarely help the model and bloat the re-prompt
+const MAX_REPORTED_ISSUES = 10;
+
+export interface StructuredPreset {
+  name: string;
+  schema: JsonSchema;
+  prompt: string;
+}
+
+export const STRUCTURED_PRESETS: StructuredPreset[] = [
+  {
+    name: 'Contact details',
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        email: { type: 'string' },
+        phone: { type: 'string' },
+        company: { type: 'string' },
+      },
+      required: ['name'],
+      additionalProperties: false,
+    },
+    prompt: 'Extract the contact details from this email signature:\n\nBest regards,\nJane Doe\nHead of Research, Acme Labs\njane.doe@acme.example | +1 555 0100',
+  },
+  {
+    name: 'Line items',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          item: { type: 'string' },
+          quantity: { type: 'integer', minimum: 1 },
+          unitPrice: { type: 'number', minimum: 0 },
+        },
+        required: ['item', 'quantity', 'unitPrice'],
+        additionalProperties: false,
+      },
+    },
+    prompt: 'List the line items on this receipt:\n\n2 x Coffee @ 3.50\n1 x Bagel @ 2.25\n3 x Orange juice @ 4.00',
+  },
+];
+
+// Parses schema text typed by the user and checks it can be enforced
+export function parseSchemaText(text: string): JsonSchema {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch {
+    throw new StructuredOutputError(['Schema is not valid JSON']);
+  }
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    throw new StructuredOutputError(['Schema must be a JSON object']);
+  }
+  compileSchema(schema as JsonSchema);
+  return schema as JsonSchema;
+}
+
+export function compileSchema(schema: JsonSchema): z.ZodType {
+  try {
+    return z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]);
+  } catch (error) {
+    throw new StructuredOutputError([`Schema is not supported: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+}
+
+function formatIssuePath(path: PropertyKey[]): string {
+  return '$' + path.map(key => (typeof key === 'number' ? `[${key}]` : `.${String(key)}`)).join('');
+}
+
+// Models often wrap JSON in a Markdown fence even when asked not to
+function stripCodeFence(content: string): string {
+  const fenced = /^```(?:json)?\s*\n?([\s\S]*?)\n?```$/i.exec(content.trim());
+  return fenced ? fenced[1] : content.trim();
+}
+
+export function validateStructuredContent(
+  content: string,
+  validator: z.ZodType
+): { data?: unknown; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(content));
+  } catch (error) {
+    return { errors: [`Response is not valid JSON (${error instanceof Error ? error.message : String(error)})`] };
+  }
+
+  const result = validator.safeParse(parsed);
+  if (result.success) return { data: result.data, errors: [] };
+  return {
+    errors: result.error.issues
+      .slice(0, MAX_REPORTED_ISSUES)
+      .map(issue => `${formatIssuePath(issue.path)}: ${issue.message}`),
+  };
+}
+
+export function buildResponseFormat(mode: StructuredOutputMode, schema: JsonSchema, name = DEFAULT_SCHEMA_NAME): ResponseFormat {
+  if (mode === 'json_object') return { type: 'json_object' };
+  return {
+    type: 'json_schema',
+    json_schema: { name: name.replace(/[^a-zA-Z0-9_-]/g, '_') || DEFAULT_SCHEMA_NAME, schema, strict: true },
+  };
+}
+
+// Sent in both modes: servers that ignore response_format still see what is expected
+function schemaInstruction(schema: JsonSchema): ChatCompletionMessage {
+  return {
+    role: 'system',
+    content: 'Respond only with JSON that matches this JSON schema, without any other text:\n'
+      + JSON.stringify(schema),
+  };
+}
+
+export function buildRetryPrompt(errors: string[]): string {
+  return 'Your previous reply did not match the required JSON schema:\n'
+    + errors.map(error => `- ${error}`).join('\n')
+    + '\nReply again with only the corrected JSON.';
+}
+
+// Asks for JSON, validates it against the schema and, while it does not match,
+// shows the model its reply and the validation errors and asks again
+export async function requestStructuredOutput<T = unknown>(
+  api: BodhiApiClient,
+  request: StructuredOutputRequest,
+  options: RequestOptions & { onAttempt?: (attempt: StructuredAttempt) => void } = {}
+): Promise<StructuredOutputResult<T>> {
+  const { onAttempt, ...requestOptions } = options;
+  const validator = compileSchema(request.schema);
+  const maxRetries = Math.max(request.maxRetries ?? DEFAULT_MAX_RETRIES, 0);
+  const responseFormat = buildResponseFormat(request.mode ?? 'json_schema', request.schema, request.schemaName);
+  const messages: ChatCompletionMessage[] = [schemaInstruction(request.schema), ...request.messages];
+  const attempts: StructuredAttempt[] = [];
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const completion = await api.createChatCompletion({
+      model: request.model,
+      messages,
+      response_format: responseFormat,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+    }, requestOptions);
+
+    const content = completion.choices[0]?.message.content ?? '';
+    const { data, errors } = validateStructuredContent(content, validator);
+    const result: StructuredAttempt = { content, errors, usage: completion.usage ?? null };
+    attempts.push(result);
+    onAttempt?.(result);
+
+    if (errors.length === 0) return { data: data as T, attempts };
+    messages.push({ role: 'assistant', content }, { role: 'user', content: buildRetryPrompt(errors) });
+  }
+
+  throw new StructuredOutputError(attempts[attempts.length - 1].errors, attempts);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function getStructuredView(value: unknown): StructuredView {
+  if (Array.isArray(value) && value.length > 0 && value.every(isRecord)) return 'table';
+  if (isRecord(value)) return 'form';
+  return 'value';
+}
+
+// Keys of all rows, in the order they first appear
+export function getTableColumns(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+  return [...columns];
+}
+
+export function formatStructuredValue(value: unknown): string {
+  if (value === undefined) return '';
+  if (value === null) return 'null';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
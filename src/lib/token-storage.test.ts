@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MemoryStorageBackend,
+  SessionStorageBackend,
+  TokenVault,
+  createStorageBackend,
+  parseTokenStorageKind,
+} from '@/lib/token-storage';
+
+describe('TokenVault', () => {
+  it('serves reads from memory and persists writes in order', async () => {
+    const backend = new SessionStorageBackend();
+    const vault = new TokenVault(backend, ['a', 'b']);
+    await vault.ready();
+
+    vault.set('a', '1');
+    vault.set('b', '2');
+    vault.remove('a');
+
+    expect(vault.get('a')).toBeNull();
+    expect(vault.get('b')).toBe('2');
+    await vault.flush();
+    expect(sessionStorage.getItem('a')).toBeNull();
+    expect(sessionStorage.getItem('b')).toBe('2');
+  });
+
+  it('only loads and clears its own keys', async () => {
+    sessionStorage.setItem('a', '1');
+    sessionStorage.setItem('other', 'keep');
+    const vault = new TokenVault(new SessionStorageBackend(), ['a']);
+
+    await vault.ready();
+    expect(vault.get('a')).toBe('1');
+    expect(vault.get('other')).toBeNull();
+
+    vault.clear();
+    await vault.flush();
+    expect(sessionStorage.getItem('a')).toBeNull();
+    expect(sessionStorage.getItem('other')).toBe('keep');
+  });
+
+  it('picks up values written through another vault on reload', async () => {
+    const backend = new MemoryStorageBackend();
+    const writer = new TokenVault(backend, ['token']);
+    const reader = new TokenVault(backend, ['token']);
+    await reader.ready();
+
+    writer.set('token', 'fresh');
+    await writer.flush();
+
+    expect(reader.get('token')).toBeNull();
+    await reader.reload();
+    expect(reader.get('token')).toBe('fresh');
+  });
+
+  it('starts empty when the backend cannot be read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const backend = new MemoryStorageBackend();
+    vi.spyOn(backend, 'readAll').mockRejectedValue(new Error('corrupt'));
+    const vault = new TokenVault(backend, ['token']);
+
+    await vault.ready();
+
+    expect(vault.get('token')).toBeNull();
+  });
+});
+
+describe('createStorageBackend', () => {
+  it('falls back to memory when IndexedDB is unavailable', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(createStorageBackend('indexeddb').kind).toBe('memory');
+    expect(createStorageBackend('session').kind).toBe('session');
+  });
+
+  it('parses configured kinds', () => {
+    expect(parseTokenStorageKind('memory', 'indexeddb')).toBe('memory');
+    expect(parseTokenStorageKind('localStorage', 'indexeddb')).toBe('indexeddb');
+    expect(parseTokenStorageKind(undefined, 'session')).toBe('session');
+  });
+});
@@ -0,0 +1,221 @@
+import { requestToPromise } from '@/lib/idb';
+import type { StorageBackend, TokenStorageKind } from '@/types/auth';
+
+const DB_NAME = 'bodhi-auth';
+const DB_VERSION = 1;
+const KEYS_STORE = 'keys';
+const ITEMS_STORE = 'items';
+const ENCRYPTION_KEY_ID = 'token-encryption-key';
+
+export const TOKEN_STORAGE_KINDS: readonly TokenStorageKind[] = ['memory', 'session', 'indexeddb'];
+
+export class MemoryStorageBackend implements StorageBackend {
+  readonly kind = 'memory';
+  private items = new Map<string, string>();
+
+  async readAll(keys: readonly string[]): Promise<Map<string, string>> {
+    return new Map([...this.items].filter(([key]) => keys.includes(key)));
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+export class SessionStorageBackend implements StorageBackend {
+  readonly kind = 'session';
+
+  async readAll(keys: readonly string[]): Promise<Map<string, string>> {
+    const items = new Map<string, string>();
+    for (const key of keys) {
+      const value = sessionStorage.getItem(key);
+      if (value !== null) items.set(key, value);
+    }
+    return items;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    sessionStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    sessionStorage.removeItem(key);
+  }
+}
+
+interface EncryptedItem {
+  key: string;
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+// Values are AES-GCM encrypted with a key that is generated in the browser as
+// non-extractable and stored as a CryptoKey, so its bytes can never be read
+// back out, not even by scripts running on the page
+export class EncryptedIndexedDBBackend implements StorageBackend {
+  readonly kind = 'indexeddb';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private keyPromise: Promise<CryptoKey> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(KEYS_STORE)) db.createObjectStore(KEYS_STORE);
+          if (!db.objectStoreNames.contains(ITEMS_STORE)) db.createObjectStore(ITEMS_STORE, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    if (!this.keyPromise) {
+      this.keyPromise = (async () => {
+        const existing = await requestToPromise(
+          (await this.store(KEYS_STORE, 'readonly')).get(ENCRYPTION_KEY_ID) as IDBRequest<CryptoKey | undefined>
+        );
+        if (existing) return existing;
+
+        const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        await requestToPromise((await this.store(KEYS_STORE, 'readwrite')).put(key, ENCRYPTION_KEY_ID));
+        return key;
+      })().catch(error => {
+        this.keyPromise = null;
+        throw error;
+      });
+    }
+    return this.keyPromise;
+  }
+
+  async readAll(keys: readonly string[]): Promise<Map<string, string>> {
+    const key = await this.getKey();
+    const store = await this.store(ITEMS_STORE, 'readonly');
+    const items = await requestToPromise(store.getAll() as IDBRequest<EncryptedItem[]>);
+    const values = new Map<string, string>();
+
+    for (const item of items.filter(item => keys.includes(item.key))) {
+      try {
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: item.iv }, key, item.data);
+        values.set(item.key, new TextDecoder().decode(plaintext));
+      } catch {
+        // Written with a key that no longer exists; the value is unrecoverable
+        await this.removeItem(item.key);
+      }
+    }
+    return values;
+  }
+
+  async setItem(itemKey: string, value: string): Promise<void> {
+    const key = await this.getKey();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(value));
+    const item: EncryptedItem = { key: itemKey, iv, data };
+    await requestToPromise((await this.store(ITEMS_STORE, 'readwrite')).put(item));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await requestToPromise((await this.store(ITEMS_STORE, 'readwrite')).delete(key));
+  }
+}
+
+export function createStorageBackend(kind: TokenStorageKind): StorageBackend {
+  switch (kind) {
+    case 'memory':
+      return new MemoryStorageBackend();
+    case 'session':
+      return new SessionStorageBackend();
+    case 'indexeddb':
+      if (typeof indexedDB === 'undefined' || !globalThis.crypto?.subtle) {
+        console.warn('IndexedDB or WebCrypto is unavailable, keeping tokens in memory only');
+        return new MemoryStorageBackend();
+      }
+      return new EncryptedIndexedDBBackend();
+  }
+}
+
+export function parseTokenStorageKind(value: string | undefined, fallback: TokenStorageKind): TokenStorageKind {
+  return TOKEN_STORAGE_KINDS.find(kind => kind === value) ?? fallback;
+}
+
+// A synchronous view over a storage backend for a fixed set of keys. Reads
+// come from an in-memory copy loaded by ready()/reload(); writes update the
+// copy at once and are persisted in order, so flush() before navigating away.
+export class TokenVault {
+  private backend: StorageBackend;
+  private keys: readonly string[];
+  private values = new Map<string, string>();
+  private loadPromise: Promise<void> | null = null;
+  private pendingWrites: Promise<void> = Promise.resolve();
+
+  constructor(backend: StorageBackend, keys: readonly string[]) {
+    this.backend = backend;
+    this.keys = keys;
+  }
+
+  get kind(): TokenStorageKind {
+    return this.backend.kind;
+  }
+
+  ready(): Promise<void> {
+    this.loadPromise ??= this.reload();
+    return this.loadPromise;
+  }
+
+  // Picks up values written by another tab sharing the same backend
+  async reload(): Promise<void> {
+    await this.pendingWrites;
+    try {
+      this.values = await this.backend.readAll(this.keys);
+    } catch (error) {
+      console.error('Failed to load stored tokens:', error);
+      this.values = new Map();
+    }
+  }
+
+  get(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+
+  set(key: string, value: string): void {
+    this.values.set(key, value);
+    this.persist(() => this.backend.setItem(key, value));
+  }
+
+  remove(key: string): void {
+    this.values.delete(key);
+    this.persist(() => this.backend.removeItem(key));
+  }
+
+  clear(): void {
+    for (const key of this.keys) {
+      this.remove(key);
+    }
+  }
+
+  flush(): Promise<void> {
+    return this.pendingWrites;
+  }
+
+  private persist(write: () => Promise<void>): void {
+    this.pendingWrites = this.pendingWrites.then(write).catch(error => {
+      console.error('Failed to persist token storage:', error);
+    });
+  }
+}
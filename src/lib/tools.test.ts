@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { calculatorTool, dateTimeTool, searchConversations, ToolRegistry } from '@/lib/tools';
+import { createMessageTree } from '@/lib/message-tree';
+import type { ToolCall } from '@/types/api';
+import type { Chat } from '@/types/chat';
+import { RequestAbortedError } from '@/types/extension';
+
+function toolCall(name: string, args: string): ToolCall {
+  return { id: 'call-1', type: 'function', function: { name, arguments: args } };
+}
+
+function chat(id: string, title: string, contents: string[], updatedAt = 0): Chat {
+  return {
+    id,
+    title,
+    tree: createMessageTree(contents.map((content, index) => ({ role: index % 2 ? 'assistant' : 'user', content }))),
+    model: 'model',
+    settings: {},
+    createdAt: 0,
+    updatedAt,
+  };
+}
+
+describe('ToolRegistry', () => {
+  const registry = new ToolRegistry([calculatorTool, dateTimeTool]);
+
+  it('builds request definitions for the named tools only', () => {
+    expect(registry.definitions(['calculator', 'removed_tool'])).toEqual([
+      {
+        type: 'function',
+        function: { name: 'calculator', description: calculatorTool.description, parameters: calculatorTool.parameters },
+      },
+    ]);
+  });
+
+  it('runs a call and records its result', async () => {
+    const trace = await registry.execute(toolCall('calculator', '{"expression":"6 * 7"}'));
+
+    expect(trace).toMatchObject({ id: 'call-1', name: 'calculator', result: '{"result":42}' });
+    expect(trace.error).toBeUndefined();
+    expect(trace.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('reports bad calls as errors instead of throwing', async () => {
+    await expect(registry.execute(toolCall('missing', '{}'))).resolves.toMatchObject({ error: 'Unknown tool "missing"' });
+    await expect(registry.execute(toolCall('calculator', '{expression'))).resolves.toMatchObject({
+      error: 'Arguments are not valid JSON',
+    });
+    await expect(registry.execute(toolCall('calculator', '[]'))).resolves.toMatchObject({
+      error: 'Arguments must be a JSON object',
+    });
+    await expect(registry.execute(toolCall('calculator', '{}'))).resolves.toMatchObject({
+      error: '"expression" must be a non-empty string',
+    });
+    await expect(registry.execute(toolCall('current_datetime', '{"timeZone":"Nowhere/City"}'))).resolves.toMatchObject({
+      error: 'Unknown time zone "Nowhere/City"',
+    });
+  });
+
+  it('rethrows cancellation', async () => {
+    const cancelled = new ToolRegistry([{ ...calculatorTool, run: () => Promise.reject(new RequestAbortedError()) }]);
+
+    await expect(cancelled.execute(toolCall('calculator', '{}'))).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+
+  it('rejects tool names the API would not accept', () => {
+    expect(() => registry.register({ ...calculatorTool, name: 'has spaces' })).toThrow('Invalid tool name');
+  });
+});
+
+describe('searchConversations', () => {
+  const chats = [
+    chat('old', 'Trip planning', ['Where should I go in Portugal?', 'Lisbon and Porto are popular.'], 1),
+    chat('new', 'Recipes', ['How do I bake bread?', 'Mix flour, water, salt and yeast.'], 2),
+    chat('both', 'Travel food', ['What bread should I try in Lisbon?', 'Try broa.'], 3),
+  ];
+
+  it('ranks chats by matched words, then by recency', () => {
+    const results = searchConversations(chats, 'lisbon bread');
+
+    expect(results.map(result => result.chatId)).toEqual(['both', 'new', 'old']);
+    expect(results[0]).toMatchObject({ title: 'Travel food', snippets: ['What bread should I try in Lisbon?'] });
+  });
+
+  it('returns nothing for an empty query or no matches', () => {
+    expect(searchConversations(chats, '  ')).toEqual([]);
+    expect(searchConversations(chats, 'quantum')).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+import { evaluateExpression } from '@/lib/calculator';
+import { chatDB } from '@/lib/chat-db';
+import { runSandboxedScript } from '@/lib/js-sandbox';
+import type { ChatTool, ToolCall } from '@/types/api';
+import type { Chat } from '@/types/chat';
+import type { ToolCallTrace, ToolContext, ToolDefinition } from '@/types/tools';
+import { RequestAbortedError } from '@/types/extension';
+import { ToolError } from '@/types/tools';
+
+const SEARCH_RESULT_LIMIT = 5;
+const TOOL_ERROR_PREFIX = 'Error: ';
+const SNIPPET_RADIUS = 100;
+
+export interface ConversationMatch {
+  chatId: string;
+  title: string;
+  updatedAt: string;
+  snippets: string[];
+}
+
+function snippetAround(text: string, position: number): string {
+  const start = Math.max(position - SNIPPET_RADIUS, 0);
+  const end = Math.min(position + SNIPPET_RADIUS, text.length);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '...' : ''}${snippet}${end < text.length ? '...' : ''}`;
+}
+
+// Ranks chats by how many query words appear in their messages, across all branches
+export function searchConversations(chats: Chat[], query: string, limit = SEARCH_RESULT_LIMIT): ConversationMatch[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const ranked: { match: ConversationMatch; score: number; updatedAt: number }[] = [];
+  for (const chat of chats) {
+    const matched = new Set<string>();
+    const snippets: string[] = [];
+    for (const text of [chat.title, ...Object.values(chat.tree.nodes).map(node => node.message.content)]) {
+      const lower = text.toLowerCase();
+      let snippetTaken = false;
+      for (const term of terms) {
+        const position = lower.indexOf(term);
+        if (position === -1) continue;
+        // At most one snippet per message, only for words not already shown
+        if (!matched.has(term) && !snippetTaken && snippets.length < 2 && text !== chat.title) {
+          snippets.push(snippetAround(text, position));
+          snippetTaken = true;
+        }
+        matched.add(term);
+      }
+    }
+    if (matched.size > 0) {
+      ranked.push({
+        match: { chatId: chat.id, title: chat.title, updatedAt: new Date(chat.updatedAt).toISOString(), snippets },
+        score: matched.size,
+        updatedAt: chat.updatedAt,
+      });
+    }
+  }
+
+  return ranked
+    .sort((a, b) => b.score - a.score || b.updatedAt - a.updatedAt)
+    .slice(0, limit)
+    .map(({ match }) => match);
+}
+
+function requireString(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ToolError(`"${name}" must be a non-empty string`);
+  }
+  return value;
+}
+
+export const calculatorTool: ToolDefinition = {
+  name: 'calculator',
+  label: 'Calculator',
+  description: 'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e '
+    + 'and functions such as sqrt, abs, round, floor, ceil, sin, cos, tan, ln, log, exp, min and max.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression, e.g. "(3 + 4) * 2^10"' },
+    },
+    required: ['expression'],
+  },
+  run: async args => ({ result: evaluateExpression(requireString(args, 'expression')) }),
+};
+
+export const dateTimeTool: ToolDefinition = {
+  name: 'current_datetime',
+  label: 'Date and time',
+  description: 'Get the current date and time, in the user\'s time zone or a given IANA time zone.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone such as "Europe/Paris"; defaults to the user\'s' },
+    },
+  },
+  run: async args => {
+    const now = new Date();
+    const timeZone = typeof args.timeZone === 'string' && args.timeZone
+      ? args.timeZone
+      : Intl.DateTimeFormat().resolvedOptions().timeZone;
+    let local: string;
+    try {
+      local = now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' });
+    } catch {
+      throw new ToolError(`Unknown time zone "${timeZone}"`);
+    }
+    return { iso: now.toISOString(), local, timeZone, unixMs: now.getTime() };
+  },
+};
+
+export const javascriptTool: ToolDefinition = {
+  name: 'run_javascript',
+  label: 'JavaScript sandbox',
+  description: 'Run JavaScript in an isolated sandbox, without network, storage or DOM access, to compute a result. '
+    + 'The code is the body of an async function: use `return` for the result. console.log output is captured. '
+    + 'Runs are limited to a few seconds.',
+  parameters: {
+    type: 'object',
+    properties: {
+      code: { type: 'string', description: 'JavaScript to run, e.g. "return [1, 2, 3].map(n => n * n);"' },
+    },
+    required: ['code'],
+  },
+  run: (args, context) => runSandboxedScript(requireString(args, 'code'), { signal: context.signal }),
+};
+
+export const conversationSearchTool: ToolDefinition = {
+  name: 'search_conversations',
+  label: 'Conversation search',
+  description: 'Search the user\'s saved chats in this app by keywords. Returns matching chat titles with snippets.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Keywords to look for' },
+    },
+    required: ['query'],
+  },
+  run: async args => searchConversations(await chatDB.listChats(), requireString(args, 'query')),
+};
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [calculatorTool, dateTimeTool, javascriptTool, conversationSearchTool];
+
+// The tool message content the model is sent for a finished call
+export function formatToolMessage(trace: ToolCallTrace): string {
+  return trace.error !== undefined ? `${TOOL_ERROR_PREFIX}${trace.error}` : trace.result ?? '';
+}
+
+// Reverses formatToolMessage, e.g. for imported conversations
+export function parseToolMessage(content: string): Pick<ToolCallTrace, 'result' | 'error'> {
+  return content.startsWith(TOOL_ERROR_PREFIX)
+    ? { error: content.slice(TOOL_ERROR_PREFIX.length) }
+    : { result: content };
+}
+
+function formatToolResult(value: unknown): string {
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value) ?? 'null';
+}
+
+export class ToolRegistry {
+  private readonly tools = new Map<string, ToolDefinition>();
+
+  constructor(tools: ToolDefinition[] = []) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  register(tool: ToolDefinition): void {
+    if (!/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name)) {
+      throw new Error(`Invalid tool name "${tool.name}"`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  list(): ToolDefinition[] {
+    return [...this.tools.values()];
+  }
+
+  // The request-side definitions for the named tools; unknown names are skipped
+  // so a chat saved with a since-removed tool still works
+  definitions(names: string[]): ChatTool[] {
+    return names
+      .map(name => this.tools.get(name))
+      .filter((tool): tool is ToolDefinition => tool !== undefined)
+      .map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }));
+  }
+
+  // Never throws for a bad call: the error goes back to the model so it can correct itself.
+  // Only cancellation is rethrown.
+  async execute(toolCall: ToolCall, context: ToolContext = {}): Promise<ToolCallTrace> {
+    const trace: ToolCallTrace = { id: toolCall.id, name: toolCall.function.name, arguments: toolCall.function.arguments };
+    const startedAt = performance.now();
+    try {
+      const tool = this.tools.get(toolCall.function.name);
+      if (!tool) throw new ToolError(`Unknown tool "${toolCall.function.name}"`);
+
+      let args: unknown;
+      try {
+        args = toolCall.function.arguments.trim() ? JSON.parse(toolCall.function.arguments) : {};
+      } catch {
+        throw new ToolError('Arguments are not valid JSON');
+      }
+      if (!args || typeof args !== 'object' || Array.isArray(args)) {
+        throw new ToolError('Arguments must be a JSON object');
+      }
+
+      trace.result = formatToolResult(await tool.run(args as Record<string, unknown>, context));
+    } catch (error) {
+      if (error instanceof RequestAbortedError) throw error;
+      trace.error = error instanceof Error ? error.message : String(error);
+    }
+    trace.durationMs = performance.now() - startedAt;
+    return trace;
+  }
+}
+
+export const toolRegistry = new ToolRegistry(BUILTIN_TOOLS);
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { cosineSimilarity, rankChunks } from '@/lib/vector-index';
+import type { ChatDocument, DocumentChunk } from '@/types/documents';
+
+const document: ChatDocument = {
+  id: 'doc-1',
+  chatId: 'chat-1',
+  name: 'notes.md',
+  type: 'markdown',
+  size: 100,
+  model: 'embed',
+  chunkCount: 3,
+  createdAt: 0,
+};
+
+function chunk(index: number, embedding: number[], documentId = 'doc-1'): DocumentChunk {
+  return { id: `${documentId}:${index}`, documentId, chatId: 'chat-1', index, text: `chunk ${index}`, embedding };
+}
+
+describe('cosineSimilarity', () => {
+  it('scores identical, orthogonal and opposite vectors', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+  });
+
+  it('returns 0 for mismatched or zero vectors', () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
+
+describe('rankChunks', () => {
+  it('orders by similarity, applies the minimum score and limits to k', () => {
+    const chunks = [chunk(0, [0, 1]), chunk(1, [1, 0]), chunk(2, [1, 1]), chunk(3, [-1, 0])];
+
+    const ranked = rankChunks([1, 0], chunks, [document], 2, 0.2);
+
+    expect(ranked.map(result => result.chunk.index)).toEqual([1, 2]);
+    expect(ranked[0].document).toBe(document);
+  });
+
+  it('skips chunks whose document is not being searched', () => {
+    expect(rankChunks([1, 0], [chunk(0, [1, 0], 'other')], [document], 4)).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import { requestToPromise } from '@/lib/idb';
+import type { ChatDocument, DocumentChunk, RetrievedChunk } from '@/types/documents';
+
+const DB_NAME = 'bodhi-documents';
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';
+const CHUNKS_STORE = 'chunks';
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Best matches first; chunks below minScore are left out even if fewer than k remain
+export function rankChunks(
+  query: number[],
+  chunks: DocumentChunk[],
+  documents: ChatDocument[],
+  k: number,
+  minScore = 0
+): RetrievedChunk[] {
+  const documentsById = new Map(documents.map(document => [document.id, document]));
+  const ranked: RetrievedChunk[] = [];
+  for (const chunk of chunks) {
+    const document = documentsById.get(chunk.documentId);
+    if (!document) continue;
+    const score = cosineSimilarity(query, chunk.embedding);
+    if (score >= minScore) ranked.push({ chunk, document, score });
+  }
+  return ranked.sort((a, b) => b.score - a.score).slice(0, k);
+}
+
+// Vectors are kept next to the chats in IndexedDB and searched in memory, which
+// is plenty for the few thousand chunks a chat's documents produce
+export class DocumentIndex {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+            const store = db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+            store.createIndex('chatId', 'chatId');
+          }
+          if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+            const store = db.createObjectStore(CHUNKS_STORE, { keyPath: 'id' });
+            store.createIndex('chatId', 'chatId');
+            store.createIndex('documentId', 'documentId');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async transaction(mode: IDBTransactionMode): Promise<IDBTransaction> {
+    const db = await this.open();
+    return db.transaction([DOCUMENTS_STORE, CHUNKS_STORE], mode);
+  }
+
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async listDocuments(chatId: string): Promise<ChatDocument[]> {
+    const transaction = await this.transaction('readonly');
+    const index = transaction.objectStore(DOCUMENTS_STORE).index('chatId');
+    const documents = await requestToPromise(index.getAll(chatId) as IDBRequest<ChatDocument[]>);
+    return documents.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async listChunks(chatId: string): Promise<DocumentChunk[]> {
+    const transaction = await this.transaction('readonly');
+    const index = transaction.objectStore(CHUNKS_STORE).index('chatId');
+    return requestToPromise(index.getAll(chatId) as IDBRequest<DocumentChunk[]>);
+  }
+
+  // A document and its chunks are written together so search never sees half an upload
+  async addDocument(document: ChatDocument, chunks: DocumentChunk[]): Promise<void> {
+    const transaction = await this.transaction('readwrite');
+    transaction.objectStore(DOCUMENTS_STORE).put(document);
+    const chunkStore = transaction.objectStore(CHUNKS_STORE);
+    for (const chunk of chunks) {
+      chunkStore.put(chunk);
+    }
+    await this.complete(transaction);
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    const transaction = await this.transaction('readwrite');
+    transaction.objectStore(DOCUMENTS_STORE).delete(documentId);
+    const chunkStore = transaction.objectStore(CHUNKS_STORE);
+    const keys = await requestToPromise(chunkStore.index('documentId').getAllKeys(documentId));
+    for (const key of keys) {
+      chunkStore.delete(key);
+    }
+    await this.complete(transaction);
+  }
+
+  async deleteChatDocuments(chatId: string): Promise<void> {
+    const transaction = await this.transaction('readwrite');
+    for (const storeName of [DOCUMENTS_STORE, CHUNKS_STORE]) {
+      const store = transaction.objectStore(storeName);
+      const keys = await requestToPromise(store.index('chatId').getAllKeys(chatId));
+      for (const key of keys) {
+        store.delete(key);
+      }
+    }
+    await this.complete(transaction);
+  }
+}
+
+export const documentIndex = new DocumentIndex();
@@ -2,9 +2,29 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { loadAppConfig } from '@/lib/config'
+import { oauthManager, removeLegacyAuthStorage } from '@/lib/oauth'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// The mock extension is only bundled into dev builds or builds that opt in via VITE_BODHIEXT_MOCK
+async function setupMockExtension() {
+  const forceEnabled = import.meta.env.VITE_BODHIEXT_MOCK === 'true'
+  if (!import.meta.env.DEV && !forceEnabled) return
+
+  const { installMockBodhiext, resolveMockOptions } = await import('@/lib/mock-bodhiext')
+  const options = resolveMockOptions(window.location.search, forceEnabled)
+  if (options) {
+    installMockBodhiext(options)
+    console.info('Using mock Bodhi extension', options)
+  }
+}
+
+removeLegacyAuthStorage()
+
+// Stored tokens are loaded before the first render so the app does not start out logged out
+Promise.allSettled([setupMockExtension(), loadAppConfig(), oauthManager.ready()]).finally(() => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  )
+})
@@ -1,15 +1,18 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { CheckCircle, AlertCircle, Loader2 } from "lucide-react";
 import { oauthManager } from '@/lib/oauth';
+import type { LoginReturn } from '@/types/auth';
+
+const HOME: LoginReturn = { path: '/' };
 
 type ProcessingState =
   | { status: 'loading' }
   | { status: 'processing'; step: string }
-  | { status: 'success' }
+  | { status: 'success'; loginReturn: LoginReturn }
   | { status: 'error'; message: string };
 
 export default function CallbackPage() {
@@ -17,6 +20,11 @@ export default function CallbackPage() {
   const [searchParams] = useSearchParams();
   const [state, setState] = useState<ProcessingState>({ status: 'loading' });
 
+  // Back to where login started, with any chat draft carried in the location state
+  const returnTo = useCallback(({ path, draft }: LoginReturn) => {
+    navigate(path, { replace: true, state: draft ? { draft } : undefined });
+  }, [navigate]);
+
   useEffect(() => {
     let mounted = true;
 
@@ -55,9 +63,10 @@ export default function CallbackPage() {
         
         if (!mounted) return;
 
-        setState({ status: 'success' });
+        const loginReturn = oauthManager.takeLoginReturn() ?? HOME;
+        setState({ status: 'success', loginReturn });
         setTimeout(() => {
-          if (mounted) navigate('/');
+          if (mounted) returnTo(loginReturn);
         }, 2000);
       } catch (error) {
         if (!mounted) return;
@@ -71,7 +80,7 @@ export default function CallbackPage() {
 
     processCallback();
     return () => { mounted = false; };
-  }, [searchParams, navigate]);
+  }, [searchParams, returnTo]);
 
   const handleReturnHome = () => navigate('/');
   const handleRetry = () => window.location.reload();
@@ -123,9 +132,12 @@ export default function CallbackPage() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <p>You have been successfully authenticated. Redirecting to home page...</p>
-            <Button onClick={handleReturnHome} className="w-full">
-              Return to Home
+            <p>
+              You have been successfully authenticated.{' '}
+              {state.loginReturn.path === '/' ? 'Redirecting to home page...' : 'Taking you back to where you were...'}
+            </p>
+            <Button onClick={() => returnTo(state.loginReturn)} className="w-full">
+              {state.loginReturn.path === '/' ? 'Return to Home' : 'Continue'}
             </Button>
           </CardContent>
         </Card>
@@ -0,0 +1,387 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  ArrowLeft,
+  AlertCircle,
+  Loader2,
+  LogIn,
+  PanelLeftClose,
+  PanelLeftOpen,
+  PanelRightClose,
+  PanelRightOpen,
+} from "lucide-react";
+import { ChatUI } from "@/components/chat/ChatUI";
+import { ChatHistory } from "@/components/chat/ChatHistory";
+import { ChatTransfer } from "@/components/chat/ChatTransfer";
+import { DocumentBar } from "@/components/chat/DocumentBar";
+import { NewChatButton } from "@/components/chat/NewChatButton";
+import { SettingsSidebar } from "@/components/chat/settings/SettingsSidebar";
+import { ConnectionIndicator } from "@/components/platform/ConnectionIndicator";
+import { usePlatformDetection } from "@/hooks/usePlatformDetection";
+import { useAuthentication } from "@/hooks/useAuthentication";
+import { useAuthenticatedClient } from "@/hooks/useAuthenticatedClient";
+import { useBodhiApi } from "@/hooks/useBodhiApi";
+import { useExtensionHealth } from "@/hooks/useExtensionHealth";
+import { useChat } from "@/hooks/useChat";
+import { useChatDB } from "@/hooks/useChatDB";
+import { useChatSettings } from "@/hooks/useChatSettings";
+import { useDocuments } from "@/hooks/useDocuments";
+import { useModels } from "@/hooks/useModels";
+import { generateChatTitle } from "@/lib/chat-history";
+import { createMessageTree, getActiveMessages } from "@/lib/message-tree";
+import { getLocationDraft } from "@/lib/return-to";
+import { toolRegistry } from "@/lib/tools";
+import { documentIndex } from "@/lib/vector-index";
+import type { MessageTree } from "@/types/chat";
+
+const HISTORY_OPEN_KEY = 'bodhi_chat_history_open';
+const SETTINGS_OPEN_KEY = 'bodhi_chat_settings_open';
+
+export default function ChatPage() {
+  const navigate = useNavigate();
+  const { chatId } = useParams();
+  const location = useLocation();
+  const platformState = usePlatformDetection();
+  const authState = useAuthentication(platformState);
+  const health = useExtensionHealth(platformState);
+  const chatDBState = useChatDB();
+  const { getChat, saveChat, deleteChat, renameChat, importChats } = chatDBState;
+  const settingsState = useChatSettings();
+  const { model, settings, applyChatSettings, restoreDefaults } = settingsState;
+  const isAuthenticated = authState.status === 'authenticated';
+  const authClient = useAuthenticatedClient(platformState.client);
+  const api = useBodhiApi(authClient);
+  const modelsState = useModels(isAuthenticated ? api : null);
+  const documentsState = useDocuments(isAuthenticated ? api : null, chatId ?? null);
+  const [dragging, setDragging] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(
+    () => localStorage.getItem(HISTORY_OPEN_KEY) !== 'false'
+  );
+  const [settingsOpen, setSettingsOpen] = useState(
+    () => localStorage.getItem(SETTINGS_OPEN_KEY) !== 'false'
+  );
+
+  // The unsent message survives the composer unmounting while logged out,
+  // and a login redirect hands it back through the location state
+  const draftRef = useRef(getLocationDraft(location.state));
+
+  // Drop the restored draft from history so a reload does not bring it back
+  useEffect(() => {
+    if (getLocationDraft(location.state)) {
+      navigate(location, { replace: true, state: null });
+    }
+  }, [location, navigate]);
+
+  // Tracks the chat being displayed independently of the URL so a chat created
+  // mid-stream keeps receiving its own updates after we navigate to it
+  const currentChatIdRef = useRef<string | null>(null);
+
+  const persistConversation = useCallback(async (tree: MessageTree) => {
+    const existingId = currentChatIdRef.current;
+    const id = existingId ?? crypto.randomUUID();
+    currentChatIdRef.current = id;
+
+    try {
+      const existing = existingId ? await getChat(existingId) : null;
+      // A chat created to hold attached documents is titled by its first message
+      const keepTitle = existing && getActiveMessages(existing.tree).length > 0;
+      const now = Date.now();
+      await saveChat({
+        id,
+        title: keepTitle ? existing.title : generateChatTitle(getActiveMessages(tree)),
+        tree,
+        model,
+        settings,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+
+      if (!existingId) {
+        navigate(`/chat/${id}`, { replace: true });
+      }
+    } catch (error) {
+      console.error('Failed to save chat:', error);
+    }
+  }, [getChat, saveChat, model, settings, navigate]);
+
+  const chatState = useChat(api, model, {
+    settings,
+    onConversationChange: persistConversation,
+    retrieveContext: documentsState.retrieveContext,
+    tools: toolRegistry,
+  });
+  const { loadConversation } = chatState;
+
+  useEffect(() => {
+    const targetId = chatId ?? null;
+    if (targetId === currentChatIdRef.current && targetId !== null) return;
+    currentChatIdRef.current = targetId;
+
+    if (!targetId) {
+      loadConversation(createMessageTree());
+      restoreDefaults();
+      return;
+    }
+
+    getChat(targetId)
+      .then(chat => {
+        // A slower load from an earlier navigation must not replace the chat shown now
+        if (currentChatIdRef.current !== targetId) return;
+        if (!chat) {
+          navigate('/chat', { replace: true });
+          return;
+        }
+        loadConversation(chat.tree);
+        applyChatSettings(chat.model, chat.settings);
+      })
+      .catch(error => console.error('Failed to load chat:', error));
+  }, [chatId, getChat, loadConversation, applyChatSettings, restoreDefaults, navigate]);
+
+  const toggleHistory = () => {
+    setHistoryOpen(open => {
+      localStorage.setItem(HISTORY_OPEN_KEY, String(!open));
+      return !open;
+    });
+  };
+
+  const toggleSettings = () => {
+    setSettingsOpen(open => {
+      localStorage.setItem(SETTINGS_OPEN_KEY, String(!open));
+      return !open;
+    });
+  };
+
+  const handleReturnHome = () => navigate('/');
+  const handleLogin = () => authState.login({ draft: draftRef.current });
+  const handleDraftChange = useCallback((draft: string) => {
+    draftRef.current = draft;
+  }, []);
+  const handleNewChat = useCallback(() => navigate('/chat'), [navigate]);
+  const handleSelectChat = (id: string) => navigate(`/chat/${id}`);
+
+  // Documents belong to a chat, so attaching to a new conversation saves it first
+  const ensureChatId = async (): Promise<string> => {
+    if (currentChatIdRef.current) return currentChatIdRef.current;
+
+    const id = crypto.randomUUID();
+    const now = Date.now();
+    await saveChat({
+      id,
+      title: 'New Chat',
+      tree: createMessageTree(),
+      model,
+      settings,
+      createdAt: now,
+      updatedAt: now,
+    });
+    currentChatIdRef.current = id;
+    navigate(`/chat/${id}`, { replace: true });
+    return id;
+  };
+
+  const handleAttach = async (files: File[]) => {
+    try {
+      await documentsState.addFiles(files, await ensureChatId());
+    } catch (error) {
+      console.error('Failed to attach documents:', error);
+    }
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    // Moving onto a child element also fires dragleave on the card
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setDragging(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length > 0 && documentsState.embeddingModel && chatState.status !== 'streaming') {
+      handleAttach(files);
+    }
+  };
+
+  const handleDeleteChat = async (id: string) => {
+    try {
+      await deleteChat(id);
+      await documentIndex.deleteChatDocuments(id);
+      if (id === currentChatIdRef.current) {
+        navigate('/chat');
+      }
+    } catch (error) {
+      console.error('Failed to delete chat:', error);
+    }
+  };
+
+  const handleRenameChat = async (id: string, title: string) => {
+    try {
+      await renameChat(id, title);
+    } catch (error) {
+      console.error('Failed to rename chat:', error);
+    }
+  };
+
+  // While reconnecting the previous client is kept, so the conversation stays on screen
+  const isReconnecting = platformState.status === 'detecting' && !!platformState.client;
+
+  if ((platformState.status === 'detecting' && !isReconnecting) || authState.status === 'authenticating') {
+    return (
+      <div className="container mx-auto p-4 max-w-md">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Connecting to Bodhi extension...
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if ((platformState.status !== 'detected' && !isReconnecting) || !isAuthenticated) {
+    return (
+      <div className="container mx-auto p-4 max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle>Chat Unavailable</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {platformState.status !== 'detected'
+                  ? 'The Bodhi browser extension or local server is not ready. Check the status on the home page.'
+                  : authState.error ?? 'You need to log in before you can chat.'}
+              </AlertDescription>
+            </Alert>
+            {platformState.status === 'detected' && (
+              <Button onClick={handleLogin} className="flex w-full items-center gap-2">
+                <LogIn className="h-4 w-4" />
+                Log In
+              </Button>
+            )}
+            <Button onClick={handleReturnHome} variant="outline" className="w-full">
+              Return to Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isStreaming = chatState.status === 'streaming';
+
+  return (
+    <div className="container mx-auto flex h-screen max-w-7xl gap-4 p-4">
+      {historyOpen && (
+        <Card className="flex w-64 shrink-0 flex-col">
+          <div className="border-b p-4">
+            <NewChatButton onNewChat={handleNewChat} disabled={isStreaming} />
+          </div>
+          <div className="min-h-0 flex-1 overflow-y-auto p-2">
+            {chatDBState.error ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{chatDBState.error}</AlertDescription>
+              </Alert>
+            ) : (
+              <ChatHistory
+                chats={chatDBState.chats}
+                currentChatId={chatId ?? null}
+                onSelectChat={handleSelectChat}
+                onDeleteChat={handleDeleteChat}
+                onRenameChat={handleRenameChat}
+              />
+            )}
+          </div>
+          <div className="border-t p-4">
+            <ChatTransfer
+              chats={chatDBState.chats}
+              currentChat={chatDBState.chats.find(chat => chat.id === chatId) ?? null}
+              onImport={importChats}
+              disabled={isStreaming}
+            />
+          </div>
+        </Card>
+      )}
+
+      <Card
+        className={`flex min-h-0 flex-1 flex-col ${dragging ? 'ring-2 ring-primary' : ''}`}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        <CardHeader className="flex flex-row items-center gap-2 space-y-0 border-b">
+          <Button onClick={handleReturnHome} variant="ghost" size="icon" aria-label="Back to home">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            onClick={toggleHistory}
+            variant="ghost"
+            size="icon"
+            aria-label={historyOpen ? 'Hide chat history' : 'Show chat history'}
+          >
+            {historyOpen ? <PanelLeftClose className="h-4 w-4" /> : <PanelLeftOpen className="h-4 w-4" />}
+          </Button>
+          <CardTitle className="flex-1 text-xl">Chat</CardTitle>
+          {model && (
+            <span className="truncate text-sm text-muted-foreground" title={model}>
+              {model}
+            </span>
+          )}
+          <ConnectionIndicator health={health} />
+          <Button
+            onClick={toggleSettings}
+            variant="ghost"
+            size="icon"
+            aria-label={settingsOpen ? 'Hide settings' : 'Show settings'}
+          >
+            {settingsOpen ? <PanelRightClose className="h-4 w-4" /> : <PanelRightOpen className="h-4 w-4" />}
+          </Button>
+        </CardHeader>
+        <DocumentBar
+          documentsState={documentsState}
+          models={modelsState.models}
+          onAttach={handleAttach}
+          disabled={isStreaming}
+        />
+        <CardContent className="min-h-0 flex-1 p-0">
+          <ChatUI
+            chatState={chatState}
+            disabled={!model || isReconnecting}
+            initialInput={draftRef.current}
+            onInputChange={handleDraftChange}
+          />
+        </CardContent>
+      </Card>
+
+      {settingsOpen && (
+        <Card className="flex w-72 shrink-0 flex-col">
+          <CardHeader className="border-b">
+            <CardTitle className="text-lg">Settings</CardTitle>
+          </CardHeader>
+          <CardContent className="min-h-0 flex-1 overflow-y-auto pt-6">
+            <SettingsSidebar
+              settingsState={settingsState}
+              modelsState={modelsState}
+              tools={toolRegistry.list()}
+              disabled={isStreaming}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, AlertCircle, Check, Loader2, Send, Square, Terminal } from "lucide-react";
+import { ExplorerHistory } from "@/components/explorer/ExplorerHistory";
+import { ExplorerResponse } from "@/components/explorer/ExplorerResponse";
+import { usePlatformDetection } from "@/hooks/usePlatformDetection";
+import { useAuthentication } from "@/hooks/useAuthentication";
+import { useApiExplorer } from "@/hooks/useApiExplorer";
+import { oauthManager } from "@/lib/oauth";
+import { buildCurlCommand, DEFAULT_EXPLORER_REQUEST, EXPLORER_METHODS } from "@/lib/explorer";
+import type { ExplorerMethod, ExplorerRequest } from "@/types/explorer";
+
+const SELECT_CLASS_NAME = "flex h-10 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+export default function ExplorerPage() {
+  const navigate = useNavigate();
+  const platformState = usePlatformDetection();
+  const authState = useAuthentication(platformState);
+  const explorer = useApiExplorer(platformState.client);
+  const [request, setRequest] = useState<ExplorerRequest>(DEFAULT_EXPLORER_REQUEST);
+  const [serverUrl, setServerUrl] = useState<string | null>(null);
+  const [curlStatus, setCurlStatus] = useState<{ kind: 'success' | 'error'; text: string } | null>(null);
+  const isAuthenticated = authState.status === 'authenticated';
+
+  useEffect(() => {
+    const client = platformState.client;
+    if (!client) return;
+
+    let active = true;
+    client.serverState()
+      .then(state => {
+        if (active) setServerUrl(state.url ?? null);
+      })
+      .catch(error => console.error('Failed to read server state:', error));
+    return () => { active = false; };
+  }, [platformState.client]);
+
+  const updateRequest = (changes: Partial<ExplorerRequest>) => {
+    setRequest(prev => ({ ...prev, ...changes }));
+    setCurlStatus(null);
+  };
+
+  const handleSend = () => {
+    explorer.send({ ...request, attachToken: request.attachToken && isAuthenticated });
+  };
+
+  const handleCopyCurl = async () => {
+    if (!serverUrl) return;
+    try {
+      const token = request.attachToken && isAuthenticated ? await oauthManager.getValidAccessToken() : null;
+      await navigator.clipboard.writeText(buildCurlCommand(request, serverUrl, token));
+      setCurlStatus({ kind: 'success', text: 'Copied curl command' });
+    } catch (error) {
+      console.error('Failed to copy curl command:', error);
+      setCurlStatus({ kind: 'error', text: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  if (platformState.status === 'detecting' && !platformState.client) {
+    return (
+      <div className="container mx-auto p-4 max-w-md">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Connecting to Bodhi extension...
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!platformState.client) {
+    return (
+      <div className="container mx-auto p-4 max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle>API Explorer Unavailable</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                The Bodhi browser extension is not available. Check the status on the home page.
+              </AlertDescription>
+            </Alert>
+            <Button onClick={() => navigate('/')} className="w-full">
+              Return to Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto flex max-w-7xl gap-4 p-4">
+      <Card className="flex w-72 shrink-0 flex-col">
+        <CardHeader className="border-b">
+          <CardTitle className="text-lg">History</CardTitle>
+        </CardHeader>
+        <CardContent className="min-h-0 flex-1 overflow-y-auto p-2">
+          <ExplorerHistory
+            history={explorer.history}
+            onSelect={selected => updateRequest(selected)}
+            onRemove={explorer.removeHistoryEntry}
+            onClear={explorer.clearHistory}
+          />
+        </CardContent>
+      </Card>
+
+      <div className="min-w-0 flex-1 space-y-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center gap-2 space-y-0 border-b">
+            <Button onClick={() => navigate('/')} variant="ghost" size="icon" aria-label="Back to home">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <CardTitle className="flex-1 text-xl">API Explorer</CardTitle>
+            {serverUrl && <span className="font-mono text-sm text-muted-foreground">{serverUrl}</span>}
+          </CardHeader>
+          <CardContent className="space-y-4 pt-6">
+            <div className="flex gap-2">
+              <select
+                value={request.method}
+                onChange={event => updateRequest({ method: event.target.value as ExplorerMethod })}
+                aria-label="Method"
+                className={SELECT_CLASS_NAME}
+              >
+                {EXPLORER_METHODS.map(method => (
+                  <option key={method} value={method}>
+                    {method}
+                  </option>
+                ))}
+              </select>
+              <Input
+                value={request.endpoint}
+                onChange={event => updateRequest({ endpoint: event.target.value })}
+                onKeyDown={event => {
+                  if (event.key === 'Enter') handleSend();
+                }}
+                placeholder="/v1/models"
+                aria-label="Endpoint"
+                className="font-mono"
+              />
+              {explorer.sending ? (
+                <Button onClick={explorer.cancel} variant="outline" className="flex items-center gap-2">
+                  <Square className="h-4 w-4" />
+                  Cancel
+                </Button>
+              ) : (
+                <Button onClick={handleSend} className="flex items-center gap-2">
+                  <Send className="h-4 w-4" />
+                  Send
+                </Button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-6 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={request.stream}
+                  onChange={event => updateRequest({ stream: event.target.checked })}
+                />
+                Stream response
+              </label>
+              <label
+                className="flex items-center gap-2"
+                title={isAuthenticated ? undefined : 'Log in to attach your access token'}
+              >
+                <input
+                  type="checkbox"
+                  checked={request.attachToken && isAuthenticated}
+                  onChange={event => updateRequest({ attachToken: event.target.checked })}
+                  disabled={!isAuthenticated}
+                />
+                Attach Bearer token
+              </label>
+              <Button
+                onClick={handleCopyCurl}
+                variant="outline"
+                size="sm"
+                className="ml-auto flex items-center gap-2"
+                disabled={!serverUrl}
+                title={serverUrl ? undefined : 'The server URL is not known yet'}
+              >
+                {curlStatus?.kind === 'success' ? <Check className="h-3 w-3" /> : <Terminal className="h-3 w-3" />}
+                Copy as curl
+              </Button>
+            </div>
+            {curlStatus?.kind === 'error' && (
+              <p className="text-xs text-destructive">{curlStatus.text}</p>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="explorer-body">Body (JSON)</Label>
+                <Textarea
+                  id="explorer-body"
+                  value={request.body}
+                  onChange={event => updateRequest({ body: event.target.value })}
+                  placeholder={request.method === 'GET' ? 'GET requests have no body' : '{ "model": "..." }'}
+                  disabled={request.method === 'GET'}
+                  className="min-h-40 font-mono text-xs"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="explorer-headers">Headers (JSON object)</Label>
+                <Textarea
+                  id="explorer-headers"
+                  value={request.headers}
+                  onChange={event => updateRequest({ headers: event.target.value })}
+                  placeholder='{ "X-Request-Id": "debug-1" }'
+                  className="min-h-40 font-mono text-xs"
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="border-b">
+            <CardTitle className="text-lg">Response</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <ExplorerResponse result={explorer.result} sending={explorer.sending} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
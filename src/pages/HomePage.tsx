@@ -1,16 +1,21 @@
+import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Boxes, Braces, MessageSquare, Terminal } from "lucide-react";
 import { PlatformStatusSection } from "@/components/platform/PlatformStatusSection";
 import { AuthenticationStatusSection } from "@/components/auth/AuthenticationStatusSection";
+import { EnvironmentSwitcher } from "@/components/dev/EnvironmentSwitcher";
+import { RequireAccess } from "@/components/auth/RequireAccess";
 import { usePlatformDetection } from "@/hooks/usePlatformDetection";
 import { useAuthentication } from "@/hooks/useAuthentication";
+import { useExtensionHealth } from "@/hooks/useExtensionHealth";
+import { MODEL_MANAGEMENT_ROLE } from "@/lib/access";
 
 export default function HomePage() {
+  const navigate = useNavigate();
   const platformState = usePlatformDetection();
   const authState = useAuthentication(platformState);
-
-  const handleRetryPlatformDetection = () => {
-    window.location.reload(); // Simple retry - could be enhanced
-  };
+  const health = useExtensionHealth(platformState);
 
   return (
     <div className="container mx-auto p-4 max-w-4xl">
@@ -31,8 +36,9 @@ export default function HomePage() {
 
         {/* Platform Status */}
         <PlatformStatusSection 
-          platformState={platformState} 
-          onRetry={handleRetryPlatformDetection}
+          platformState={platformState}
+          health={health}
+          onRetry={platformState.retry}
         />
 
         {/* Authentication Status - Only show when extension is detected */}
@@ -40,16 +46,38 @@ export default function HomePage() {
           <AuthenticationStatusSection authState={authState} />
         )}
 
+        {import.meta.env.DEV && <EnvironmentSwitcher />}
+
         {/* Additional Features Section - Only show when authenticated */}
         {authState.status === 'authenticated' && (
           <Card>
             <CardHeader>
               <CardTitle>Available Features</CardTitle>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
               <p className="text-muted-foreground">
                 Authentication successful! You can now access Bodhi platform features.
               </p>
+              <div className="flex gap-2">
+                <Button onClick={() => navigate('/chat')} className="flex items-center gap-2">
+                  <MessageSquare className="h-4 w-4" />
+                  Open Chat
+                </Button>
+                <Button onClick={() => navigate('/explorer')} variant="outline" className="flex items-center gap-2">
+                  <Terminal className="h-4 w-4" />
+                  API Explorer
+                </Button>
+                <Button onClick={() => navigate('/structured')} variant="outline" className="flex items-center gap-2">
+                  <Braces className="h-4 w-4" />
+                  Structured Output
+                </Button>
+                <RequireAccess authState={authState} role={MODEL_MANAGEMENT_ROLE}>
+                  <Button onClick={() => navigate('/models')} variant="outline" className="flex items-center gap-2">
+                    <Boxes className="h-4 w-4" />
+                    Manage Models
+                  </Button>
+                </RequireAccess>
+              </div>
             </CardContent>
           </Card>
         )}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, AlertCircle, Loader2, Plus, RefreshCw } from "lucide-react";
+import { RequireAccess } from "@/components/auth/RequireAccess";
+import { AliasEditor } from "@/components/models/AliasEditor";
+import { AliasList } from "@/components/models/AliasList";
+import { ModelFileList } from "@/components/models/ModelFileList";
+import { PullModelForm } from "@/components/models/PullModelForm";
+import { usePlatformDetection } from "@/hooks/usePlatformDetection";
+import { useAuthentication } from "@/hooks/useAuthentication";
+import { useAuthenticatedClient } from "@/hooks/useAuthenticatedClient";
+import { useBodhiApi } from "@/hooks/useBodhiApi";
+import { useAccess } from "@/hooks/useAccess";
+import { useModelManagement } from "@/hooks/useModelManagement";
+import { MODEL_MANAGEMENT_ROLE } from "@/lib/access";
+import type { ModelAlias } from "@/types/api";
+
+// Null while closed; "new" opens an empty form
+type EditingAlias = ModelAlias | 'new' | null;
+
+export default function ModelsPage() {
+  const navigate = useNavigate();
+  const platformState = usePlatformDetection();
+  const authState = useAuthentication(platformState);
+  const access = useAccess(authState, { role: MODEL_MANAGEMENT_ROLE });
+  const authClient = useAuthenticatedClient(platformState.client);
+  const api = useBodhiApi(authClient);
+  const models = useModelManagement(access.allowed ? api : null);
+  const [editing, setEditing] = useState<EditingAlias>(null);
+
+  const handleReturnHome = () => navigate('/');
+
+  if (platformState.status === 'detecting' || authState.status === 'authenticating') {
+    return (
+      <div className="container mx-auto p-4 max-w-md">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Connecting to Bodhi extension...
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const unavailable = (
+    <div className="container mx-auto p-4 max-w-md">
+      <Card>
+        <CardHeader>
+          <CardTitle>Models Unavailable</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {platformState.status !== 'detected'
+                ? 'The Bodhi browser extension or local server is not ready. Check the status on the home page.'
+                : access.missing.join('. ')}
+            </AlertDescription>
+          </Alert>
+          <Button onClick={handleReturnHome} className="w-full">
+            Return to Home
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+
+  if (platformState.status !== 'detected') {
+    return unavailable;
+  }
+
+  return (
+    <RequireAccess authState={authState} role={MODEL_MANAGEMENT_ROLE} fallback={unavailable}>
+      <div className="container mx-auto max-w-6xl space-y-4 p-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center gap-2 space-y-0">
+            <Button onClick={handleReturnHome} variant="ghost" size="icon" aria-label="Back to home">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <CardTitle className="flex-1 text-xl">Models</CardTitle>
+            <Button
+              onClick={models.refresh}
+              variant="ghost"
+              size="icon"
+              aria-label="Refresh models"
+              disabled={models.loading}
+            >
+              <RefreshCw className={models.loading ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
+            </Button>
+          </CardHeader>
+          {models.error && (
+            <CardContent>
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{models.error}</AlertDescription>
+              </Alert>
+            </CardContent>
+          )}
+        </Card>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <Card>
+            <CardHeader className="flex flex-row items-center space-y-0 border-b">
+              <CardTitle className="flex-1 text-lg">Aliases</CardTitle>
+              {editing === null && (
+                <Button onClick={() => setEditing('new')} variant="outline" size="sm" className="flex items-center gap-1">
+                  <Plus className="h-3 w-3" />
+                  New alias
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="pt-4">
+              {editing === null ? (
+                <AliasList aliases={models.aliases} onEdit={setEditing} />
+              ) : (
+                <AliasEditor
+                  key={editing === 'new' ? 'new' : editing.alias}
+                  alias={editing === 'new' ? null : editing}
+                  files={models.files}
+                  onSave={models.saveAlias}
+                  onCancel={() => setEditing(null)}
+                />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="border-b">
+              <CardTitle className="text-lg">Pull from Hugging Face</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-4">
+              <PullModelForm downloads={models.downloads} onPull={models.pullModel} />
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="border-b">
+            <CardTitle className="text-lg">Downloaded model files</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-4">
+            <ModelFileList files={models.files} />
+          </CardContent>
+        </Card>
+      </div>
+    </RequireAccess>
+  );
+}
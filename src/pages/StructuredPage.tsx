@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, AlertCircle, Braces, Loader2, Play, Square } from "lucide-react";
+import { AttemptList } from "@/components/structured/AttemptList";
+import { StructuredResult } from "@/components/structured/StructuredResult";
+import { usePlatformDetection } from "@/hooks/usePlatformDetection";
+import { useAuthentication } from "@/hooks/useAuthentication";
+import { useAuthenticatedClient } from "@/hooks/useAuthenticatedClient";
+import { useBodhiApi } from "@/hooks/useBodhiApi";
+import { useModels } from "@/hooks/useModels";
+import { useStructuredOutput } from "@/hooks/useStructuredOutput";
+import { DEFAULT_MAX_RETRIES, parseSchemaText, STRUCTURED_PRESETS } from "@/lib/structured-output";
+import type { StructuredOutputMode } from "@/types/structured";
+
+const SELECT_CLASS_NAME = "flex h-10 w-full rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+const formatSchema = (schema: unknown) => JSON.stringify(schema, null, 2);
+
+export default function StructuredPage() {
+  const navigate = useNavigate();
+  const platformState = usePlatformDetection();
+  const authState = useAuthentication(platformState);
+  const isAuthenticated = authState.status === 'authenticated';
+  const authClient = useAuthenticatedClient(platformState.client);
+  const api = useBodhiApi(authClient);
+  const modelsState = useModels(isAuthenticated ? api : null);
+  const structured = useStructuredOutput(isAuthenticated ? api : null);
+  const [model, setModel] = useState('');
+  const [mode, setMode] = useState<StructuredOutputMode>('json_schema');
+  const [maxRetries, setMaxRetries] = useState(String(DEFAULT_MAX_RETRIES));
+  const [schemaText, setSchemaText] = useState(() => formatSchema(STRUCTURED_PRESETS[0].schema));
+  const [prompt, setPrompt] = useState(STRUCTURED_PRESETS[0].prompt);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Until one is picked, use the first model the server lists
+  const selectedModel = model || modelsState.models[0]?.id || '';
+
+  const handlePreset = (name: string) => {
+    const preset = STRUCTURED_PRESETS.find(candidate => candidate.name === name);
+    if (!preset) return;
+    setSchemaText(formatSchema(preset.schema));
+    setPrompt(preset.prompt);
+    setFormError(null);
+  };
+
+  const handleRun = () => {
+    let schema;
+    try {
+      schema = parseSchemaText(schemaText);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    setFormError(null);
+    const retries = parseInt(maxRetries, 10);
+    structured.run({
+      model: selectedModel,
+      messages: [{ role: 'user', content: prompt }],
+      schema,
+      mode,
+      maxRetries: Number.isNaN(retries) ? DEFAULT_MAX_RETRIES : retries,
+    });
+  };
+
+  if (platformState.status === 'detecting' || authState.status === 'authenticating') {
+    return (
+      <div className="container mx-auto p-4 max-w-md">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Connecting to Bodhi extension...
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (platformState.status !== 'detected' || !isAuthenticated) {
+    return (
+      <div className="container mx-auto p-4 max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle>Structured Output Unavailable</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {platformState.status !== 'detected'
+                  ? 'The Bodhi browser extension or local server is not ready. Check the status on the home page.'
+                  : authState.error ?? 'You need to log in first.'}
+              </AlertDescription>
+            </Alert>
+            <Button onClick={() => navigate('/')} className="w-full">
+              Return to Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto grid max-w-7xl gap-4 p-4 lg:grid-cols-2">
+      <Card>
+        <CardHeader className="flex flex-row items-center gap-2 space-y-0 border-b">
+          <Button onClick={() => navigate('/')} variant="ghost" size="icon" aria-label="Back to home">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <CardTitle className="flex-1 text-xl">Structured Output</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 pt-6">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="structured-model">Model</Label>
+              <select
+                id="structured-model"
+                value={selectedModel}
+                onChange={event => setModel(event.target.value)}
+                className={SELECT_CLASS_NAME}
+              >
+                {modelsState.models.length === 0 && <option value="">No models available</option>}
+                {modelsState.models.map(m => (
+                  <option key={m.id} value={m.id}>
+                    {m.id}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="structured-preset">Example</Label>
+              <select
+                id="structured-preset"
+                defaultValue=""
+                onChange={event => handlePreset(event.target.value)}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="" disabled>
+                  Load an example
+                </option>
+                {STRUCTURED_PRESETS.map(preset => (
+                  <option key={preset.name} value={preset.name}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="structured-mode">Response format</Label>
+              <select
+                id="structured-mode"
+                value={mode}
+                onChange={event => setMode(event.target.value as StructuredOutputMode)}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="json_schema">json_schema (server enforces the schema)</option>
+                <option value="json_object">json_object (checked in the app)</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="structured-retries">Max retries</Label>
+              <Input
+                id="structured-retries"
+                type="number"
+                min={0}
+                max={10}
+                step={1}
+                value={maxRetries}
+                onChange={event => setMaxRetries(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="structured-schema">JSON Schema</Label>
+            <Textarea
+              id="structured-schema"
+              value={schemaText}
+              onChange={event => setSchemaText(event.target.value)}
+              className="min-h-[220px] font-mono text-xs"
+              spellCheck={false}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="structured-prompt">Prompt</Label>
+            <Textarea
+              id="structured-prompt"
+              value={prompt}
+              onChange={event => setPrompt(event.target.value)}
+              className="min-h-[120px]"
+            />
+          </div>
+
+          {formError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{formError}</AlertDescription>
+            </Alert>
+          )}
+
+          {structured.running ? (
+            <Button onClick={structured.cancel} variant="outline" className="flex w-full items-center gap-2">
+              <Square className="h-4 w-4" />
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              onClick={handleRun}
+              className="flex w-full items-center gap-2"
+              disabled={!selectedModel || !prompt.trim()}
+            >
+              <Play className="h-4 w-4" />
+              Run
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="min-w-0 space-y-4">
+        <Card>
+          <CardHeader className="border-b">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Braces className="h-4 w-4" />
+              Result
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 pt-6">
+            {structured.error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{structured.error}</AlertDescription>
+              </Alert>
+            )}
+            {structured.hasData ? (
+              <StructuredResult data={structured.data} />
+            ) : (
+              !structured.error && (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  {structured.running && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {structured.running ? 'Waiting for a valid response...' : 'Run a prompt to see the validated result here.'}
+                </p>
+              )
+            )}
+          </CardContent>
+        </Card>
+
+        {structured.attempts.length > 0 && (
+          <Card>
+            <CardHeader className="border-b">
+              <CardTitle className="text-lg">Attempts</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-6">
+              <AttemptList attempts={structured.attempts} />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
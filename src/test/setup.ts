@@ -0,0 +1,65 @@
+import '@testing-library/jest-dom/vitest';
+import { createHash, getRandomValues, randomUUID } from 'node:crypto';
+import { afterEach, beforeEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+}
+
+// Only the parts of WebCrypto the app uses, backed by node:crypto so digests are real
+const fakeCrypto = {
+  getRandomValues: <T extends ArrayBufferView | null>(array: T): T =>
+    getRandomValues(array as unknown as Uint8Array) as unknown as T,
+  randomUUID,
+  subtle: {
+    digest: vi.fn(async (algorithm: string, data: BufferSource) => {
+      const hashName = algorithm.replace('-', '').toLowerCase();
+      const bytes = data instanceof ArrayBuffer
+        ? new Uint8Array(data)
+        : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+      const digest = createHash(hashName).update(bytes).digest();
+      return digest.buffer.slice(digest.byteOffset, digest.byteOffset + digest.byteLength);
+    }),
+  },
+};
+
+// jsdom has no IndexedDB, so the auth code under test keeps tokens in sessionStorage
+vi.stubEnv('VITE_TOKEN_STORAGE', 'session');
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  vi.stubGlobal('sessionStorage', new MemoryStorage());
+  vi.stubGlobal('crypto', fakeCrypto);
+});
+
+afterEach(() => {
+  cleanup();
+  delete window.bodhiext;
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
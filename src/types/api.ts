@@ -0,0 +1,247 @@
+import type { ApiErrorBody } from '@/types/extension';
+
+export interface RequestAccessResponse {
+  scope: string;
+}
+
+export interface UserResponse {
+  logged_in: boolean;
+  email?: string;
+  role?: string;
+}
+
+export interface Model {
+  id: string;
+  object: string;
+  created?: number;
+  owned_by?: string;
+}
+
+export interface ModelList {
+  object: string;
+  data: Model[];
+}
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+export interface ChatCompletionMessage {
+  role: ChatRole;
+  content: string | null;
+  tool_calls?: ToolCall[];
+  // Set on role "tool" messages to say which call they answer
+  tool_call_id?: string;
+}
+
+// A function the model may call, described by a JSON schema for its arguments
+export interface ChatTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+// Constrains the reply to JSON, optionally matching a schema
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | {
+    type: 'json_schema';
+    json_schema: {
+      name: string;
+      description?: string;
+      schema: Record<string, unknown>;
+      strict?: boolean;
+    };
+  };
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatCompletionMessage[];
+  tools?: ChatTool[];
+  response_format?: ResponseFormat;
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string[];
+  seed?: number;
+}
+
+export interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatCompletionChoice {
+  index: number;
+  message: ChatCompletionMessage;
+  finish_reason: string | null;
+}
+
+export interface ChatCompletion {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: ChatCompletionChoice[];
+  usage?: CompletionUsage;
+}
+
+export interface ChatCompletionDelta {
+  role?: ChatRole;
+  content?: string | null;
+  tool_calls?: ToolCallDelta[];
+}
+
+export interface ChatCompletionChunkChoice {
+  index: number;
+  delta: ChatCompletionDelta;
+  finish_reason: string | null;
+}
+
+export interface ChatCompletionChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: ChatCompletionChunkChoice[];
+  usage?: CompletionUsage | null;
+}
+
+export interface EmbeddingRequest {
+  model: string;
+  input: string | string[];
+}
+
+export interface Embedding {
+  object: string;
+  index: number;
+  embedding: number[];
+}
+
+export interface EmbeddingResponse {
+  object: string;
+  data: Embedding[];
+  model: string;
+  usage?: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+// Bodhi's own endpoints page their lists
+export interface PaginatedResponse<T> {
+  data: T[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+// A GGUF file downloaded to the local Hugging Face cache
+export interface LocalModelFile {
+  repo: string;
+  filename: string;
+  snapshot: string;
+  size?: number | null;
+}
+
+// Default OpenAI request parameters applied when a chat names the alias
+export interface AliasRequestParams {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  seed?: number;
+  stop?: string[];
+  frequency_penalty?: number;
+  presence_penalty?: number;
+}
+
+export interface ModelAlias {
+  alias: string;
+  repo: string;
+  filename: string;
+  snapshot: string;
+  // "user" aliases are editable, "model" ones come with the model file
+  source: string;
+  request_params: AliasRequestParams;
+  // Extra llama-server arguments such as --ctx-size 4096
+  context_params: string[];
+}
+
+export interface ModelAliasRequest {
+  alias: string;
+  repo: string;
+  filename: string;
+  snapshot?: string;
+  request_params: AliasRequestParams;
+  context_params: string[];
+}
+
+export interface PullModelRequest {
+  repo: string;
+  filename: string;
+}
+
+export type ModelDownloadStatus = 'pending' | 'completed' | 'error';
+
+export interface ModelDownload {
+  id: string;
+  repo: string;
+  filename: string;
+  status: ModelDownloadStatus;
+  error?: string | null;
+  total_bytes?: number | null;
+  downloaded_bytes?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly type?: string;
+  readonly code?: string;
+  readonly param?: string;
+
+  constructor(status: number, error: ApiErrorBody) {
+    super(error.message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.type = error.type;
+    this.code = error.code;
+    this.param = error.param;
+  }
+}
+
+export class ApiValidationError extends Error {
+  readonly endpoint: string;
+  readonly issues: string[];
+
+  constructor(endpoint: string, issues: string[]) {
+    super(`Unexpected response from ${endpoint}: ${issues.join('; ')}`);
+    this.name = 'ApiValidationError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
@@ -15,10 +15,85 @@ export interface TokenResponse {
   scope: string;
 }
 
+// Claims decoded from the access token. The signature is not verified here;
+// the server does that, these only drive what the UI shows.
+export interface TokenClaims {
+  subject: string | null;
+  issuer: string | null;
+  // Epoch milliseconds
+  expiresAt: number | null;
+  issuedAt: number | null;
+  scopes: string[];
+  roles: string[];
+  // The app's resource scope granted by requestResourceAccess, if present
+  resourceScope: string | null;
+  email: string | null;
+}
+
+export interface AccessRequirement {
+  // Satisfied by this role or any role ranked above it
+  role?: string;
+  // Every listed scope must be granted
+  scopes?: string[];
+}
+
+export interface AccessCheck {
+  allowed: boolean;
+  // Human-readable reasons, e.g. for a tooltip on a disabled control
+  missing: string[];
+}
+
+// Emitted locally and relayed to the app's other tabs
+export type AuthEvent =
+  | { type: 'logged-in' }
+  | { type: 'tokens-refreshed' }
+  | { type: 'user-info-updated'; userInfo: UserInfo }
+  | { type: 'logged-out'; reason?: string };
+
+// Where tokens are persisted: memory is lost on reload, sessionStorage is
+// per tab, and indexeddb encrypts values with a non-extractable WebCrypto key
+export type TokenStorageKind = 'memory' | 'session' | 'indexeddb';
+
+export interface StorageBackend {
+  readonly kind: TokenStorageKind;
+  readAll(keys: readonly string[]): Promise<Map<string, string>>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+// Where to send the user once the login redirect comes back, and the chat
+// draft to put back in the composer there. Paths are relative to the router basename.
+export interface LoginReturn {
+  path: string;
+  draft?: string;
+}
+
+// The subset of OAuthManager that authenticated API clients depend on
+export interface AccessTokenProvider {
+  getValidAccessToken(): Promise<string | null>;
+  refreshAccessToken(): Promise<string>;
+  logout(reason?: string): void;
+}
+
 export interface AuthenticationState {
   status: AuthState;
   userInfo: UserInfo | null;
+  claims: TokenClaims | null;
   error: string | null;
-  login: () => Promise<void>;
+  login: (loginReturn?: Partial<LoginReturn>) => Promise<void>;
   logout: () => void;
+}
+
+export class TokenRefreshError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'TokenRefreshError';
+  }
+}
+
+export class AuthRequiredError extends Error {
+  constructor(message = 'Authentication required. Please log in again.', cause?: unknown) {
+    super(message, { cause });
+    this.name = 'AuthRequiredError';
+  }
 }
\ No newline at end of file
@@ -0,0 +1,112 @@
+import type { CompletionUsage } from '@/types/api';
+import type { StreamTimings } from '@/types/stream';
+import type { Citation } from '@/types/documents';
+import type { ToolCallTrace } from '@/types/tools';
+
+export type MessageRole = 'system' | 'user' | 'assistant';
+
+// Generation details recorded for assistant replies
+export interface MessageMetadata {
+  model?: string;
+  finishReason?: string | null;
+  usage?: CompletionUsage | null;
+  timings?: StreamTimings;
+  // Document excerpts the reply was given, numbered as the model cites them
+  citations?: Citation[];
+  // Tools the model called before giving this reply, in call order
+  toolCalls?: ToolCallTrace[];
+}
+
+export interface Message {
+  role: MessageRole;
+  content: string;
+  metadata?: MessageMetadata;
+}
+
+// A conversation is a tree: editing a user message or regenerating a reply
+// adds a sibling instead of overwriting, and each node remembers which of
+// its children is shown so switching branches restores the whole path
+export interface MessageNode {
+  id: string;
+  parentId: string | null;
+  childIds: string[];
+  activeChildId: string | null;
+  message: Message;
+  createdAt: number;
+}
+
+export interface MessageTree {
+  nodes: Record<string, MessageNode>;
+  // Alternative first messages, which have no parent node
+  rootIds: string[];
+  activeRootId: string | null;
+}
+
+export interface BranchPosition {
+  index: number;
+  count: number;
+}
+
+export type ChatStatus = 'idle' | 'streaming' | 'error';
+
+export interface ChatState {
+  tree: MessageTree;
+  // Nodes on the active branch, root first
+  branch: MessageNode[];
+  messages: Message[];
+  status: ChatStatus;
+  error: string | null;
+  sendMessage: (content: string) => Promise<void>;
+  editMessage: (id: string, content: string) => Promise<void>;
+  regenerate: (id: string) => Promise<void>;
+  switchBranch: (id: string, offset: number) => void;
+  stopGeneration: () => void;
+  clearMessages: () => void;
+  loadConversation: (tree: MessageTree) => void;
+}
+
+export interface ChatSettings {
+  systemPrompt?: string;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string[];
+  seed?: number;
+  // Names of the tools offered to the model
+  tools?: string[];
+}
+
+export interface Chat {
+  id: string;
+  title: string;
+  tree: MessageTree;
+  model: string;
+  settings: ChatSettings;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ChatHistoryPeriod = 'Today' | 'Yesterday' | 'Previous 7 days' | 'Older';
+
+export interface ChatHistoryGroup {
+  period: ChatHistoryPeriod;
+  chats: Chat[];
+}
+
+export type ChatExportFormat = 'json' | 'markdown' | 'jsonl';
+
+export interface ChatImportResult {
+  imported: Chat[];
+  // Chats already present in the history, matched by id or identical content
+  skipped: number;
+}
+
+export class ChatImportError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Could not import chats: ${issues.join('; ')}`);
+    this.name = 'ChatImportError';
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,20 @@
+export interface AuthConfig {
+  clientId: string;
+  // Base URL of the Keycloak-compatible identity server
+  authUrl: string;
+  realm: string;
+}
+
+export interface AppConfig {
+  auth: AuthConfig;
+  // Named auth environments offered by the dev-only switcher
+  environments: Record<string, AuthConfig>;
+  // The environment picked in the switcher, null when using the deployed config
+  activeEnvironment: string | null;
+}
+
+// Shape of the optional config.json served next to index.html
+export interface RuntimeConfig {
+  auth?: Partial<AuthConfig>;
+  environments?: Record<string, Partial<AuthConfig>>;
+}
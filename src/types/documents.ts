@@ -0,0 +1,64 @@
+export type DocumentType = 'text' | 'markdown' | 'pdf';
+
+// A file attached to a chat; its chunks and vectors live in the document index
+export interface ChatDocument {
+  id: string;
+  chatId: string;
+  name: string;
+  type: DocumentType;
+  size: number;
+  // Embedding model the chunks were indexed with; queries must use the same one
+  model: string;
+  chunkCount: number;
+  createdAt: number;
+}
+
+// Text pulled out of a file; PDFs yield one section per page
+export interface DocumentSection {
+  text: string;
+  page?: number;
+}
+
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  chatId: string;
+  // Position within the document, starting at 0
+  index: number;
+  text: string;
+  page?: number;
+  embedding: number[];
+}
+
+export interface RetrievedChunk {
+  chunk: DocumentChunk;
+  document: ChatDocument;
+  score: number;
+}
+
+// Where a numbered [n] reference in an answer points to
+export interface Citation {
+  index: number;
+  documentId: string;
+  documentName: string;
+  chunkIndex: number;
+  page?: number;
+  excerpt: string;
+  score: number;
+}
+
+// Context to add to a chat request, and the sources it was built from
+export interface RetrievedContext {
+  prompt: string;
+  citations: Citation[];
+}
+
+export class DocumentError extends Error {
+  readonly fileName: string;
+
+  constructor(fileName: string, message: string) {
+    super(`${fileName}: ${message}`);
+    this.name = 'DocumentError';
+    this.fileName = fileName;
+  }
+}
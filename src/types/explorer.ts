@@ -0,0 +1,41 @@
+export type ExplorerMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// What the explorer form edits. Body and headers stay as the JSON text the
+// user typed so history brings back exactly what was sent.
+export interface ExplorerRequest {
+  method: ExplorerMethod;
+  endpoint: string;
+  body: string;
+  headers: string;
+  stream: boolean;
+  attachToken: boolean;
+}
+
+export interface ExplorerHistoryEntry {
+  id: string;
+  request: ExplorerRequest;
+  sentAt: number;
+  status?: number;
+}
+
+export interface ExplorerStreamChunk {
+  // Milliseconds since the request was sent
+  elapsedMs: number;
+  status?: number;
+  body: unknown;
+}
+
+export type ExplorerResult =
+  | { kind: 'response'; status: number; headers: Record<string, string>; body: unknown; durationMs: number }
+  | { kind: 'stream'; chunks: ExplorerStreamChunk[]; done: boolean; durationMs: number | null }
+  | { kind: 'error'; message: string };
+
+export class ExplorerRequestError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid request: ${issues.join('; ')}`);
+    this.name = 'ExplorerRequestError';
+    this.issues = issues;
+  }
+}
@@ -1,43 +1,53 @@
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // For API requests this bounds the whole call; for streams it bounds each wait for the next chunk
+  timeout?: number;
+}
+
 export interface ExtensionClient {
   getExtensionId(): string;
   sendApiRequest(
     method: string,
     endpoint: string,
-    body?: any,
-    headers?: Record<string, string>
+    body?: unknown,
+    headers?: Record<string, string>,
+    options?: RequestOptions
   ): Promise<ApiResponse>;
   sendStreamRequest(
     method: string,
     endpoint: string,
-    body?: any,
-    headers?: Record<string, string>
+    body?: unknown,
+    headers?: Record<string, string>,
+    options?: RequestOptions
   ): Promise<AsyncIterable<StreamChunk>>;
   ping(): Promise<{ message: string }>;
   serverState(): Promise<ServerStateInfo>;
 }
 
-export interface ApiResponse {
-  body: any;
+export interface ApiResponse<T = unknown> {
+  body: T;
   headers: Record<string, string>;
   status: number;
 }
 
-export interface StreamChunk {
-  body: any;
+export interface StreamChunk<T = unknown> {
+  body: T;
   headers?: Record<string, string>;
   status?: number;
 }
 
+export interface ApiErrorBody {
+  message: string;
+  type?: string;
+  code?: string;
+  param?: string;
+}
+
 export interface ServerStateInfo {
   status: 'setup' | 'ready' | 'resource-admin' | 'error' | 'unreachable';
   version?: string;
   url?: string;
-  error?: {
-    message: string;
-    type?: string;
-    code?: string;
-    param?: string;
-  };
+  error?: ApiErrorBody;
 }
 
 export class ExtensionNotFoundError extends Error {
@@ -54,6 +64,20 @@ export class ExtensionTimeoutError extends Error {
   }
 }
 
+export class RequestAbortedError extends Error {
+  constructor() {
+    super('Request was cancelled');
+    this.name = 'RequestAbortedError';
+  }
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`Request did not complete within ${timeout}ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
 declare global {
   interface Window {
     bodhiext?: {
@@ -61,13 +85,13 @@ declare global {
       sendApiRequest(
         method: string,
         endpoint: string,
-        body?: any,
+        body?: unknown,
         headers?: Record<string, string>
       ): Promise<ApiResponse>;
       sendStreamRequest(
         method: string,
         endpoint: string,
-        body?: any,
+        body?: unknown,
         headers?: Record<string, string>
       ): Promise<AsyncIterable<StreamChunk>>;
       ping(): Promise<{ message: string }>;
@@ -0,0 +1,24 @@
+import type { ServerStateInfo } from '@/types/extension';
+
+export type ConnectionStatus = 'unknown' | 'connected' | 'degraded' | 'disconnected';
+
+export type ExtensionChangeReason =
+  | 'extension-removed'
+  | 'extension-reloaded'
+  | 'extension-unresponsive'
+  | 'server-not-ready';
+
+export interface HealthSample {
+  timestamp: number;
+  ok: boolean;
+  latencyMs: number | null;
+  serverStatus: ServerStateInfo['status'] | null;
+  error: string | null;
+}
+
+export interface HealthSnapshot {
+  status: ConnectionStatus;
+  latencyMs: number | null;
+  lastChecked: number | null;
+  history: HealthSample[];
+}
@@ -0,0 +1,23 @@
+// Editable alias fields as typed into the form; numbers stay strings until saved
+export interface AliasForm {
+  alias: string;
+  // "repo|filename" of the local model file
+  modelFile: string;
+  temperature: string;
+  topP: string;
+  maxTokens: string;
+  seed: string;
+  // One entry per line
+  stop: string;
+  contextParams: string;
+}
+
+export class ModelFormError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.join('; '));
+    this.name = 'ModelFormError';
+    this.issues = issues;
+  }
+}
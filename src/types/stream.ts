@@ -0,0 +1,26 @@
+import type { ChatRole, CompletionUsage, ToolCall } from '@/types/api';
+
+export interface StreamTimings {
+  // Milliseconds from sending the request to the first generated token
+  timeToFirstTokenMs: number | null;
+  durationMs: number;
+  tokensPerSecond: number | null;
+}
+
+export interface AssembledMessage {
+  role: ChatRole;
+  content: string;
+  toolCalls: ToolCall[];
+  finishReason: string | null;
+  model: string | null;
+  usage: CompletionUsage | null;
+  timings: StreamTimings;
+}
+
+export type StreamEvent =
+  | { type: 'role'; role: ChatRole }
+  | { type: 'content'; delta: string; content: string }
+  | { type: 'tool-call'; index: number; toolCall: ToolCall }
+  | { type: 'finish'; reason: string }
+  | { type: 'usage'; usage: CompletionUsage }
+  | { type: 'done'; message: AssembledMessage };
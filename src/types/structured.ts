@@ -0,0 +1,48 @@
+import type { ChatCompletionMessage, CompletionUsage } from '@/types/api';
+import type { JsonSchema } from '@/types/tools';
+
+// json_schema sends the schema to the server to constrain generation;
+// json_object only asks for JSON and the schema is checked client-side
+export type StructuredOutputMode = 'json_schema' | 'json_object';
+
+export interface StructuredOutputRequest {
+  model: string;
+  messages: ChatCompletionMessage[];
+  schema: JsonSchema;
+  // Name sent with json_schema; letters, digits, _ and - only
+  schemaName?: string;
+  mode?: StructuredOutputMode;
+  // Corrective re-prompts after the first attempt
+  maxRetries?: number;
+  temperature?: number;
+}
+
+export interface StructuredAttempt {
+  content: string;
+  // Empty when the reply parsed and matched the schema
+  errors: string[];
+  usage?: CompletionUsage | null;
+}
+
+export interface StructuredOutputResult<T = unknown> {
+  data: T;
+  attempts: StructuredAttempt[];
+}
+
+// How a validated value is laid out: a table for a list of records, a form for a record
+export type StructuredView = 'table' | 'form' | 'value';
+
+export class StructuredOutputError extends Error {
+  readonly issues: string[];
+  // Every reply the model gave, for showing what went wrong
+  readonly attempts: StructuredAttempt[];
+
+  constructor(issues: string[], attempts: StructuredAttempt[] = []) {
+    super(attempts.length > 0
+      ? `No valid response after ${attempts.length} attempt${attempts.length === 1 ? '' : 's'}: ${issues.join('; ')}`
+      : issues.join('; '));
+    this.name = 'StructuredOutputError';
+    this.issues = issues;
+    this.attempts = attempts;
+  }
+}
@@ -0,0 +1,34 @@
+// JSON schema describing a tool's arguments, sent to the model as-is
+export type JsonSchema = Record<string, unknown>;
+
+export interface ToolContext {
+  signal?: AbortSignal;
+}
+
+// A function the app lets the model call. Tools run in the page, so anything
+// they return is sent back to the model as the call's result.
+export interface ToolDefinition {
+  name: string;
+  label: string;
+  description: string;
+  parameters: JsonSchema;
+  run: (args: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+}
+
+// One call as shown in the chat; result and error are unset while it runs
+export interface ToolCallTrace {
+  id: string;
+  name: string;
+  arguments: string;
+  result?: string;
+  error?: string;
+  durationMs?: number;
+}
+
+// Raised for calls the model got wrong, e.g. bad arguments; the message is shown to the model
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
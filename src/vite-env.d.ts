@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Set to "true" to always replace window.bodhiext with the in-page mock
+  readonly VITE_BODHIEXT_MOCK?: string;
+  // Token storage backend: "memory", "session" or "indexeddb" (default)
+  readonly VITE_TOKEN_STORAGE?: string;
+  // OAuth client registered for this app and the identity server it lives on
+  readonly VITE_AUTH_CLIENT_ID?: string;
+  readonly VITE_AUTH_URL?: string;
+  readonly VITE_AUTH_REALM?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,3 +1,5 @@
+import typography from "@tailwindcss/typography"
+
 /** @type {import('tailwindcss').Config} */
 export default {
   darkMode: ["class"],
@@ -70,5 +72,5 @@ export default {
       },
     },
   },
-  plugins: [],
+  plugins: [typography],
 }
\ No newline at end of file